@@ -0,0 +1,275 @@
+// firestore.rules.test.ts
+// Security rules, checked against the Firestore emulator: `npm run test:rules`.
+import { readFileSync } from "fs";
+import {
+  type RulesTestContext,
+  type RulesTestEnvironment,
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+
+let env: RulesTestEnvironment;
+
+// Accounts by role in the seeded galleries; invites only count for verified addresses
+const account = (uid: string, verified = true) =>
+  env.authenticatedContext(uid, { email: `${uid}@example.com`, email_verified: verified });
+const db = (ctx: RulesTestContext) => ctx.firestore();
+const owner = () => db(account("owner"));
+const editor = () => db(account("editor"));
+const viewer = () => db(account("viewer"));
+const stranger = () => db(account("stranger"));
+const anonymous = () => db(env.unauthenticatedContext());
+
+const gallery = (visibility: string) => ({
+  name: `A ${visibility} gallery`,
+  ownerId: "owner",
+  editors: ["editor@example.com"],
+  viewers: ["viewer@example.com"],
+  visibility,
+});
+
+const item = { url: "https://example.com/a.jpg", x: 0, y: 0, w: 0.2, h: 0.2, createdBy: "editor" };
+
+const presence = {
+  name: "Someone",
+  color: "#f00",
+  cursor: null,
+  breakpoint: "base",
+  selection: [],
+  dragging: [],
+};
+
+const album = (createdBy: string) => ({ name: "Dogs", itemIds: ["i1"], createdBy });
+
+const snapshot = (createdBy: string) => ({
+  name: "Before the move",
+  auto: false,
+  createdBy,
+  canvas: null,
+  items: {},
+});
+
+beforeAll(async () => {
+  // host and port come from FIRESTORE_EMULATOR_HOST, set by `firebase emulators:exec`
+  env = await initializeTestEnvironment({
+    projectId: "demo-gallery-rules",
+    firestore: { rules: readFileSync("firestore.rules", "utf8") },
+  });
+});
+
+afterAll(() => env?.cleanup());
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await env.withSecurityRulesDisabled(async (ctx) => {
+    const admin = db(ctx);
+    for (const visibility of ["private", "unlisted", "public"]) {
+      await setDoc(doc(admin, `galleries/${visibility}`), gallery(visibility));
+      await setDoc(doc(admin, `galleries/${visibility}/items/i1`), item);
+    }
+    // from before sign-in: no owner, no invites
+    await setDoc(doc(admin, "galleries/legacy"), { name: "Old gallery" });
+    await setDoc(doc(admin, "galleries/private/presence/viewer"), presence);
+    await setDoc(doc(admin, "galleries/private/drafts/editor"), { savedAt: 1, items: [] });
+    await setDoc(doc(admin, "galleries/private/albums/a1"), album("owner"));
+    await setDoc(doc(admin, "galleries/public/albums/a1"), album("owner"));
+    await setDoc(doc(admin, "galleries/private/snapshots/s1"), snapshot("owner"));
+    await setDoc(doc(admin, "users/owner/searches/s1"), { name: "Dogs", filter: {} });
+  });
+});
+
+describe("galleries", () => {
+  it("opens a private gallery to its members only", async () => {
+    for (const member of [owner, editor, viewer]) {
+      await assertSucceeds(getDoc(doc(member(), "galleries/private")));
+    }
+    await assertFails(getDoc(doc(stranger(), "galleries/private")));
+    await assertFails(getDoc(doc(anonymous(), "galleries/private")));
+  });
+
+  it("ignores invites to addresses that aren't verified", async () => {
+    const unverified = db(account("editor", false));
+    await assertFails(getDoc(doc(unverified, "galleries/private")));
+  });
+
+  it("opens unlisted and public galleries to anyone with the link", async () => {
+    await assertSucceeds(getDoc(doc(anonymous(), "galleries/unlisted")));
+    await assertSucceeds(getDoc(doc(anonymous(), "galleries/public")));
+    await assertSucceeds(getDoc(doc(stranger(), "galleries/unlisted")));
+  });
+
+  it("lists galleries by owner, invite or public visibility, never unlisted ones", async () => {
+    const col = (fs: ReturnType<typeof db>) => collection(fs, "galleries");
+    await assertSucceeds(getDocs(query(col(owner()), where("ownerId", "==", "owner"))));
+    await assertSucceeds(
+      getDocs(query(col(editor()), where("editors", "array-contains", "editor@example.com")))
+    );
+    await assertSucceeds(getDocs(query(col(anonymous()), where("visibility", "==", "public"))));
+    await assertFails(getDocs(query(col(anonymous()), where("visibility", "==", "unlisted"))));
+    await assertFails(getDocs(col(stranger())));
+  });
+
+  it("lets an account create galleries it owns", async () => {
+    const mine = { name: "Mine", ownerId: "stranger" };
+    await assertSucceeds(setDoc(doc(stranger(), "galleries/new"), mine));
+    await assertFails(setDoc(doc(stranger(), "galleries/other"), { ...mine, ownerId: "owner" }));
+    await assertFails(setDoc(doc(stranger(), "galleries/bad"), { ...mine, visibility: "open" }));
+    await assertFails(setDoc(doc(anonymous(), "galleries/anon"), { name: "Anon", ownerId: null }));
+  });
+
+  it("leaves sharing and ownership to the owner", async () => {
+    const ref = (fs: ReturnType<typeof db>) => doc(fs, "galleries/private");
+    await assertSucceeds(updateDoc(ref(editor()), { name: "Renamed", captionStyle: "below" }));
+    await assertFails(updateDoc(ref(editor()), { visibility: "public" }));
+    await assertFails(updateDoc(ref(editor()), { editors: ["stranger@example.com"] }));
+    await assertFails(updateDoc(ref(viewer()), { name: "Renamed" }));
+    await assertSucceeds(updateDoc(ref(owner()), { visibility: "unlisted", viewers: [] }));
+    await assertFails(updateDoc(ref(owner()), { ownerId: "stranger" }));
+  });
+
+  it("lets only the owner delete a gallery", async () => {
+    await assertFails(deleteDoc(doc(editor(), "galleries/private")));
+    await assertSucceeds(deleteDoc(doc(owner(), "galleries/private")));
+  });
+
+  it("closes galleries without an owner to every client", async () => {
+    await assertFails(getDoc(doc(owner(), "galleries/legacy")));
+    await assertFails(updateDoc(doc(owner(), "galleries/legacy"), { ownerId: "owner" }));
+  });
+});
+
+describe("items", () => {
+  it("are read wherever the gallery can be", async () => {
+    await assertSucceeds(getDocs(collection(viewer(), "galleries/private/items")));
+    await assertFails(getDocs(collection(stranger(), "galleries/private/items")));
+    await assertSucceeds(getDocs(collection(anonymous(), "galleries/unlisted/items")));
+    await assertSucceeds(getDocs(collection(anonymous(), "galleries/public/items")));
+  });
+
+  it("are added by editors, in their own name", async () => {
+    const ref = (fs: ReturnType<typeof db>) => doc(fs, "galleries/private/items/new");
+    await assertSucceeds(setDoc(ref(editor()), { ...item, createdBy: "editor" }));
+    await assertFails(setDoc(ref(editor()), { ...item, createdBy: "owner" }));
+    await assertFails(setDoc(ref(viewer()), { ...item, createdBy: "viewer" }));
+    await assertFails(setDoc(doc(anonymous(), "galleries/public/items/new"), item));
+  });
+
+  it("are changed by editors, who sign their changes", async () => {
+    const ref = (fs: ReturnType<typeof db>) => doc(fs, "galleries/private/items/i1");
+    await assertSucceeds(updateDoc(ref(owner()), { x: 0.5, updatedBy: "owner" }));
+    await assertFails(updateDoc(ref(owner()), { x: 0.5, updatedBy: "editor" }));
+    await assertFails(updateDoc(ref(owner()), { createdBy: "owner" }));
+    await assertFails(updateDoc(ref(viewer()), { x: 0.5 }));
+  });
+
+  it("are deleted by editors", async () => {
+    await assertFails(deleteDoc(doc(viewer(), "galleries/private/items/i1")));
+    await assertSucceeds(deleteDoc(doc(editor(), "galleries/private/items/i1")));
+  });
+});
+
+describe("albums", () => {
+  it("are read wherever the gallery can be", async () => {
+    await assertSucceeds(getDocs(collection(viewer(), "galleries/private/albums")));
+    await assertFails(getDocs(collection(stranger(), "galleries/private/albums")));
+    await assertSucceeds(getDocs(collection(anonymous(), "galleries/public/albums")));
+  });
+
+  it("are made by editors, in their own name", async () => {
+    const ref = (fs: ReturnType<typeof db>) => doc(fs, "galleries/private/albums/new");
+    await assertSucceeds(setDoc(ref(editor()), album("editor")));
+    await assertFails(setDoc(ref(editor()), album("owner")));
+    await assertFails(setDoc(ref(viewer()), album("viewer")));
+    await assertFails(setDoc(ref(editor()), { ...album("editor"), name: "" }));
+    const tooMany = Array.from({ length: 1001 }, (_, i) => `i${i}`);
+    await assertFails(setDoc(ref(editor()), { ...album("editor"), itemIds: tooMany }));
+  });
+
+  it("are filled and deleted by editors", async () => {
+    const ref = (fs: ReturnType<typeof db>) => doc(fs, "galleries/private/albums/a1");
+    await assertSucceeds(updateDoc(ref(editor()), { itemIds: ["i1", "i2"] }));
+    await assertFails(updateDoc(ref(editor()), { createdBy: "editor" }));
+    await assertFails(updateDoc(ref(viewer()), { itemIds: [] }));
+    await assertFails(deleteDoc(ref(viewer())));
+    await assertSucceeds(deleteDoc(ref(editor())));
+  });
+});
+
+describe("presence", () => {
+  it("is seen by members only", async () => {
+    await assertSucceeds(getDocs(collection(viewer(), "galleries/private/presence")));
+    await assertFails(getDocs(collection(stranger(), "galleries/private/presence")));
+    await assertFails(getDocs(collection(anonymous(), "galleries/public/presence")));
+  });
+
+  it("is written by each member for themselves", async () => {
+    await assertSucceeds(setDoc(doc(editor(), "galleries/private/presence/editor"), presence));
+    await assertFails(setDoc(doc(editor(), "galleries/private/presence/viewer"), presence));
+    await assertFails(setDoc(doc(stranger(), "galleries/public/presence/stranger"), presence));
+  });
+
+  it("is swept up by the owner", async () => {
+    await assertFails(deleteDoc(doc(editor(), "galleries/private/presence/viewer")));
+    await assertSucceeds(deleteDoc(doc(owner(), "galleries/private/presence/viewer")));
+  });
+});
+
+describe("drafts", () => {
+  it("belong to the editor who left them", async () => {
+    const mine = doc(editor(), "galleries/private/drafts/editor");
+    await assertSucceeds(getDoc(mine));
+    await assertSucceeds(setDoc(mine, { savedAt: 2, items: [] }));
+    await assertFails(getDoc(doc(owner(), "galleries/private/drafts/editor")));
+    await assertFails(setDoc(doc(viewer(), "galleries/private/drafts/viewer"), { items: [] }));
+    await assertFails(getDoc(doc(anonymous(), "galleries/public/drafts/editor")));
+  });
+
+  it("are swept up by the owner", async () => {
+    await assertSucceeds(deleteDoc(doc(owner(), "galleries/private/drafts/editor")));
+  });
+});
+
+describe("snapshots", () => {
+  it("are read and recorded by editors", async () => {
+    await assertSucceeds(getDocs(collection(editor(), "galleries/private/snapshots")));
+    await assertFails(getDocs(collection(viewer(), "galleries/private/snapshots")));
+    await assertFails(getDocs(collection(anonymous(), "galleries/public/snapshots")));
+    const ref = (fs: ReturnType<typeof db>) => doc(fs, "galleries/private/snapshots/new");
+    await assertSucceeds(setDoc(ref(editor()), snapshot("editor")));
+    await assertFails(setDoc(ref(editor()), snapshot("owner")));
+    await assertFails(setDoc(ref(viewer()), snapshot("viewer")));
+  });
+
+  it("are kept as recorded until deleted", async () => {
+    const ref = (fs: ReturnType<typeof db>) => doc(fs, "galleries/private/snapshots/s1");
+    await assertFails(updateDoc(ref(owner()), { name: "Edited" }));
+    await assertFails(deleteDoc(ref(viewer())));
+    await assertSucceeds(deleteDoc(ref(editor())));
+  });
+});
+
+describe("saved searches", () => {
+  it("belong to their account", async () => {
+    await assertSucceeds(getDocs(collection(owner(), "users/owner/searches")));
+    await assertFails(getDocs(collection(editor(), "users/owner/searches")));
+    await assertFails(getDocs(collection(anonymous(), "users/owner/searches")));
+    const search = { name: "Cats", filter: { tags: ["cat"] } };
+    await assertSucceeds(setDoc(doc(editor(), "users/editor/searches/new"), search));
+    await assertFails(setDoc(doc(editor(), "users/owner/searches/new"), search));
+    await assertFails(updateDoc(doc(owner(), "users/owner/searches/s1"), { name: "Renamed" }));
+    await assertSucceeds(deleteDoc(doc(owner(), "users/owner/searches/s1")));
+  });
+});
@@ -0,0 +1,69 @@
+// scripts/claim-galleries.mjs
+// Gives galleries from before sign-in (no `ownerId`) an owner. The security rules close
+// them to every client, so this runs with admin credentials:
+//
+//   GOOGLE_APPLICATION_CREDENTIALS=key.json npm run claim-galleries -- --project <id>
+//   … --owner <email or uid> [galleryId …]
+//
+// Without --owner it only lists them; with it, it claims the ones named (or all of them).
+// Galleries that already have an owner are never changed. Against the emulators, set
+// FIRESTORE_EMULATOR_HOST (and FIREBASE_AUTH_EMULATOR_HOST to look up an email).
+import { parseArgs } from "node:util";
+import { initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { FieldValue, getFirestore } from "firebase-admin/firestore";
+
+const { values, positionals } = parseArgs({
+  options: { project: { type: "string" }, owner: { type: "string" } },
+  allowPositionals: true,
+});
+
+const projectId =
+  values.project ?? process.env.GCLOUD_PROJECT ?? process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+if (!projectId) {
+  console.error("Name the project with --project <id>");
+  process.exit(1);
+}
+
+const app = initializeApp({ projectId });
+const db = getFirestore(app);
+
+// the galleries named, or every gallery, that have no owner
+async function ownerless() {
+  const docs = positionals.length
+    ? await Promise.all(positionals.map((id) => db.doc(`galleries/${id}`).get()))
+    : (await db.collection("galleries").get()).docs;
+  for (const d of docs) {
+    if (!d.exists) console.warn(`${d.id}: no such gallery`);
+    else if (d.get("ownerId")) console.warn(`${d.id}: already owned by ${d.get("ownerId")}`);
+  }
+  return docs.filter((d) => d.exists && !d.get("ownerId"));
+}
+
+async function ownerUid(owner) {
+  if (!owner.includes("@")) return owner;
+  return (await getAuth(app).getUserByEmail(owner.toLowerCase())).uid;
+}
+
+const found = await ownerless();
+if (!values.owner) {
+  found.forEach((d) => console.log(`${d.id}\t${d.get("name") ?? ""}`));
+  console.log(`${found.length} gallery(s) without an owner; claim with --owner <email or uid>`);
+  process.exit(0);
+}
+
+const uid = await ownerUid(values.owner);
+let claimed = 0;
+for (const d of found) {
+  // only if still ownerless: someone may have claimed it since it was read
+  const done = await db.runTransaction(async (tx) => {
+    const fresh = await tx.get(d.ref);
+    if (fresh.get("ownerId")) return false;
+    tx.update(d.ref, { ownerId: uid, updatedAt: FieldValue.serverTimestamp() });
+    return true;
+  });
+  if (!done) continue;
+  claimed++;
+  console.log(`${d.id}\t${d.get("name") ?? ""}\t→ ${uid}`);
+}
+console.log(`${claimed} gallery(s) claimed`);
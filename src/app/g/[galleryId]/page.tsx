@@ -0,0 +1,91 @@
+// app/g/[galleryId]/page.tsx
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import React, { Suspense } from "react";
+import ShareLightbox from "@/components/ShareLightbox";
+import StaticCanvas from "@/components/StaticCanvas";
+import { layoutAt } from "@/lib/canvas";
+import { DEFAULT_CAPTION_STYLE, altText } from "@/lib/galleries";
+import { readingOrder } from "@/lib/layout";
+import { loadSharedGallery, sharePath } from "@/lib/share";
+
+// visibility changes must apply on the next request
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ galleryId: string }> };
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const { galleryId } = await params;
+  const shared = await loadSharedGallery(galleryId);
+  if (!shared) return { title: "Gallery not found", robots: { index: false } };
+
+  const { gallery, items } = shared;
+  const description = `${items.length} image${items.length === 1 ? "" : "s"}`;
+  const cover = items.find((it) => it.thumbUrl || it.url);
+  return {
+    title: gallery.name,
+    description,
+    alternates: { canonical: sharePath(galleryId) },
+    // unlisted galleries open for anyone with the link but stay out of search engines
+    robots: gallery.visibility === "public" ? undefined : { index: false, follow: false },
+    openGraph: {
+      type: "website",
+      title: gallery.name,
+      description,
+      url: sharePath(galleryId),
+      images: cover
+        ? [{ url: cover.thumbUrl || cover.url, alt: altText(cover) || gallery.name }]
+        : undefined,
+    },
+    twitter: { card: cover ? "summary_large_image" : "summary", title: gallery.name, description },
+  };
+}
+
+export default async function SharedGalleryPage({ params }: Params) {
+  const { galleryId } = await params;
+  const shared = await loadSharedGallery(galleryId);
+  if (!shared) notFound();
+
+  const { gallery, items } = shared;
+  const captionStyle = gallery.captionStyle ?? DEFAULT_CAPTION_STYLE;
+  // the mobile layout only replaces the base one when the gallery has one
+  const hasMobile = !!gallery.canvas?.mobile || items.some((it) => it.layouts?.mobile);
+
+  // lightbox order: reading order of the base layout
+  const layouts = Object.fromEntries(
+    items.flatMap((it) => (it.id ? [[it.id, layoutAt(it, "base", gallery)]] : []))
+  );
+  const ordered = readingOrder(layouts).flatMap((id) => items.filter((it) => it.id === id));
+
+  return (
+    <main className="mx-auto max-w-7xl p-4 md:p-8 space-y-6">
+      <header>
+        <h1 className="text-2xl font-semibold">{gallery.name}</h1>
+        <p className="text-sm opacity-70">
+          {items.length} image{items.length === 1 ? "" : "s"}
+        </p>
+      </header>
+
+      <StaticCanvas
+        gallery={gallery}
+        items={items}
+        breakpoint="base"
+        captionStyle={captionStyle}
+        className={hasMobile ? "max-sm:hidden" : undefined}
+      />
+      {hasMobile && (
+        <StaticCanvas
+          gallery={gallery}
+          items={items}
+          breakpoint="mobile"
+          captionStyle={captionStyle}
+          className="sm:hidden"
+        />
+      )}
+
+      <Suspense fallback={null}>
+        <ShareLightbox items={ordered} />
+      </Suspense>
+    </main>
+  );
+}
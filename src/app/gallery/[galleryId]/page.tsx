@@ -0,0 +1,1895 @@
+// app/gallery/[galleryId]/page.tsx
+"use client";
+
+import React, { use, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import AccountMenu from "@/components/AccountMenu";
+import AlbumMenu from "@/components/AlbumMenu";
+import AlignToolbar from "@/components/AlignToolbar";
+import AutoLayoutToolbar from "@/components/AutoLayoutToolbar";
+import CanvasSizeControl from "@/components/CanvasSizeControl";
+import CanvasViewport, { canvasPointAt, useViewportWidth } from "@/components/CanvasViewport";
+import CropEditor from "@/components/CropEditor";
+import DraftOffer from "@/components/DraftOffer";
+import EditedImage from "@/components/EditedImage";
+import ExportPanel from "@/components/ExportPanel";
+import FilterBar from "@/components/FilterBar";
+import ImportNotice, { type ImportStatus } from "@/components/ImportNotice";
+import ItemCaption from "@/components/ItemCaption";
+import ItemInspector from "@/components/ItemInspector";
+import Lightbox from "@/components/Lightbox";
+import LayersPanel, { type LayerRow } from "@/components/LayersPanel";
+import MarqueeCanvas from "@/components/MarqueeCanvas";
+import MembersPanel from "@/components/MembersPanel";
+import PresenceAvatars from "@/components/PresenceAvatars";
+import RemoteCursors from "@/components/RemoteCursors";
+import ResizableDraggableItem, { type ItemPeer } from "@/components/ResizeableDraggableItem";
+import SavedSearchMenu from "@/components/SavedSearchMenu";
+import SignIn from "@/components/SignIn";
+import SnapshotPanel from "@/components/SnapshotPanel";
+import UploadStatusBar from "@/components/UploadStatusBar";
+import { type Album, albumItems, albumRoomFor } from "@/lib/albums";
+import { useAuth } from "@/lib/auth/context";
+import { type AutoLayoutMode, AUTO_LAYOUT_LABELS, autoLayout } from "@/lib/autolayout";
+import {
+  type Breakpoint,
+  type CanvasSize,
+  BREAKPOINT_LABELS,
+  BREAKPOINTS,
+  breakpointFor,
+  canvasOf,
+  clearLayoutPatch,
+  layoutAt,
+  layoutPatch,
+  normalize,
+  sameSize,
+} from "@/lib/canvas";
+import {
+  type CaptionStyle,
+  type Gallery,
+  type GalleryItem,
+  type GalleryPatch,
+  type ItemMeta,
+  type MemberRole,
+  type Visibility,
+  CAPTION_STYLE_LABELS,
+  DEFAULT_CAPTION_STYLE,
+  DEFAULT_VISIBILITY,
+  ROLE_LABELS,
+  VISIBILITY_LABELS,
+  altText,
+  canEdit,
+  deleteItem,
+  duplicateItem,
+  memberPatch,
+  pickMeta,
+  replaceItemImage,
+  roleOf,
+} from "@/lib/galleries";
+import { usePendingDraft } from "@/lib/drafts";
+import type { ImageEdits } from "@/lib/edits";
+import { isTextInput, useHistory, useUndoShortcuts } from "@/lib/history";
+import {
+  type ImportRejection,
+  type ImportResult,
+  collectFiles,
+  renamePasted,
+  snapshotTransfer,
+  transferNames,
+  validateImages,
+} from "@/lib/imports";
+import { describeItem, useItemKeyboard, useSelectionShortcuts } from "@/lib/keyboard";
+import {
+  type AlignMode,
+  type Layout,
+  ALIGN_LABELS,
+  arrange,
+  intersects,
+  nudgeLayout,
+  pickLayout,
+  readingOrder,
+  scaleAround,
+  translateAll,
+} from "@/lib/layout";
+import {
+  type Layer,
+  type RestackCommand,
+  RESTACK_LABELS,
+  restack,
+  stackOrder,
+  topZ,
+} from "@/lib/layers";
+import { type SavedPatch, useLayoutWrites } from "@/lib/layoutWrites";
+import { usePresence } from "@/lib/presence";
+import { useGalleryRepository } from "@/lib/repository/context";
+import {
+  type ItemFilter,
+  type SavedSearch,
+  EMPTY_FILTER,
+  isEmptyFilter,
+  matchesFilter,
+  tagsOf,
+} from "@/lib/search";
+import { sharePath } from "@/lib/share";
+import { useSnapshots } from "@/lib/snapshots";
+import { type PendingFile, isUploadActive, usePendingFiles } from "@/lib/uploads";
+import { cls } from "@/lib/utils";
+
+/* -------------------- Types & helpers -------------------- */
+// Per-item fields the canvases edit (layout in canvas units, stacking, lock, image edits,
+// metadata)
+type ItemEdit = Partial<Layout & { z: number; locked: boolean; edits: ImageEdits | null }> &
+  ItemMeta;
+
+// A canvas item as displayed: effective stacking order and lock
+type CanvasLayer = Layer & { locked: boolean };
+
+// Which canvas a selection or edit belongs to
+type CanvasKind = "pending" | "saved";
+
+// Grid steps offered in the toolbar (0 = no grid)
+const GRID_SIZES = [0, 4, 8, 16, 32];
+
+// How long the "your change was kept" notice stays up
+const CONFLICT_NOTICE_MS = 6000;
+
+const NO_IDS: string[] = [];
+
+// How far a duplicate lands from its original
+const DUPLICATE_OFFSET = 16;
+const KEYS_HELP_ID = "canvas-keys-help";
+
+// Same stored layout on every breakpoint
+function sameStoredLayout(a: GalleryItem, b: GalleryItem) {
+  return (
+    a.x === b.x &&
+    a.y === b.y &&
+    a.w === b.w &&
+    a.h === b.h &&
+    JSON.stringify(a.layouts ?? null) === JSON.stringify(b.layouts ?? null)
+  );
+}
+
+/* -------------------- Page -------------------- */
+export default function GalleryPage({
+  params,
+}: {
+  params: Promise<{ galleryId: string }>;
+}) {
+  const { galleryId } = use(params);
+  const repo = useGalleryRepository();
+  const { user, loading: authLoading } = useAuth();
+
+  // Gallery metadata document
+  const [gallery, setGallery] = useState<Gallery | null>(null);
+  // viewers see the saved canvas only; sharing is up to the owner
+  const role = roleOf(gallery, user);
+  const mayEdit = canEdit(role);
+  const uid = user?.uid ?? null;
+  // why a live update (the gallery, its images, collaborators, versions) stopped coming;
+  // they don't resume without a reload
+  const [liveError, setLiveError] = useState<string | null>(null);
+
+  // Collaborators with the editor open (members only)
+  const { others, update: updatePresence } = usePresence(
+    repo,
+    galleryId,
+    role ? user : null,
+    setLiveError
+  );
+  const othersRef = useRef(others);
+  useEffect(() => {
+    othersRef.current = others;
+  });
+  // a collaborator's edit that lost to a local one, or a layout write that was refused,
+  // until dismissed
+  const [conflict, setConflict] = useState<string | null>(null);
+  // the last gallery setting (canvas, captions, sharing, members) that couldn't be saved
+  const [settingsError, setSettingsError] = useState<string | null>(null);
+
+  // Lightbox: the open item lives in the URL (?item=<id>) so it can be linked to
+  const searchParams = useSearchParams();
+  const openItemId = searchParams.get("item");
+
+  // Saved items (Firestore)
+  const [items, setItems] = useState<GalleryItem[]>([]);
+
+  // Pending previews (before save) and their upload queue
+  const previews = usePendingFiles(repo, galleryId);
+  const { pending, setPending, pendingRef } = previews;
+  // Snapping: grid step (0 = off) and smart guides to neighbours / canvas center
+  const [gridSize, setGridSize] = useState(8);
+  const [smartGuides, setSmartGuides] = useState(true);
+  // space between auto-arranged items and around the canvas edge, in canvas units
+  const [gutter, setGutter] = useState(16);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [importNotice, setImportNotice] = useState<ImportStatus | null>(null);
+  const [dropActive, setDropActive] = useState(false);
+
+  // Draft of the previews, on this device and optionally in the account
+  const draft = usePendingDraft(repo, galleryId, uid, mayEdit, previews);
+
+  // Saved canvas edit mode: local layouts win over snapshots until written
+  const [editSaved, setEditSaved] = useState(false);
+  // which layout edit mode works on; viewers get theirs from the window width
+  const [editBreakpoint, setEditBreakpoint] = useState<Breakpoint>("base");
+  const viewportWidth = useViewportWidth();
+  const layoutWrites = useLayoutWrites(repo, galleryId, uid, editSaved, setConflict);
+  const { overrides, isQueued, hasQueued } = layoutWrites;
+  // saved items this user is dragging or resizing right now
+  const localDragging = useRef(new Set<string>());
+
+  // Saved items with a delete/replace in flight, and the last one that failed per item
+  const [busyIds, setBusyIds] = useState<Set<string>>(new Set());
+  const [itemErrors, setItemErrors] = useState<Record<string, string>>({});
+  const replaceInputRef = useRef<HTMLInputElement | null>(null);
+  const replaceTarget = useRef<GalleryItem | null>(null);
+
+  // with why the version recording the save is missing, if it is
+  const [saveResult, setSaveResult] = useState<{
+    saved: number;
+    failed: number;
+    snapshotError?: string;
+  } | null>(null);
+
+  // Undo/redo for layout edits on both canvases
+  const history = useHistory();
+  useUndoShortcuts(history.undo, history.redo);
+
+  // Selection (one canvas at a time, in click order) and live group-drag offset
+  const [selection, setSelection] = useState<{ canvas: CanvasKind; ids: string[] }>({
+    canvas: "pending",
+    ids: [],
+  });
+  const [groupDrag, setGroupDrag] = useState<{
+    canvas: CanvasKind;
+    sourceId: string;
+    dx: number;
+    dy: number;
+  } | null>(null);
+  // Item open in the crop / adjustments editor
+  const [cropTarget, setCropTarget] = useState<{ canvas: CanvasKind; id: string } | null>(null);
+
+  // versions of the arrangement (editors only)
+  const versions = useSnapshots(repo, galleryId, {
+    gallery,
+    uid,
+    enabled: mayEdit,
+    unwritten: overrides,
+    flush: layoutWrites.flush,
+    onError: setLiveError,
+  });
+
+  // saved items not matching the filter are faded and left out of the lightbox
+  const [filter, setFilter] = useState<ItemFilter>(EMPTY_FILTER);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  // the album the canvas is narrowed to, on top of the filter
+  const [albums, setAlbums] = useState<Album[]>([]);
+  const [albumId, setAlbumId] = useState<string | null>(null);
+
+  // Subscribe to gallery metadata (re-read on sign-in: access depends on the user)
+  useEffect(
+    () =>
+      repo.subscribeGallery(galleryId, setGallery, (err) =>
+        setLiveError(`The gallery stopped updating: ${err.message}`)
+      ),
+    [repo, galleryId, user]
+  );
+
+  // Subscribe to saved items. A collaborator's change to an item that is still being
+  // dragged or written here loses (ours lands last), so say so instead of dropping it silently.
+  useEffect(() => {
+    let prev = new Map<string, GalleryItem>();
+    const onError = (err: Error) => setLiveError(`Images stopped updating: ${err.message}`);
+    return repo.subscribeItems(galleryId, (list) => {
+      const clash = list.find((it) => {
+        if (!it.id || !it.updatedBy || it.updatedBy === user?.uid) return false;
+        const before = prev.get(it.id);
+        const inFlight = localDragging.current.has(it.id) || isQueued(it.id);
+        return inFlight && !!before && !sameStoredLayout(before, it);
+      });
+      prev = new Map(list.flatMap((it) => (it.id ? [[it.id, it] as const] : [])));
+      setItems(list);
+      if (clash) {
+        const who = othersRef.current.find((p) => p.uid === clash.updatedBy)?.name ?? "Someone";
+        setConflict(`${who} also moved “${clash.fileName || "an image"}”; your change was kept.`);
+      }
+    }, onError);
+  }, [repo, galleryId, user, isQueued]);
+
+  useEffect(() => {
+    if (!uid) return;
+    return repo.subscribeSavedSearches(uid, setSavedSearches, (err) =>
+      setLiveError(`Saved searches stopped updating: ${err.message}`)
+    );
+  }, [repo, uid]);
+
+  useEffect(
+    () =>
+      repo.subscribeAlbums(galleryId, setAlbums, (err) =>
+        setLiveError(`Albums stopped updating: ${err.message}`)
+      ),
+    [repo, galleryId, user]
+  );
+
+  useEffect(() => {
+    if (!conflict) return;
+    const t = setTimeout(() => setConflict(null), CONFLICT_NOTICE_MS);
+    return () => clearTimeout(t);
+  }, [conflict]);
+
+  // Hold back a queued write while the same item is being dragged again, and tell
+  // collaborators which items are in hand
+  const onSavedInteractionStart = (id: string) => {
+    layoutWrites.hold(id);
+    const selected = selectedOn("saved");
+    const group = selected.includes(id) ? selected : [id];
+    localDragging.current = new Set(group);
+    updatePresence({ dragging: group });
+  };
+
+  // An import that failed as a whole: every file in it is reported with the reason,
+  // rather than leaving the notice on "Checking…"
+  const importFailed = (names: string[], err: unknown) => {
+    const reason = err instanceof Error ? err.message : String(err);
+    setImportNotice({ checking: 0, rejected: names.map((name) => ({ name, reason })) });
+  };
+
+  // Check new files, then add the good ones as preview boxes: centered on `at` (canvas
+  // units) when dropped, otherwise cascading from the top-left corner
+  const addFiles = async (
+    files: File[],
+    at?: { x: number; y: number },
+    rejected: ImportRejection[] = []
+  ) => {
+    if (!files.length && !rejected.length) return;
+    setImportNotice({ checking: files.length, rejected: [] });
+    const known = new Set(
+      [...items.map((it) => it.contentHash), ...pendingRef.current.map((p) => p.hash)].filter(
+        (h): h is string => !!h
+      )
+    );
+    let result: ImportResult;
+    try {
+      result = await validateImages(files, known);
+    } catch (err) {
+      importFailed([...rejected.map((r) => r.name), ...files.map((f) => f.name)], err);
+      return;
+    }
+    const failed = [...rejected, ...result.rejected];
+    setImportNotice(failed.length ? { checking: 0, rejected: failed } : null);
+    if (!result.accepted.length) return;
+
+    const entries: PendingFile[] = [];
+    const current = pendingRef.current;
+    const baseZ = topZ(current);
+    for (const { file, w, h, hash } of result.accepted) {
+      const previewUrl = previews.previewOf(file);
+      const baseW = 260;
+      const baseH = Math.max(160, Math.round(baseW * Math.max(0.3, h / w)));
+      const k = entries.length;
+      const n = current.length + k;
+      const x = at ? at.x - baseW / 2 + 16 * k : 16 * n;
+      const y = at ? at.y - baseH / 2 + 16 * k : 16 * n;
+      entries.push({
+        id: crypto.randomUUID(),
+        file,
+        hash,
+        previewUrl,
+        w: baseW,
+        h: baseH,
+        aspect: w / h,
+        // keep drops inside the canvas
+        x: Math.round(Math.min(Math.max(0, x), Math.max(0, baseCanvas.w - baseW))),
+        y: Math.round(Math.min(Math.max(0, y), Math.max(0, baseCanvas.h - baseH))),
+        z: baseZ + k,
+      });
+    }
+    history.execute({
+      label: entries.length > 1 ? `Add ${entries.length} images` : "Add image",
+      apply: () => previews.insert(entries.map((p) => [p, Infinity])),
+      revert: () => entries.forEach((p) => previews.removeNow(p.id)),
+    });
+    entries.forEach((p) => void previews.processed(p));
+  };
+
+  // "Add images" / "Add folder" pickers
+  const onSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = "";
+    // folder picks include everything; hidden files (.DS_Store…) aren't worth a message
+    void addFiles(files.filter((f) => !f.name.startsWith(".")));
+  };
+
+  // Drop target for files, folders and image links; on the canvas itself (`onCanvas`)
+  // they land where they were dropped
+  const dropHandlers = (onCanvas: boolean) => ({
+    onDragOver: (e: React.DragEvent<HTMLElement>) => {
+      if (!e.dataTransfer.types.some((t) => t === "Files" || t === "text/uri-list")) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "copy";
+      setDropActive(true);
+    },
+    onDragLeave: (e: React.DragEvent<HTMLElement>) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropActive(false);
+    },
+    onDrop: (e: React.DragEvent<HTMLElement>) => {
+      e.preventDefault();
+      setDropActive(false);
+      const snap = snapshotTransfer(e.dataTransfer);
+      const point = onCanvas ? canvasPointAt(e.currentTarget, e.clientX, e.clientY) : null;
+      const at = point ? { x: point.x * baseCanvas.w, y: point.y * baseCanvas.h } : undefined;
+      void collectFiles(snap)
+        .then(({ files, rejected }) => addFiles(files, at, rejected))
+        .catch((err) => importFailed(transferNames(snap), err));
+    },
+  });
+
+  // Ctrl+V pastes clipboard images, or an image link, into the preview canvas
+  const addFilesRef = useRef(addFiles);
+  const importFailedRef = useRef(importFailed);
+  useEffect(() => {
+    addFilesRef.current = addFiles;
+    importFailedRef.current = importFailed;
+  });
+  useEffect(() => {
+    if (!mayEdit) return;
+    const onPaste = (e: ClipboardEvent) => {
+      if (!e.clipboardData || isTextInput(e.target)) return;
+      const snap = snapshotTransfer(e.clipboardData);
+      if (!snap.files.length && !snap.urls.length) return;
+      e.preventDefault();
+      void collectFiles({ ...snap, files: snap.files.map(renamePasted) })
+        .then(({ files, rejected }) => addFilesRef.current(files, undefined, rejected))
+        .catch((err) => importFailedRef.current(transferNames(snap), err));
+    };
+    // a file dropped beside the canvas would otherwise open in place of the editor
+    const blockDrop = (e: DragEvent) => {
+      if (e.dataTransfer?.types.includes("Files")) e.preventDefault();
+    };
+    document.addEventListener("paste", onPaste);
+    window.addEventListener("dragover", blockDrop);
+    window.addEventListener("drop", blockDrop);
+    return () => {
+      document.removeEventListener("paste", onPaste);
+      window.removeEventListener("dragover", blockDrop);
+      window.removeEventListener("drop", blockDrop);
+    };
+  }, [mayEdit]);
+
+  // Remove pending previews as one step (undoable; uploads start over if they come back)
+  const removePending = (ids: string[]) => {
+    const removed = pendingRef.current.flatMap((p, index): Array<[PendingFile, number]> =>
+      // an item document being written would be orphaned
+      ids.includes(p.id) && p.upload?.status !== "saving" ? [[p, index]] : []
+    );
+    if (!removed.length) return;
+    history.execute({
+      label: removed.length > 1 ? `Remove ${removed.length} images` : "Remove image",
+      apply: () => removed.forEach(([p]) => previews.removeNow(p.id)),
+      revert: () =>
+        previews.insert(
+          removed.map(([p, index]) => [{ ...p, upload: undefined, stored: undefined }, index])
+        ),
+    });
+  };
+
+  const removeOne = (id: string) => removePending([id]);
+
+  // Copies of previews, a little down and right, on top (undoable)
+  const duplicatePending = (ids: string[]) => {
+    const current = pendingRef.current;
+    const baseZ = topZ(current);
+    const copies: PendingFile[] = current
+      .filter((p) => ids.includes(p.id))
+      .map((p, k) => {
+        return {
+          ...p,
+          ...nudgeLayout(pickLayout(p), { x: 1, y: 1 }, DUPLICATE_OFFSET, 0, baseCanvas),
+          id: crypto.randomUUID(),
+          previewUrl: previews.previewOf(p.file),
+          z: baseZ + k,
+          upload: undefined,
+          stored: undefined,
+        };
+      });
+    if (!copies.length) return [];
+    history.execute({
+      label: copies.length > 1 ? `Duplicate ${copies.length} images` : "Duplicate image",
+      apply: () => previews.insert(copies.map((p) => [p, Infinity])),
+      revert: () => copies.forEach((p) => previews.removeNow(p.id)),
+    });
+    copies.forEach((p) => void previews.processed(p));
+    return copies.map((p) => p.id);
+  };
+
+  // Leaving with previews not yet in the gallery, or layout writes still queued, asks first
+  useEffect(() => {
+    const onBeforeUnload = (e: BeforeUnloadEvent) => {
+      if (!pendingRef.current.length && !hasQueued()) return;
+      e.preventDefault();
+      // older browsers only ask when a return value is set
+      e.returnValue = "";
+    };
+    window.addEventListener("beforeunload", onBeforeUnload);
+    return () => window.removeEventListener("beforeunload", onBeforeUnload);
+  }, [pendingRef, hasQueued]);
+
+  /* ---------- layout edits & selection (both canvases) ---------- */
+  // Saved canvas: the layout being edited, or the one that fits this window
+  const breakpoint = editSaved ? editBreakpoint : breakpointFor(viewportWidth, gallery, items);
+  const baseCanvas = canvasOf(gallery, "base");
+  const savedCanvas = canvasOf(gallery, breakpoint);
+
+  // Collaborators on the same layout: their cursors and highlights line up with ours
+  const othersHere = others.filter((p) => p.breakpoint === breakpoint);
+  const peersOf = (id: string): ItemPeer[] =>
+    othersHere
+      .filter((p) => p.selection.includes(id) || p.dragging.includes(id))
+      .map((p) => ({ id: p.uid, name: p.name, color: p.color, dragging: p.dragging.includes(id) }));
+
+  const savedSelection = editSaved && selection.canvas === "saved" ? selection.ids : NO_IDS;
+  useEffect(() => {
+    updatePresence({ breakpoint, selection: savedSelection });
+  }, [updatePresence, breakpoint, savedSelection]);
+
+  const onSavedPointerMove = (e: React.PointerEvent<HTMLElement>) => {
+    const at = canvasPointAt(e.currentTarget, e.clientX, e.clientY);
+    // off the canvas (toolbar, scrolled-away margins): no cursor to show
+    const on = at && at.x >= 0 && at.x <= 1 && at.y >= 0 && at.y <= 1;
+    updatePresence({ cursor: on ? at : null });
+  };
+
+  // Saved items with local edits applied, laid out in canvas units; items from before
+  // layers keep their old stacking (newest at the bottom) beneath anything restacked since
+  const savedItems = items.map((it, i) => {
+    const merged: GalleryItem = { ...it, ...(it.id ? overrides[it.id] : undefined) };
+    return {
+      ...merged,
+      ...layoutAt(merged, breakpoint, gallery),
+      z: merged.z ?? i - items.length,
+      locked: !!merged.locked,
+    };
+  });
+
+  // A canvas edit in the form it is stored: layouts become fractions of the canvas
+  const toSavedPatch = (id: string, edit: ItemEdit): SavedPatch => {
+    const { x, y, w, h, ...rest } = edit;
+    if (x === undefined || y === undefined || w === undefined || h === undefined) return rest;
+    const it = items.find((i) => i.id === id);
+    const layouts = overrides[id]?.layouts ?? it?.layouts;
+    return { ...rest, ...layoutPatch({ x, y, w, h }, breakpoint, gallery, { layouts }) };
+  };
+
+  const layoutsOf = (canvas: CanvasKind): Record<string, Layout> => {
+    const out: Record<string, Layout> = {};
+    if (canvas === "pending") pending.forEach((p) => (out[p.id] = pickLayout(p)));
+    else savedItems.forEach((it) => it.id && (out[it.id] = pickLayout(it)));
+    return out;
+  };
+
+  const layersOf = (canvas: CanvasKind): CanvasLayer[] =>
+    canvas === "pending"
+      ? pending.map((p) => ({ id: p.id, z: p.z, locked: !!p.locked }))
+      : savedItems.flatMap((it) => (it.id ? [{ id: it.id, z: it.z, locked: it.locked }] : []));
+
+  const lockedOn = (canvas: CanvasKind) => {
+    const locked = new Set(layersOf(canvas).filter((l) => l.locked).map((l) => l.id));
+    // items a collaborator is dragging stay put here until they let go
+    if (canvas === "saved") othersHere.forEach((p) => p.dragging.forEach((id) => locked.add(id)));
+    return locked;
+  };
+
+  const selectedOn = (canvas: CanvasKind, layouts = layoutsOf(canvas)) =>
+    selection.canvas === canvas ? selection.ids.filter((id) => layouts[id]) : [];
+
+  const writeEdits = (canvas: CanvasKind, next: Record<string, ItemEdit>) => {
+    if (canvas === "pending") {
+      setPending((prev) => prev.map((p) => (next[p.id] ? { ...p, ...next[p.id] } : p)));
+    } else {
+      Object.entries(next).forEach(([id, edit]) => layoutWrites.queue(id, toSavedPatch(id, edit)));
+    }
+  };
+
+  // Apply new layouts for some items as one undoable step
+  const applyLayouts = (
+    canvas: CanvasKind,
+    next: Record<string, Layout>,
+    label: string,
+    coalesceKey?: string
+  ) => {
+    const ids = Object.keys(next);
+    if (!ids.length) return;
+    const cur = layoutsOf(canvas);
+    const prev = Object.fromEntries(ids.map((id) => [id, cur[id]]));
+    history.execute({
+      label,
+      coalesceKey,
+      apply: () => writeEdits(canvas, next),
+      revert: () => writeEdits(canvas, prev),
+    });
+  };
+
+  // Drag/resize end; a selected item carries the rest of the selection along
+  const onItemChange = (canvas: CanvasKind, id: string, next: Layout) => {
+    setGroupDrag(null);
+    if (canvas === "saved") {
+      localDragging.current.clear();
+      updatePresence({ dragging: [] });
+    }
+    const cur = layoutsOf(canvas);
+    const from = cur[id];
+    if (!from) return;
+    const kind = from.w === next.w && from.h === next.h ? "move" : "resize";
+    const selected = selectedOn(canvas, cur);
+    const group = selected.includes(id) ? selected : [id];
+    // locked items stay put when the rest of the selection moves
+    const locked = lockedOn(canvas);
+    const others = group.filter((x) => x !== id && !locked.has(x));
+    const moved =
+      kind === "move"
+        ? translateAll(others, cur, next.x - from.x, next.y - from.y)
+        : scaleAround(others, cur, from, next);
+    const noun = group.length > 1 ? `${group.length} images` : "image";
+    applyLayouts(
+      canvas,
+      { ...moved, [id]: next },
+      `${kind === "move" ? "Move" : "Resize"} ${noun}`,
+      `${canvas}:${group.join(",")}:${kind}`
+    );
+  };
+
+  const onItemDragMove = (canvas: CanvasKind, id: string, d: { dx: number; dy: number }) => {
+    if (selectedOn(canvas).length > 1 && selection.ids.includes(id)) {
+      setGroupDrag({ canvas, sourceId: id, ...d });
+    }
+  };
+
+  // Shift-click toggles; clicking outside the selection starts a new one
+  const onItemPointerDown = (canvas: CanvasKind, id: string, e: React.PointerEvent) => {
+    setSelection((prev) => {
+      const ids = prev.canvas === canvas ? prev.ids : [];
+      if (e.shiftKey) {
+        return { canvas, ids: ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id] };
+      }
+      return { canvas, ids: ids.includes(id) ? ids : [id] };
+    });
+  };
+
+  const onMarquee = (canvas: CanvasKind, rect: Layout, additive: boolean) => {
+    const cur = layoutsOf(canvas);
+    const hit = Object.keys(cur).filter((id) => intersects(cur[id], rect));
+    setSelection((prev) => ({
+      canvas,
+      ids:
+        additive && prev.canvas === canvas ? [...new Set([...prev.ids, ...hit])] : hit,
+    }));
+  };
+
+  // Select from the layers panel: a plain click selects just that item
+  const onLayerSelect = (canvas: CanvasKind, id: string, additive: boolean) =>
+    setSelection((prev) => {
+      const ids = prev.canvas === canvas ? prev.ids : [];
+      if (!additive) return { canvas, ids: [id] };
+      return { canvas, ids: ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id] };
+    });
+
+  /* ---------- keyboard ---------- */
+  const keyboard = useItemKeyboard<CanvasKind>({
+    layoutsOf,
+    selectedOn,
+    lockedOn,
+    nameOf: (canvas, id) =>
+      canvas === "pending"
+        ? (pending.find((p) => p.id === id)?.file.name ?? "Image")
+        : savedItems.find((it) => it.id === id)?.fileName || "Untitled",
+    sizeOf: (canvas) => (canvas === "pending" ? baseCanvas : savedCanvas),
+    gridSize,
+    move: (canvas, id, next) => onItemChange(canvas, id, next),
+    select: (canvas, id, only) =>
+      setSelection((prev) => {
+        const ids = prev.canvas === canvas ? prev.ids : [];
+        if (only) return { canvas, ids: [id] };
+        return { canvas, ids: ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id] };
+      }),
+    remove: (canvas, ids) => {
+      if (canvas === "saved") {
+        return onDeleteSaved(savedItems.filter((it) => it.id && ids.includes(it.id)));
+      }
+      removePending(ids);
+      return true;
+    },
+    duplicate: (canvas, ids) => {
+      if (canvas === "saved") {
+        duplicateSaved(ids);
+        return null;
+      }
+      const copies = duplicatePending(ids);
+      if (copies.length) setSelection({ canvas, ids: copies });
+      return copies;
+    },
+    replace: (canvas, id) => {
+      const it = canvas === "saved" && savedItems.find((x) => x.id === id);
+      if (!it || busyIds.has(id)) return false;
+      onReplaceClick(it);
+      return true;
+    },
+  });
+
+  const onAlign = (canvas: CanvasKind, mode: AlignMode) => {
+    const cur = layoutsOf(canvas);
+    const locked = lockedOn(canvas);
+    // locked items still act as a reference but are never moved
+    const next = arrange(mode, selectedOn(canvas, cur), cur);
+    locked.forEach((id) => delete next[id]);
+    applyLayouts(canvas, next, ALIGN_LABELS[mode]);
+  };
+
+  // Auto-arrange the selection (or everything when fewer than two are selected) in
+  // reading order; locked and untouched items stay put and are kept clear
+  const onAutoLayout = (canvas: CanvasKind, mode: AutoLayoutMode) => {
+    const cur = layoutsOf(canvas);
+    const locked = lockedOn(canvas);
+    const selected = selectedOn(canvas, cur);
+    const scope = selected.length > 1 ? selected : Object.keys(cur);
+    const ids = scope
+      .filter((id) => !locked.has(id))
+      .sort((a, b) => cur[a].y - cur[b].y || cur[a].x - cur[b].x);
+    const obstacles = Object.keys(cur)
+      .filter((id) => !ids.includes(id))
+      .map((id) => cur[id]);
+    const next = autoLayout(
+      mode,
+      ids.map((id) => ({ id, aspect: aspectOf(canvas, id) })),
+      { canvas: canvas === "pending" ? baseCanvas : savedCanvas, gutter, obstacles }
+    );
+    applyLayouts(canvas, next, AUTO_LAYOUT_LABELS[mode]);
+  };
+
+  // Image aspect ratio, falling back to the item's current shape
+  const aspectOf = (canvas: CanvasKind, id: string) => {
+    if (canvas === "pending") {
+      const p = pending.find((x) => x.id === id);
+      return p ? p.aspect : 1;
+    }
+    const it = savedItems.find((x) => x.id === id);
+    if (!it) return 1;
+    return it.originalW && it.originalH ? it.originalW / it.originalH : it.w / it.h;
+  };
+
+  // Change the stacking order of the selection (undoable)
+  const onRestack = (canvas: CanvasKind, cmd: RestackCommand) => {
+    if (canvas === "saved" && !editSaved) return;
+    const layers = layersOf(canvas);
+    const next = restack(layers, selectedOn(canvas), cmd);
+    const ids = Object.keys(next);
+    if (!ids.length) return;
+    const cur = Object.fromEntries(layers.map((l) => [l.id, l.z]));
+    const toEdits = (zs: Record<string, number>) =>
+      Object.fromEntries(ids.map((id) => [id, { z: zs[id] }]));
+    history.execute({
+      label: RESTACK_LABELS[cmd],
+      apply: () => writeEdits(canvas, toEdits(next)),
+      revert: () => writeEdits(canvas, toEdits(cur)),
+    });
+  };
+
+  const onToggleLock = (canvas: CanvasKind, id: string) => {
+    const layer = layersOf(canvas).find((l) => l.id === id);
+    if (!layer) return;
+    const locked = !layer.locked;
+    history.execute({
+      label: locked ? "Lock image" : "Unlock image",
+      apply: () => writeEdits(canvas, { [id]: { locked } }),
+      revert: () => writeEdits(canvas, { [id]: { locked: !locked } }),
+    });
+  };
+
+  // Write gallery settings; a refused write is shown rather than lost
+  const updateSettings = async (patch: GalleryPatch) => {
+    setSettingsError(null);
+    try {
+      await repo.updateGallery(galleryId, patch);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      setSettingsError(`Couldn't save the gallery settings: ${reason}`);
+    }
+  };
+
+  // Change the canvas size of one breakpoint. Layouts are fractions, so items follow;
+  // with `keepItems` they are rewritten to keep their size and place (clamped inside)
+  const onCanvasSize = (bp: Breakpoint, size: CanvasSize, keepItems: boolean) => {
+    if (!gallery || sameSize(size, canvasOf(gallery, bp))) return;
+    const canvas = { ...gallery.canvas, [bp]: size };
+    if (keepItems) {
+      for (const it of items) {
+        if (!it.id) continue;
+        const merged: GalleryItem = { ...it, ...overrides[it.id] };
+        const l = layoutAt(merged, bp, gallery);
+        const w = Math.min(l.w, size.w);
+        const h = Math.min(l.h, size.h);
+        const kept = {
+          x: Math.min(l.x, size.w - w),
+          y: Math.min(l.y, size.h - h),
+          w,
+          h,
+        };
+        layoutWrites.queue(it.id, layoutPatch(kept, bp, { canvas }, merged));
+      }
+    }
+    void updateSettings({ canvas });
+  };
+
+  // Selected items go back to the base layout at the breakpoint being edited
+  const onResetBreakpoint = () => {
+    const bp = editBreakpoint;
+    if (bp === "base") return;
+    const selected = selectedOn("saved");
+    const targets = items.filter((it) => {
+      const merged = { ...it, ...(it.id ? overrides[it.id] : undefined) };
+      return it.id && selected.includes(it.id) && merged.layouts?.[bp];
+    });
+    if (!targets.length) return;
+    const before = targets.map((it) => [it.id!, overrides[it.id!]?.layouts ?? it.layouts] as const);
+    history.execute({
+      label: `Reset ${BREAKPOINT_LABELS[bp].toLowerCase()} layout`,
+      apply: () =>
+        before.forEach(([id, layouts]) => layoutWrites.queue(id, clearLayoutPatch({ layouts }, bp))),
+      revert: () => before.forEach(([id, layouts]) => layoutWrites.queue(id, { layouts })),
+    });
+  };
+
+  // Edit caption / alt / title / tags / credit of one item (undoable)
+  const onMetaChange = (canvas: CanvasKind, id: string, patch: ItemMeta) => {
+    const source =
+      canvas === "pending"
+        ? pending.find((p) => p.id === id)
+        : savedItems.find((it) => it.id === id);
+    if (!source) return;
+    const keys = Object.keys(patch) as Array<keyof ItemMeta>;
+    const only = (m: ItemMeta) => Object.fromEntries(keys.map((k) => [k, m[k]]));
+    const before = only(pickMeta(source));
+    const after = only(pickMeta({ ...source, ...patch }));
+    history.execute({
+      label: `Edit ${keys.join(", ")}`,
+      apply: () => writeEdits(canvas, { [id]: after }),
+      revert: () => writeEdits(canvas, { [id]: before }),
+    });
+  };
+
+  // Apply crop / adjustments to one item (undoable); null goes back to the plain image
+  const onImageEdits = (canvas: CanvasKind, id: string, edits: ImageEdits | null) => {
+    const source =
+      canvas === "pending"
+        ? pending.find((p) => p.id === id)
+        : savedItems.find((it) => it.id === id);
+    if (!source) return;
+    const before = source.edits ?? null;
+    history.execute({
+      label: edits ? "Crop & adjust" : "Reset image edits",
+      apply: () => writeEdits(canvas, { [id]: { edits } }),
+      revert: () => writeEdits(canvas, { [id]: { edits: before } }),
+    });
+  };
+
+  const onCaptionStyle = (captionStyle: CaptionStyle) => {
+    if (gallery) void updateSettings({ captionStyle });
+  };
+
+  const visibility = gallery?.visibility ?? DEFAULT_VISIBILITY;
+  const onVisibility = (visibility: Visibility) => {
+    if (gallery) void updateSettings({ visibility });
+  };
+
+  const onMemberChange = (email: string, memberRole: MemberRole | null) => {
+    if (gallery) void updateSettings(memberPatch(gallery, email, memberRole));
+  };
+
+  // Inspector for a single selected item
+  const inspectorFor = (canvas: CanvasKind) => {
+    const ids = selectedOn(canvas);
+    if (ids.length !== 1) return null;
+    const id = ids[0];
+    const meta: ItemMeta | undefined =
+      canvas === "pending"
+        ? pending.find((p) => p.id === id)
+        : savedItems.find((it) => it.id === id);
+    if (!meta) return null;
+    const fileName =
+      canvas === "pending"
+        ? pending.find((p) => p.id === id)?.file.name
+        : savedItems.find((it) => it.id === id)?.fileName;
+    return (
+      <ItemInspector
+        key={`${canvas}:${id}`}
+        meta={meta}
+        fallbackAlt={altText({ ...meta, alt: null, fileName })}
+        onChange={(patch) => onMetaChange(canvas, id, patch)}
+        onEditImage={mayEdit ? () => setCropTarget({ canvas, id }) : undefined}
+      />
+    );
+  };
+
+  const layerRows = (canvas: CanvasKind): LayerRow[] => {
+    const selected = selectedOn(canvas);
+    const info = (id: string) => {
+      if (canvas === "pending") {
+        const p = pending.find((x) => x.id === id);
+        return { name: p?.file.name ?? "", thumb: p?.previewUrl ?? "" };
+      }
+      const it = savedItems.find((x) => x.id === id);
+      return { name: it?.fileName || "Untitled", thumb: it?.thumbUrl || it?.url || "" };
+    };
+    return stackOrder(layersOf(canvas))
+      .reverse()
+      .map((l) => ({ id: l.id, locked: l.locked, selected: selected.includes(l.id), ...info(l.id) }));
+  };
+
+  // What a dragged item snaps against: everything except itself and its group
+  const neighbours = (canvas: CanvasKind, id: string) => {
+    const cur = layoutsOf(canvas);
+    const selected = selectedOn(canvas, cur);
+    const group = selected.includes(id) ? selected : [id];
+    return Object.entries(cur)
+      .filter(([x]) => !group.includes(x))
+      .map(([, l]) => l);
+  };
+
+  // Displayed layout: a follower of a group drag is offset live
+  const shown = (canvas: CanvasKind, id: string, l: Layout, locked = false): Layout =>
+    !locked &&
+    groupDrag &&
+    groupDrag.canvas === canvas &&
+    groupDrag.sourceId !== id &&
+    selection.canvas === canvas &&
+    selection.ids.includes(id)
+      ? { ...l, x: l.x + groupDrag.dx, y: l.y + groupDrag.dy }
+      : l;
+
+  useSelectionShortcuts(
+    () => setSelection((prev) => ({ ...prev, ids: [] })),
+    (cmd) => onRestack(selection.canvas, cmd)
+  );
+
+  // Queue a file for upload; resolves true once its item is written. `zBase` lifts the
+  // batch above what is already on the saved canvas.
+  const queueOne = (id: string, zBase = topZ(layersOf("saved"))) =>
+    previews.queue(id, (p, stored) => ({
+      ...stored,
+      createdBy: uid,
+      fileName: p.file.name,
+      contentHash: p.hash,
+      ...normalize(pickLayout(p), canvasOf(gallery, "base")),
+      units: "normalized",
+      z: zBase + p.z,
+      locked: !!p.locked,
+      edits: p.edits ?? null,
+      ...pickMeta(p),
+    }));
+
+  const cancelOne = (id: string) => previews.cancel(id);
+
+  const retryOne = async (id: string) => {
+    if (await queueOne(id)) await touch();
+  };
+
+  const touch = async () => {
+    if (gallery) await repo.touchGallery(galleryId);
+  };
+
+  // Save → upload every idle, failed or canceled preview, a few at a time
+  const onSave = async () => {
+    const ids = pending.filter((p) => !isUploadActive(p.upload)).map((p) => p.id);
+    if (!ids.length) return;
+    setSaveResult(null);
+    const zBase = topZ(layersOf("saved"));
+    const results = await Promise.all(ids.map((id) => queueOne(id, zBase)));
+    const saved = results.filter(Boolean).length;
+    setSaveResult({ saved, failed: results.length - saved });
+    if (!saved) return;
+    await touch();
+    const name = saved === 1 ? "Added 1 image" : `Added ${saved} images`;
+    try {
+      await versions.record(name, true);
+    } catch (err) {
+      // the images are saved either way; only this version is missing
+      const snapshotError = err instanceof Error ? err.message : String(err);
+      setSaveResult({ saved, failed: results.length - saved, snapshotError });
+    }
+  };
+
+  const dismissItemError = (id: string) =>
+    setItemErrors((prev) => {
+      const copy = { ...prev };
+      delete copy[id];
+      return copy;
+    });
+
+  // Mark a saved item as busy while a delete/replace is in flight; a failure is shown on
+  // the item, `action` naming what was tried ("delete", "replace", …)
+  const withBusy = async (id: string, action: string, task: () => Promise<void>) => {
+    setBusyIds((prev) => new Set(prev).add(id));
+    dismissItemError(id);
+    try {
+      await task();
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      setItemErrors((prev) => ({ ...prev, [id]: `Couldn't ${action}: ${reason}` }));
+    } finally {
+      setBusyIds((prev) => {
+        const copy = new Set(prev);
+        copy.delete(id);
+        return copy;
+      });
+    }
+  };
+
+  // Delete saved items → Firestore docs and Storage objects; false when not confirmed
+  const onDeleteSaved = (list: GalleryItem[]) => {
+    const question =
+      list.length === 1
+        ? `Delete ${list[0].fileName || "this image"}?`
+        : `Delete ${list.length} images?`;
+    if (!list.length || !confirm(question)) return false;
+    for (const it of list) {
+      const id = it.id;
+      if (!id) continue;
+      layoutWrites.forget(id);
+      void withBusy(id, "delete", () => deleteItem(repo, galleryId, it));
+    }
+    return true;
+  };
+
+  // Copies of saved items with files of their own, a little down and right, on top
+  const duplicateSaved = (ids: string[]) => {
+    const cur = layoutsOf("saved");
+    const baseZ = topZ(layersOf("saved"));
+    ids.forEach((id, k) => {
+      const it = items.find((x) => x.id === id);
+      if (!it || !cur[id]) return;
+      const l = nudgeLayout(cur[id], { x: 1, y: 1 }, DUPLICATE_OFFSET, 0, savedCanvas);
+      const patch = { ...toSavedPatch(id, l), z: baseZ + k, createdBy: uid, updatedBy: uid };
+      void withBusy(id, "duplicate", () =>
+        duplicateItem(repo, galleryId, { ...it, ...overrides[id] }, patch)
+      );
+    });
+  };
+
+  // Replace a saved item's image, keeping its layout and caption
+  const onReplaceClick = (it: GalleryItem) => {
+    replaceTarget.current = it;
+    replaceInputRef.current?.click();
+  };
+
+  const onReplaceSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const it = replaceTarget.current;
+    replaceTarget.current = null;
+    e.target.value = "";
+    if (!file || !it?.id) return;
+    void withBusy(it.id, "replace", () => replaceItemImage(repo, galleryId, it, file));
+  };
+
+  const captionStyle = gallery?.captionStyle ?? DEFAULT_CAPTION_STYLE;
+
+  // What the crop editor needs of an item: full-size image, its edits and its tile's shape
+  const cropSource = (canvas: CanvasKind, id: string) => {
+    if (canvas === "pending") {
+      const p = pending.find((x) => x.id === id);
+      return p
+        ? {
+            src: p.previewUrl,
+            alt: altText({ ...p, fileName: p.file.name }),
+            edits: p.edits,
+            aspect: p.aspect,
+            tileAspect: p.w / p.h,
+          }
+        : null;
+    }
+    const it = savedItems.find((x) => x.id === id);
+    return it
+      ? {
+          src: it.url,
+          alt: altText(it),
+          edits: it.edits,
+          aspect: it.originalW && it.originalH ? it.originalW / it.originalH : undefined,
+          tileAspect: it.w / it.h,
+        }
+      : null;
+  };
+  const cropping = cropTarget && cropSource(cropTarget.canvas, cropTarget.id);
+
+  const pendingTabStop = keyboard.tabStopOn("pending");
+  const savedTabStop = keyboard.tabStopOn("saved");
+
+  // Open / move / close the lightbox without adding history entries
+  const setOpenItem = (id: string | null) => {
+    const url = new URL(window.location.href);
+    if (id) url.searchParams.set("item", id);
+    else url.searchParams.delete("item");
+    window.history.replaceState(null, "", url);
+  };
+
+  /* ---------- Filter ---------- */
+  // an album deleted by a collaborator stops narrowing
+  const album = albums.find((a) => a.id === albumId);
+  const filtering = !isEmptyFilter(filter) || !!album;
+  const matchIds = new Set(
+    (album ? albumItems(album, items) : items).flatMap((it) =>
+      it.id && matchesFilter(it, filter) ? [it.id] : []
+    )
+  );
+  const dimmed = (id?: string) => filtering && !(id && matchIds.has(id));
+
+  const onSaveSearch = async (name: string) => {
+    if (uid) await repo.addSavedSearch(uid, { name, filter });
+  };
+
+  /* ---------- Albums ---------- */
+  const albumCounts = new Map(albums.map((a) => [a.id, albumItems(a, items).length]));
+  // what the album menu files: the saved items selected in the layout editor
+  const filing = editSaved ? selectedOn("saved") : NO_IDS;
+
+  const fileInto = (a: Pick<Album, "itemIds">) => {
+    const full = albumRoomFor(a, filing);
+    if (full) throw new Error(full);
+  };
+
+  const onCreateAlbum = async (name: string) => {
+    fileInto({ itemIds: [] });
+    const id = await repo.addAlbum(galleryId, { name, itemIds: filing, createdBy: uid });
+    setAlbumId(id);
+  };
+
+  const onAddToAlbum = async (a: Album) => {
+    fileInto(a);
+    await repo.addToAlbum(galleryId, a.id, filing);
+  };
+
+  // Lightbox order follows the layout being shown: rows top to bottom, left to right
+  const lightboxItems = readingOrder(layoutsOf("saved")).flatMap((id) =>
+    savedItems.filter((it) => it.id === id && !dimmed(id))
+  );
+
+  // Editor tiles clip their content, so a "below" caption is drawn under the tile
+  const captionBelow = (meta: ItemMeta, l: Layout, z: number) =>
+    captionStyle === "below" && (
+      <figure
+        className="absolute m-0 pointer-events-none"
+        style={{ width: l.w, transform: `translate(${l.x}px, ${l.y + l.h}px)`, zIndex: z }}
+      >
+        <ItemCaption meta={meta} captionStyle="below" />
+      </figure>
+    );
+
+  const isSaving = pending.some((p) => isUploadActive(p.upload));
+  const canSave = pending.some((p) => !isUploadActive(p.upload));
+
+  if (authLoading || !user) {
+    return (
+      <div className="mx-auto max-w-7xl p-4 md:p-8 space-y-6">
+        <Link href="/" className="text-sm opacity-70 hover:underline">
+          ← All galleries
+        </Link>
+        {authLoading ? (
+          <p className="text-sm opacity-70">Loading…</p>
+        ) : (
+          <SignIn message="Sign in to open this gallery." />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-7xl p-4 md:p-8 space-y-6">
+      {/* Header */}
+      <header className="grid gap-4 md:grid-cols-2 md:items-center">
+        <div>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <Link href="/" className="text-sm opacity-70 hover:underline">
+              ← All galleries
+            </Link>
+            <div className="flex items-center gap-3">
+              <PresenceAvatars others={others} />
+              <AccountMenu />
+            </div>
+          </div>
+          <h1 className="text-2xl font-semibold">
+            {gallery?.name || galleryId}
+            {role && role !== "owner" && (
+              <span className="ml-2 align-middle text-xs font-normal opacity-60">
+                {ROLE_LABELS[role]}
+              </span>
+            )}
+          </h1>
+          {gallery && !role && (
+            <p className="text-sm text-red-600">Read only: this gallery isn’t shared with {user.email}.</p>
+          )}
+          <p className="text-sm opacity-70">
+            Pick images → arrange them (drag/resize) → Save uploads an optimized copy and a thumbnail
+            to Firebase Storage and writes
+            Firestore with layout (x,y,w,h as fractions of the gallery canvas, so it scales to any
+            screen). Saved canvas below updates live; use Edit layout to rearrange, replace or
+            delete saved images, or to give phones a layout of their own. Shift-click or drag a marquee to select
+            several items and align them.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-end gap-3">
+          {mayEdit && (
+            <>
+              <label className="inline-flex items-center gap-2 px-4 py-2 rounded-2xl shadow border cursor-pointer hover:shadow-md">
+                <span>➕ Add images</span>
+                <input
+                  ref={inputRef}
+                  onChange={onSelect}
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  className="hidden"
+                />
+              </label>
+              <label className="inline-flex items-center gap-2 px-4 py-2 rounded-2xl border cursor-pointer hover:shadow-md">
+                <span>📁 Add folder</span>
+                <input
+                  // not a React prop: set as a plain attribute
+                  ref={(el) => el?.setAttribute("webkitdirectory", "")}
+                  onChange={onSelect}
+                  type="file"
+                  multiple
+                  className="hidden"
+                />
+              </label>
+
+              <div className="inline-flex rounded-xl border overflow-hidden">
+                <button
+                  type="button"
+                  onClick={history.undo}
+                  disabled={!history.canUndo}
+                  className="px-3 py-2 text-sm disabled:opacity-40"
+                  title={history.undoLabel ? `Undo ${history.undoLabel} (Ctrl+Z)` : "Undo (Ctrl+Z)"}
+                  aria-label="Undo"
+                >
+                  ↶
+                </button>
+                <button
+                  type="button"
+                  onClick={history.redo}
+                  disabled={!history.canRedo}
+                  className="px-3 py-2 text-sm border-l disabled:opacity-40"
+                  title={
+                    history.redoLabel ? `Redo ${history.redoLabel} (Ctrl+Shift+Z)` : "Redo (Ctrl+Shift+Z)"
+                  }
+                  aria-label="Redo"
+                >
+                  ↷
+                </button>
+              </div>
+            </>
+          )}
+
+          {role === "owner" && (
+            <>
+              <label className="inline-flex items-center gap-2 px-3 py-2 rounded-xl border">
+                <span className="text-sm">Sharing</span>
+                <select
+                  value={visibility}
+                  onChange={(e) => onVisibility(e.target.value as Visibility)}
+                  disabled={!gallery}
+                  className="text-sm bg-transparent"
+                >
+                  {(Object.keys(VISIBILITY_LABELS) as Visibility[]).map((v) => (
+                    <option key={v} value={v}>
+                      {VISIBILITY_LABELS[v]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <details className="relative">
+                <summary className="px-3 py-2 rounded-xl border text-sm cursor-pointer list-none">
+                  👥 Members
+                </summary>
+                <div className="absolute right-0 z-20 mt-2 w-80 p-3 rounded-2xl border bg-white shadow-lg">
+                  <MembersPanel gallery={gallery ?? {}} onChange={onMemberChange} />
+                </div>
+              </details>
+            </>
+          )}
+          {visibility !== "private" && (
+            <Link
+              href={sharePath(galleryId)}
+              target="_blank"
+              className="px-3 py-2 rounded-xl border text-sm hover:shadow"
+            >
+              View public page ↗
+            </Link>
+          )}
+          {gallery && (
+            <details className="relative">
+              <summary className="px-3 py-2 rounded-xl border text-sm cursor-pointer list-none">
+                ⬇ Export
+              </summary>
+              <div className="absolute right-0 z-20 mt-2 w-80 p-3 rounded-2xl border bg-white shadow-lg">
+                <ExportPanel gallery={gallery} items={items} breakpoint={breakpoint} />
+              </div>
+            </details>
+          )}
+          {gallery && mayEdit && (
+            <details className="relative">
+              <summary className="px-3 py-2 rounded-xl border text-sm cursor-pointer list-none">
+                🕘 History
+              </summary>
+              <div className="absolute right-0 z-20 mt-2 w-80 p-3 rounded-2xl border bg-white shadow-lg">
+                <SnapshotPanel
+                  snapshots={versions.snapshots}
+                  gallery={gallery}
+                  items={versions.storedItems(items)}
+                  onSave={(name) => versions.record(name, false)}
+                  onRestore={versions.restore}
+                  onDelete={versions.remove}
+                />
+              </div>
+            </details>
+          )}
+
+          {mayEdit && (
+            <>
+              <label className="inline-flex items-center gap-2 px-3 py-2 rounded-xl border">
+                <span className="text-sm">Grid</span>
+                <select
+                  value={gridSize}
+                  onChange={(e) => setGridSize(Number(e.target.value))}
+                  className="text-sm bg-transparent"
+                >
+                  {GRID_SIZES.map((g) => (
+                    <option key={g} value={g}>
+                      {g ? `${g}px` : "Off"}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="inline-flex items-center gap-2 px-3 py-2 rounded-xl border">
+                <input
+                  type="checkbox"
+                  checked={smartGuides}
+                  onChange={(e) => setSmartGuides(e.target.checked)}
+                />
+                <span className="text-sm">Smart guides</span>
+              </label>
+
+              <button
+                onClick={onSave}
+                disabled={!canSave}
+                className={cls(
+                  "px-4 py-2 rounded-2xl border shadow",
+                  canSave ? "hover:shadow-md" : "opacity-50 cursor-not-allowed"
+                )}
+              >
+                {isSaving ? "Saving…" : `Save${pending.length ? ` (${pending.length})` : ""}`}
+              </button>
+              {saveResult && !isSaving && (
+                <span className="text-sm opacity-70">
+                  Saved {saveResult.saved}
+                  {saveResult.failed > 0 && ` · ${saveResult.failed} not saved`}
+                  {saveResult.snapshotError && (
+                    <span className="text-red-600">
+                      {" "}
+                      · no version recorded: {saveResult.snapshotError}
+                    </span>
+                  )}
+                </span>
+              )}
+            </>
+          )}
+        </div>
+      </header>
+
+      {liveError && (
+        <p role="alert" className="text-sm text-red-600">
+          {liveError}.{" "}
+          <button type="button" onClick={() => location.reload()} className="underline">
+            Reload
+          </button>
+        </p>
+      )}
+
+      {settingsError && (
+        <p role="alert" className="text-sm text-red-600">
+          {settingsError}{" "}
+          <button type="button" onClick={() => setSettingsError(null)} className="underline">
+            Dismiss
+          </button>
+        </p>
+      )}
+
+      {draft.offered?.draft && (
+        <DraftOffer
+          draft={draft.offered.draft}
+          fromCloud={draft.offered.fromCloud}
+          error={draft.error}
+          onRestore={() => void draft.restore()}
+          onDiscard={() => void draft.discard()}
+        />
+      )}
+
+      {importNotice && (
+        <ImportNotice status={importNotice} onDismiss={() => setImportNotice(null)} />
+      )}
+
+      {/* Drop zone while there is nothing to preview */}
+      {mayEdit && pending.length === 0 && (
+        <div
+          {...dropHandlers(false)}
+          className={cls(
+            "grid place-items-center rounded-2xl border-2 border-dashed p-8 text-sm",
+            dropActive ? "border-blue-500 bg-blue-50" : "opacity-70"
+          )}
+        >
+          Drop images or a folder here, or paste with Ctrl+V
+        </div>
+      )}
+
+      {/* PREVIEW canvas (draggable/resizable) */}
+      {pending.length > 0 && (
+        <section className="grid gap-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex flex-wrap items-center gap-3">
+              <h2 className="text-sm font-medium opacity-70">Preview (not saved yet)</h2>
+              <label
+                className="inline-flex items-center gap-1 text-xs opacity-70"
+                title="Upload previews as you add them, so the draft can be restored on another device"
+              >
+                <input
+                  type="checkbox"
+                  checked={draft.cloudDrafts}
+                  onChange={(e) => draft.setCloudDrafts(e.target.checked)}
+                />
+                Keep draft in my account
+              </label>
+              {draft.error && !draft.offered && (
+                <span className="text-xs text-red-600">{draft.error}</span>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              {selectedOn("pending").length > 0 && (
+                <AlignToolbar
+                  count={selectedOn("pending").length}
+                  onAlign={(mode) => onAlign("pending", mode)}
+                />
+              )}
+              <AutoLayoutToolbar
+                gutter={gutter}
+                onGutterChange={setGutter}
+                onArrange={(mode) => onAutoLayout("pending", mode)}
+              />
+            </div>
+          </div>
+          <div className="grid gap-2 md:grid-cols-[1fr_220px]">
+            <div
+              {...dropHandlers(true)}
+              className={cls("rounded-2xl", dropActive && "ring-2 ring-blue-500")}
+            >
+              <CanvasViewport
+                size={baseCanvas}
+                items={pending.map(pickLayout)}
+                className="rounded-2xl border bg-[--color-foreground]/5"
+              >
+                {(scale, style) => (
+                  <MarqueeCanvas
+                    className="isolate"
+                    style={style}
+                    scale={scale}
+                    onMarquee={(rect, additive) => onMarquee("pending", rect, additive)}
+                    label="Preview canvas"
+                  >
+                    {pending.map((p) => {
+                      const l = shown("pending", p.id, pickLayout(p), p.locked);
+                      const name = p.file.name;
+                      return (
+                        <React.Fragment key={p.id}>
+                          <ResizableDraggableItem
+                            src={p.previewUrl}
+                            alt={altText({ ...p, fileName: p.file.name })}
+                            edits={p.edits}
+                            x={l.x}
+                            y={l.y}
+                            w={l.w}
+                            h={l.h}
+                            gridSize={gridSize}
+                            guides={smartGuides}
+                            scale={scale}
+                            getNeighbours={() => neighbours("pending", p.id)}
+                            selected={selectedOn("pending").includes(p.id)}
+                            z={p.z}
+                            locked={p.locked}
+                            itemKey={`pending:${p.id}`}
+                            tabIndex={p.id === pendingTabStop ? 0 : -1}
+                            label={describeItem(name, l, p.locked)}
+                            describedBy={KEYS_HELP_ID}
+                            onKeyDown={(e) => keyboard.onItemKeyDown("pending", p.id, e)}
+                            onFocus={() => keyboard.setTabStop({ canvas: "pending", id: p.id })}
+                            onPointerDown={(e) => onItemPointerDown("pending", p.id, e)}
+                            onDragMove={(d) => onItemDragMove("pending", p.id, d)}
+                            onChange={(next) => onItemChange("pending", p.id, next)}
+                          >
+                            {captionStyle !== "below" && (
+                              <ItemCaption meta={p} captionStyle={captionStyle} />
+                            )}
+                            {p.upload && (
+                              <UploadStatusBar
+                                upload={p.upload}
+                                onCancel={() => cancelOne(p.id)}
+                                onRetry={() => void retryOne(p.id)}
+                              />
+                            )}
+                            {/* small remove button (Delete from the keyboard) */}
+                            <button
+                              type="button"
+                              onClick={() => removeOne(p.id)}
+                              tabIndex={-1}
+                              className="absolute right-2 top-2 text-xs rounded-md px-2 py-1 bg-black/70 text-white"
+                              aria-label={`Remove ${name}`}
+                              title="Remove"
+                            >
+                              ✕
+                            </button>
+                          </ResizableDraggableItem>
+                          {captionBelow(p, l, p.z)}
+                        </React.Fragment>
+                      );
+                    })}
+                  </MarqueeCanvas>
+                )}
+              </CanvasViewport>
+            </div>
+            <div className="grid gap-2 content-start">
+              <LayersPanel
+                rows={layerRows("pending")}
+                onSelect={(id, additive) => onLayerSelect("pending", id, additive)}
+                onRestack={(cmd) => onRestack("pending", cmd)}
+                onToggleLock={(id) => onToggleLock("pending", id)}
+              />
+              {inspectorFor("pending")}
+            </div>
+          </div>
+        </section>
+      )}
+
+      {/* SAVED canvas (from Firestore; draggable/resizable in edit mode) */}
+      <section className="grid gap-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-sm font-medium opacity-70">Saved</h2>
+          {conflict && (
+            <p role="status" className="flex-1 text-sm text-amber-700">
+              {conflict}{" "}
+              <button type="button" onClick={() => setConflict(null)} className="underline">
+                Dismiss
+              </button>
+            </p>
+          )}
+          <div className="flex flex-wrap items-center gap-2">
+            {editSaved && selectedOn("saved").length > 0 && (
+              <AlignToolbar
+                count={selectedOn("saved").length}
+                onAlign={(mode) => onAlign("saved", mode)}
+              />
+            )}
+            {editSaved && (
+              <AutoLayoutToolbar
+                gutter={gutter}
+                onGutterChange={setGutter}
+                onArrange={(mode) => onAutoLayout("saved", mode)}
+              />
+            )}
+            {editSaved && (
+              <div className="inline-flex rounded-xl border overflow-hidden text-sm">
+                {BREAKPOINTS.map((bp, i) => (
+                  <button
+                    key={bp}
+                    type="button"
+                    onClick={() => setEditBreakpoint(bp)}
+                    className={cls(
+                      "px-3 py-1",
+                      i > 0 && "border-l",
+                      editBreakpoint === bp && "bg-black text-white"
+                    )}
+                    aria-pressed={editBreakpoint === bp}
+                  >
+                    {BREAKPOINT_LABELS[bp]}
+                  </button>
+                ))}
+              </div>
+            )}
+            {editSaved && (
+              <CanvasSizeControl
+                key={editBreakpoint}
+                breakpoint={editBreakpoint}
+                size={savedCanvas}
+                onChange={(size, keepItems) => onCanvasSize(editBreakpoint, size, keepItems)}
+              />
+            )}
+            {editSaved && (
+              <label className="inline-flex items-center gap-2 px-3 py-1 rounded-xl border">
+                <span className="text-sm">Captions</span>
+                <select
+                  value={captionStyle}
+                  onChange={(e) => onCaptionStyle(e.target.value as CaptionStyle)}
+                  className="text-sm bg-transparent"
+                >
+                  {(Object.keys(CAPTION_STYLE_LABELS) as CaptionStyle[]).map((c) => (
+                    <option key={c} value={c}>
+                      {CAPTION_STYLE_LABELS[c]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {editSaved && editBreakpoint !== "base" && selectedOn("saved").length > 0 && (
+              <button
+                type="button"
+                onClick={onResetBreakpoint}
+                className="px-3 py-1 rounded-xl border text-sm hover:shadow"
+                title={`Drop the ${BREAKPOINT_LABELS[editBreakpoint].toLowerCase()} layout of the selected items`}
+              >
+                Use {BREAKPOINT_LABELS.base.toLowerCase()} layout
+              </button>
+            )}
+            {mayEdit && (
+              <button
+                type="button"
+                onClick={() => {
+                  setEditSaved((v) => !v);
+                  setSelection((prev) => (prev.canvas === "saved" ? { ...prev, ids: [] } : prev));
+                }}
+                disabled={!items.length}
+                className={cls(
+                  "px-3 py-1 rounded-xl border text-sm",
+                  items.length ? "hover:shadow" : "opacity-50 cursor-not-allowed",
+                  editSaved && "bg-black text-white"
+                )}
+              >
+                {editSaved ? "Done editing" : "Edit layout"}
+              </button>
+            )}
+          </div>
+        </div>
+        {items.length > 0 && (
+          <FilterBar
+            filter={filter}
+            onChange={setFilter}
+            tags={tagsOf(items)}
+            summary={filtering ? `${matchIds.size} of ${items.length} match` : undefined}
+          >
+            <AlbumMenu
+              albums={albums}
+              openId={album?.id ?? null}
+              counts={albumCounts}
+              selected={filing}
+              mayEdit={mayEdit}
+              onOpen={setAlbumId}
+              onCreate={onCreateAlbum}
+              onAdd={onAddToAlbum}
+              onRemove={(a) => repo.removeFromAlbum(galleryId, a.id, filing)}
+              onDelete={(a) => repo.deleteAlbum(galleryId, a.id)}
+            />
+            <SavedSearchMenu
+              searches={savedSearches}
+              filter={filter}
+              onApply={setFilter}
+              onSave={onSaveSearch}
+              onDelete={(search) => repo.deleteSavedSearch(user.uid, search.id)}
+            />
+            <Link href="/search" className="px-3 py-1 rounded-xl border text-sm hover:shadow">
+              🔍 All galleries
+            </Link>
+          </FilterBar>
+        )}
+        <input
+          ref={replaceInputRef}
+          onChange={onReplaceSelect}
+          type="file"
+          accept="image/*"
+          className="hidden"
+        />
+        <div className={cls("grid gap-2", editSaved && "md:grid-cols-[1fr_220px]")}>
+          <div
+            onPointerMove={onSavedPointerMove}
+            onPointerLeave={() => updatePresence({ cursor: null })}
+          >
+            <CanvasViewport
+              size={savedCanvas}
+              items={savedItems.map(pickLayout)}
+              className="rounded-2xl border bg-white"
+            >
+              {(scale, style) => (
+                <>
+                  <MarqueeCanvas
+                    className="isolate"
+                    style={style}
+                    scale={scale}
+                    onMarquee={(rect, additive) => editSaved && onMarquee("saved", rect, additive)}
+                    label={editSaved ? "Saved canvas" : undefined}
+                  >
+                    {savedItems.map((it) => {
+                      const l = pickLayout(it);
+                      if (editSaved && it.id) {
+                        const id = it.id;
+                        const busy = busyIds.has(id);
+                        const peers = peersOf(id);
+                        const held = peers.some((p) => p.dragging);
+                        const sl = shown("saved", id, l, it.locked || held);
+                        return (
+                          <React.Fragment key={id}>
+                            <ResizableDraggableItem
+                              src={it.thumbUrl || it.url}
+                              alt={altText(it)}
+                              edits={it.edits}
+                              x={sl.x}
+                              y={sl.y}
+                              w={sl.w}
+                              h={sl.h}
+                              gridSize={gridSize}
+                              guides={smartGuides}
+                              scale={scale}
+                              getNeighbours={() => neighbours("saved", id)}
+                              selected={selectedOn("saved").includes(id)}
+                              dimmed={dimmed(id)}
+                              z={it.z}
+                              locked={it.locked}
+                              peers={peers}
+                              itemKey={`saved:${id}`}
+                              tabIndex={id === savedTabStop ? 0 : -1}
+                              label={describeItem(it.fileName || "Untitled", sl, it.locked)}
+                              describedBy={KEYS_HELP_ID}
+                              onKeyDown={(e) => keyboard.onItemKeyDown("saved", id, e)}
+                              onFocus={() => keyboard.setTabStop({ canvas: "saved", id })}
+                              onPointerDown={(e) => onItemPointerDown("saved", id, e)}
+                              onDragMove={(d) => onItemDragMove("saved", id, d)}
+                              onChange={(next) => onItemChange("saved", id, next)}
+                              onInteractionStart={() => onSavedInteractionStart(id)}
+                            >
+                              {captionStyle !== "below" && (
+                                <ItemCaption meta={it} captionStyle={captionStyle} />
+                              )}
+                              {/* replace / delete buttons (R and Delete from the keyboard) */}
+                              <div className="absolute right-2 top-2 flex gap-1">
+                                <button
+                                  type="button"
+                                  onClick={() => onReplaceClick(it)}
+                                  disabled={busy}
+                                  tabIndex={-1}
+                                  className="text-xs rounded-md px-2 py-1 bg-black/70 text-white disabled:opacity-50"
+                                  aria-label="Replace image"
+                                  title="Replace image"
+                                >
+                                  ⟳
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => onDeleteSaved([it])}
+                                  disabled={busy}
+                                  tabIndex={-1}
+                                  className="text-xs rounded-md px-2 py-1 bg-black/70 text-white disabled:opacity-50"
+                                  aria-label="Delete"
+                                  title="Delete"
+                                >
+                                  ✕
+                                </button>
+                              </div>
+                              {itemErrors[id] && (
+                                <div
+                                  role="alert"
+                                  className="absolute inset-x-0 bottom-0 p-2 bg-red-700/80 text-white text-xs flex items-center gap-2"
+                                >
+                                  <span className="flex-1 truncate" title={itemErrors[id]}>
+                                    {itemErrors[id]}
+                                  </span>
+                                  <button
+                                    type="button"
+                                    onClick={() => dismissItemError(id)}
+                                    tabIndex={-1}
+                                    className="underline"
+                                  >
+                                    Dismiss
+                                  </button>
+                                </div>
+                              )}
+                            </ResizableDraggableItem>
+                            {captionBelow(it, sl, it.z)}
+                          </React.Fragment>
+                        );
+                      }
+                      return (
+                        <figure
+                          key={it.id}
+                          className={cls(
+                            "absolute m-0 cursor-zoom-in",
+                            // outside the filter: not in the lightbox either
+                            dimmed(it.id) && "opacity-25 pointer-events-none"
+                          )}
+                          style={{
+                            width: l.w,
+                            transform: `translate(${l.x}px, ${l.y}px)`,
+                            zIndex: it.z,
+                          }}
+                          title={it.title ?? undefined}
+                          role="button"
+                          tabIndex={dimmed(it.id) ? -1 : 0}
+                          aria-label={`Open ${altText(it) || "image"}`}
+                          onClick={() => it.id && setOpenItem(it.id)}
+                          onKeyDown={(e) => {
+                            if ((e.key === "Enter" || e.key === " ") && it.id) {
+                              e.preventDefault();
+                              setOpenItem(it.id);
+                            }
+                          }}
+                        >
+                          <div
+                            className="group relative rounded-xl overflow-hidden shadow border"
+                            style={{ height: l.h }}
+                          >
+                            <EditedImage
+                              src={it.thumbUrl || it.url}
+                              alt={altText(it)}
+                              edits={it.edits}
+                              draggable={false}
+                            />
+                            {captionStyle !== "below" && (
+                              <ItemCaption meta={it} captionStyle={captionStyle} />
+                            )}
+                          </div>
+                          {captionStyle === "below" && <ItemCaption meta={it} captionStyle="below" />}
+                        </figure>
+                      );
+                    })}
+                  </MarqueeCanvas>
+                  <RemoteCursors others={othersHere} />
+                </>
+              )}
+            </CanvasViewport>
+          </div>
+          {editSaved && (
+            <div className="grid gap-2 content-start">
+              <LayersPanel
+                rows={layerRows("saved")}
+                onSelect={(id, additive) => onLayerSelect("saved", id, additive)}
+                onRestack={(cmd) => onRestack("saved", cmd)}
+                onToggleLock={(id) => onToggleLock("saved", id)}
+              />
+              {inspectorFor("saved")}
+            </div>
+          )}
+        </div>
+      </section>
+
+      {openItemId && lightboxItems.some((it) => it.id === openItemId) && (
+        <Lightbox items={lightboxItems} openId={openItemId} onNavigate={setOpenItem} />
+      )}
+
+      {/* keyboard help for canvas items, and what keyboard edits changed */}
+      <p id={KEYS_HELP_ID} className="sr-only">
+        Arrow keys move the image, Shift with arrows moves it further, Alt with arrows resizes
+        it. Control with arrows goes to the next or previous image, Home and End to the first
+        or last; Tab leaves the canvas. Enter selects it, Space adds it to or removes it from
+        the selection. Delete removes it, Control+D duplicates it, R replaces a saved image.
+      </p>
+      <p role="status" aria-live="polite" className="sr-only">
+        {keyboard.announcement}
+      </p>
+
+      {cropTarget && cropping && (
+        <CropEditor
+          key={`${cropTarget.canvas}:${cropTarget.id}`}
+          {...cropping}
+          onApply={(edits) => {
+            onImageEdits(cropTarget.canvas, cropTarget.id, edits);
+            setCropTarget(null);
+          }}
+          onClose={() => setCropTarget(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,103 +1,260 @@
-import Image from "next/image";
+// app/page.tsx
+"use client";
 
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import AccountMenu from "@/components/AccountMenu";
+import SignIn from "@/components/SignIn";
+import { useAuth } from "@/lib/auth/context";
+import { importBundle } from "@/lib/export";
+import { type Gallery, type GalleryRole, ROLE_LABELS, canEdit, roleOf } from "@/lib/galleries";
+import { useGalleryRepository } from "@/lib/repository/context";
+import { cls } from "@/lib/utils";
+
+/* -------------------- Gallery row -------------------- */
+function GalleryRow({
+  gallery,
+  role,
+  onRename,
+  onDelete,
+}: {
+  gallery: Gallery;
+  role: GalleryRole | null;
+  onRename: (name: string) => Promise<void>;
+  onDelete: () => Promise<void>;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState(gallery.name);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || name.trim() === gallery.name) return setEditing(false);
+    setBusy(true);
+    setError(null);
+    try {
+      await onRename(name);
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!confirm(`Delete “${gallery.name}” and all of its images?`)) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await onDelete();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <li className="flex flex-wrap items-center gap-3 px-4 py-3 rounded-2xl border">
+      {editing ? (
+        <form onSubmit={submit} className="flex flex-1 items-center gap-2">
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="flex-1 px-3 py-1 rounded-xl border"
+          />
+          <button type="submit" disabled={busy} className="px-3 py-1 rounded-xl border text-sm">
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setName(gallery.name);
+              setEditing(false);
+            }}
+            className="px-3 py-1 rounded-xl border text-sm"
+          >
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <>
+          <Link href={`/gallery/${gallery.id}`} className="flex-1 font-medium hover:underline">
+            {gallery.name}
+          </Link>
+          {role && role !== "owner" && (
+            <span className="text-xs opacity-60">{ROLE_LABELS[role]}</span>
+          )}
+          {canEdit(role) && (
+            <button
+              type="button"
+              onClick={() => setEditing(true)}
+              disabled={busy}
+              className="px-3 py-1 rounded-xl border text-sm"
+            >
+              Rename
+            </button>
+          )}
+          {role === "owner" && (
+            <button
+              type="button"
+              onClick={remove}
+              disabled={busy}
+              className={cls(
+                "px-3 py-1 rounded-xl border text-sm text-red-600",
+                busy && "opacity-50 cursor-not-allowed"
+              )}
+            >
+              {busy ? "Deleting…" : "Delete"}
+            </button>
+          )}
+        </>
+      )}
+      {error && <p className="w-full text-sm text-red-600">{error}</p>}
+    </li>
+  );
+}
+
+/* -------------------- Page -------------------- */
 export default function Home() {
+  const repo = useGalleryRepository();
+  const { user, loading } = useAuth();
+  const [galleries, setGalleries] = useState<Gallery[] | null>(null);
+  const [name, setName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const router = useRouter();
+  // progress of a bundle import
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+  // why the last create or import failed, or the list stopped updating
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    return repo.subscribeGalleries(user, setGalleries, (err) =>
+      setError(`Your galleries stopped updating: ${err.message}`)
+    );
+  }, [repo, user]);
+
+  const onCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !user) return;
+    setIsCreating(true);
+    setError(null);
+    try {
+      await repo.createGallery(name, user.uid);
+      setName("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  // A bundle exported from any gallery (here or in another project) becomes a new one
+  const onImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !user) return;
+    setError(null);
+    setImportStatus("Importing…");
+    try {
+      const galleryId = await importBundle(repo, file, user.uid, (done, total) =>
+        setImportStatus(`Importing ${done}/${total}…`)
+      );
+      router.push(`/gallery/${galleryId}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setImportStatus(null);
+    }
+  };
+
+  const canCreate = name.trim().length > 0 && !isCreating;
+
   return (
-    <div className="font-sans grid grid-rows-[20px_1fr_20px] items-center justify-items-center min-h-screen p-8 pb-20 gap-16 sm:p-20">
-      <main className="flex flex-col gap-[32px] row-start-2 items-center sm:items-start">
-        <Image
-          className="dark:invert"
-          src="/next.svg"
-          alt="Next.js logo"
-          width={180}
-          height={38}
-          priority
-        />
-        <ol className="font-mono list-inside list-decimal text-sm/6 text-center sm:text-left">
-          <li className="mb-2 tracking-[-.01em]">
-            Get started by editing{" "}
-            <code className="bg-black/[.05] dark:bg-white/[.06] font-mono font-semibold px-1 py-0.5 rounded">
-              src/app/page.tsx
-            </code>
-            .
-          </li>
-          <li className="tracking-[-.01em]">
-            Save and see your changes instantly.
-          </li>
-        </ol>
+    <div className="mx-auto max-w-3xl p-4 md:p-8 space-y-6">
+      <header className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold">Galleries</h1>
+          <p className="text-sm opacity-70">
+            Each gallery keeps its own images and layout.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {user && (
+            <Link href="/search" className="px-3 py-1 rounded-xl border text-sm hover:shadow">
+              🔍 Search
+            </Link>
+          )}
+          <AccountMenu />
+        </div>
+      </header>
 
-        <div className="flex gap-4 items-center flex-col sm:flex-row">
-          <a
-            className="rounded-full border border-solid border-transparent transition-colors flex items-center justify-center bg-foreground text-background gap-2 hover:bg-[#383838] dark:hover:bg-[#ccc] font-medium text-sm sm:text-base h-10 sm:h-12 px-4 sm:px-5 sm:w-auto"
-            href="https://vercel.com/new?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-            target="_blank"
-            rel="noopener noreferrer"
-          >
-            <Image
-              className="dark:invert"
-              src="/vercel.svg"
-              alt="Vercel logomark"
-              width={20}
-              height={20}
+      {loading ? (
+        <p className="text-sm opacity-70">Loading…</p>
+      ) : !user ? (
+        <SignIn message="Sign in to see your galleries and the ones shared with you." />
+      ) : (
+        <>
+          <form onSubmit={onCreate} className="flex items-center gap-3">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="New gallery name"
+              className="flex-1 px-4 py-2 rounded-2xl border"
             />
-            Deploy now
-          </a>
-          <a
-            className="rounded-full border border-solid border-black/[.08] dark:border-white/[.145] transition-colors flex items-center justify-center hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] hover:border-transparent font-medium text-sm sm:text-base h-10 sm:h-12 px-4 sm:px-5 w-full sm:w-auto md:w-[158px]"
-            href="https://nextjs.org/docs?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-            target="_blank"
-            rel="noopener noreferrer"
-          >
-            Read our docs
-          </a>
-        </div>
-      </main>
-      <footer className="row-start-3 flex gap-[24px] flex-wrap items-center justify-center">
-        <a
-          className="flex items-center gap-2 hover:underline hover:underline-offset-4"
-          href="https://nextjs.org/learn?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-          target="_blank"
-          rel="noopener noreferrer"
-        >
-          <Image
-            aria-hidden
-            src="/file.svg"
-            alt="File icon"
-            width={16}
-            height={16}
-          />
-          Learn
-        </a>
-        <a
-          className="flex items-center gap-2 hover:underline hover:underline-offset-4"
-          href="https://vercel.com/templates?framework=next.js&utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-          target="_blank"
-          rel="noopener noreferrer"
-        >
-          <Image
-            aria-hidden
-            src="/window.svg"
-            alt="Window icon"
-            width={16}
-            height={16}
-          />
-          Examples
-        </a>
-        <a
-          className="flex items-center gap-2 hover:underline hover:underline-offset-4"
-          href="https://nextjs.org?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-          target="_blank"
-          rel="noopener noreferrer"
-        >
-          <Image
-            aria-hidden
-            src="/globe.svg"
-            alt="Globe icon"
-            width={16}
-            height={16}
-          />
-          Go to nextjs.org →
-        </a>
-      </footer>
+            <button
+              type="submit"
+              disabled={!canCreate}
+              className={cls(
+                "px-4 py-2 rounded-2xl border shadow",
+                canCreate ? "hover:shadow-md" : "opacity-50 cursor-not-allowed"
+              )}
+            >
+              {isCreating ? "Creating…" : "➕ Create"}
+            </button>
+            <label
+              className={cls(
+                "px-4 py-2 rounded-2xl border",
+                importStatus ? "opacity-50 cursor-not-allowed" : "cursor-pointer hover:shadow-md"
+              )}
+              title="Recreate a gallery from an exported bundle (.zip)"
+            >
+              {importStatus ?? "⬆ Import"}
+              <input
+                type="file"
+                accept=".zip,application/zip"
+                onChange={onImport}
+                disabled={!!importStatus}
+                className="hidden"
+              />
+            </label>
+          </form>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {galleries === null ? (
+            <p className="text-sm opacity-70">Loading…</p>
+          ) : galleries.length === 0 ? (
+            <p className="text-sm opacity-70">No galleries yet.</p>
+          ) : (
+            <ul className="grid gap-2">
+              {galleries.map((g) => (
+                <GalleryRow
+                  key={g.id}
+                  gallery={g}
+                  role={roleOf(g, user)}
+                  onRename={(next) => repo.renameGallery(g.id, next)}
+                  onDelete={() => repo.deleteGallery(g.id)}
+                />
+              ))}
+            </ul>
+          )}
+        </>
+      )}
     </div>
   );
 }
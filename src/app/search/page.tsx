@@ -0,0 +1,170 @@
+// app/search/page.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import AccountMenu from "@/components/AccountMenu";
+import EditedImage from "@/components/EditedImage";
+import FilterBar from "@/components/FilterBar";
+import SavedSearchMenu from "@/components/SavedSearchMenu";
+import SignIn from "@/components/SignIn";
+import { useAuth } from "@/lib/auth/context";
+import { type Gallery, altText } from "@/lib/galleries";
+import { useGalleryRepository } from "@/lib/repository/context";
+import {
+  type ItemFilter,
+  type SavedSearch,
+  type SearchResult,
+  EMPTY_FILTER,
+  SEARCH_LIMIT,
+  isEmptyFilter,
+  searchGalleries,
+  tagsOf,
+} from "@/lib/search";
+
+// Wait for typing to pause before querying every gallery
+const SEARCH_DELAY = 400;
+
+/* -------------------- Page -------------------- */
+export default function SearchPage() {
+  const repo = useGalleryRepository();
+  const { user, loading } = useAuth();
+  const [galleries, setGalleries] = useState<Gallery[] | null>(null);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [filter, setFilter] = useState<ItemFilter>(EMPTY_FILTER);
+  const [result, setResult] = useState<SearchResult | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // why the galleries or saved searches stopped updating
+  const [liveError, setLiveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    const stopped = (what: string) => (err: Error) =>
+      setLiveError(`${what} stopped updating: ${err.message}`);
+    const unsubs = [
+      repo.subscribeGalleries(user, setGalleries, stopped("Your galleries")),
+      repo.subscribeSavedSearches(user.uid, setSavedSearches, stopped("Saved searches")),
+    ];
+    return () => unsubs.forEach((u) => u());
+  }, [repo, user]);
+
+  // Re-run when the filter or the list of galleries changes; a newer run wins
+  useEffect(() => {
+    if (!galleries || isEmptyFilter(filter)) return;
+    let current = true;
+    const t = setTimeout(() => {
+      setSearching(true);
+      setError(null);
+      searchGalleries(repo, galleries, filter)
+        .then((r) => current && setResult(r))
+        .catch((err) => current && setError(err instanceof Error ? err.message : String(err)))
+        .finally(() => current && setSearching(false));
+    }, SEARCH_DELAY);
+    return () => {
+      current = false;
+      clearTimeout(t);
+    };
+  }, [repo, galleries, filter]);
+
+  const onFilter = (next: ItemFilter) => {
+    setFilter(next);
+    if (isEmptyFilter(next)) setResult(null);
+  };
+
+  const onSaveSearch = async (name: string) => {
+    if (user) await repo.addSavedSearch(user.uid, { name, filter });
+  };
+
+  const hits = result?.hits ?? [];
+  const count = `${hits.length} image${hits.length === 1 ? "" : "s"}`;
+  const summary = searching
+    ? "Searching…"
+    : result
+      ? `${count} in ${galleries?.length ?? 0} galleries`
+      : undefined;
+
+  return (
+    <div className="mx-auto max-w-7xl p-4 md:p-8 space-y-6">
+      <header className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <Link href="/" className="text-sm opacity-70 hover:underline">
+            ← All galleries
+          </Link>
+          <h1 className="text-2xl font-semibold">Search</h1>
+          <p className="text-sm opacity-70">
+            Find saved images by tag, words in their file name or caption, when they were added
+            and their shape, in every gallery you can open.
+          </p>
+        </div>
+        <AccountMenu />
+      </header>
+
+      {loading ? (
+        <p className="text-sm opacity-70">Loading…</p>
+      ) : !user ? (
+        <SignIn message="Sign in to search your galleries and the ones shared with you." />
+      ) : (
+        <>
+          <FilterBar
+            filter={filter}
+            onChange={onFilter}
+            tags={tagsOf(hits.map((h) => h.item))}
+            summary={summary}
+          >
+            <SavedSearchMenu
+              searches={savedSearches}
+              filter={filter}
+              onApply={onFilter}
+              onSave={onSaveSearch}
+              onDelete={(search) => repo.deleteSavedSearch(user.uid, search.id)}
+            />
+          </FilterBar>
+          {liveError && <p className="text-sm text-red-600">{liveError}</p>}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {result?.truncated && (
+            <p className="text-sm opacity-70">
+              Only the newest {SEARCH_LIMIT} candidates per gallery were checked; add a tag or
+              dates to reach older images.
+            </p>
+          )}
+
+          {isEmptyFilter(filter) ? (
+            <p className="text-sm opacity-70">Pick a tag, some words, dates or a shape.</p>
+          ) : result && hits.length === 0 ? (
+            <p className="text-sm opacity-70">Nothing matches.</p>
+          ) : (
+            <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-3">
+              {hits.map(({ gallery, item }) => (
+                <li key={`${gallery.id}/${item.id}`} className="grid gap-1 text-sm">
+                  <Link
+                    href={`/gallery/${gallery.id}?item=${item.id}`}
+                    className="relative block aspect-square rounded-xl overflow-hidden border hover:shadow"
+                    title={item.title ?? undefined}
+                  >
+                    <EditedImage
+                      src={item.thumbUrl || item.url}
+                      alt={altText(item)}
+                      edits={item.edits}
+                      loading="lazy"
+                      draggable={false}
+                    />
+                  </Link>
+                  <span className="truncate" title={item.caption || item.fileName}>
+                    {item.caption || item.fileName || "Untitled"}
+                  </span>
+                  <Link
+                    href={`/gallery/${gallery.id}`}
+                    className="truncate text-xs opacity-60 hover:underline"
+                  >
+                    {gallery.name}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+// components/AccountMenu.tsx
+"use client";
+import React from "react";
+import { useAuth } from "@/lib/auth/context";
+
+// Who is signed in, with a way out
+export default function AccountMenu() {
+  const { user, signOut } = useAuth();
+  if (!user) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="opacity-70 truncate max-w-[16rem]" title={user.email ?? undefined}>
+        {user.displayName || user.email}
+      </span>
+      <button
+        type="button"
+        onClick={() => void signOut().catch(() => {})}
+        className="px-3 py-1 rounded-xl border text-sm"
+      >
+        Sign out
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+// components/AlbumMenu.tsx
+"use client";
+import React, { useState } from "react";
+import type { Album } from "@/lib/albums";
+import { cls } from "@/lib/utils";
+
+type Props = {
+  albums: Album[];
+  // the album the canvas is narrowed to, if any
+  openId: string | null;
+  // how many of each album's images are still in the gallery
+  counts: Map<string, number>;
+  // saved items selected in the layout editor, to file; empty for viewers
+  selected: string[];
+  mayEdit: boolean;
+  onOpen: (albumId: string | null) => void;
+  onCreate: (name: string) => Promise<void>;
+  onAdd: (album: Album) => Promise<void>;
+  onRemove: (album: Album) => Promise<void>;
+  onDelete: (album: Album) => Promise<void>;
+};
+
+const NAME_MAX = 120;
+
+// The gallery's albums; picking one narrows the canvas to its images
+export default function AlbumMenu({
+  albums,
+  openId,
+  counts,
+  selected,
+  mayEdit,
+  onOpen,
+  onCreate,
+  onAdd,
+  onRemove,
+  onDelete,
+}: Props) {
+  const [name, setName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const open = albums.find((a) => a.id === openId);
+
+  const run = async (task: () => Promise<void>) => {
+    setError(null);
+    setBusy(true);
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    void run(async () => {
+      await onCreate(name.trim().slice(0, NAME_MAX));
+      setName("");
+    });
+  };
+
+  const button = "px-2 rounded-lg border disabled:opacity-50";
+
+  return (
+    <details className="relative">
+      <summary
+        className={cls(
+          "px-3 py-1 rounded-xl border text-sm cursor-pointer list-none",
+          open && "bg-black text-white"
+        )}
+      >
+        📁 {open ? open.name : "Albums"}
+      </summary>
+      <div className="absolute right-0 z-20 mt-2 w-72 p-3 rounded-2xl border bg-white shadow-lg grid gap-2 text-sm">
+        {albums.length === 0 ? (
+          <p className="opacity-70">None yet.</p>
+        ) : (
+          <ul className="grid gap-1 max-h-64 overflow-auto">
+            {albums.map((a) => (
+              <li key={a.id} className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => onOpen(a.id === openId ? null : a.id)}
+                  className={cls(
+                    "flex-1 min-w-0 text-left truncate hover:underline",
+                    a.id === openId && "font-semibold"
+                  )}
+                  aria-pressed={a.id === openId}
+                >
+                  {a.name} <span className="opacity-60">({counts.get(a.id) ?? 0})</span>
+                </button>
+                {mayEdit && selected.length > 0 && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => void run(() => onAdd(a))}
+                      disabled={busy}
+                      className={button}
+                      title={`Add the selected images to ${a.name}`}
+                      aria-label={`Add the selected images to ${a.name}`}
+                    >
+                      +
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => void run(() => onRemove(a))}
+                      disabled={busy}
+                      className={button}
+                      title={`Take the selected images out of ${a.name}`}
+                      aria-label={`Take the selected images out of ${a.name}`}
+                    >
+                      −
+                    </button>
+                  </>
+                )}
+                {mayEdit && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (!confirm(`Delete the album “${a.name}”? Its images stay.`)) return;
+                      void run(() => onDelete(a));
+                    }}
+                    disabled={busy}
+                    className={button}
+                    aria-label={`Delete ${a.name}`}
+                  >
+                    ✕
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        {open && (
+          <button type="button" onClick={() => onOpen(null)} className="text-left underline">
+            Show every image
+          </button>
+        )}
+        {mayEdit && (
+          <form onSubmit={onSubmit} className="flex gap-2">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={NAME_MAX}
+              placeholder={selected.length ? `New album of ${selected.length}` : "New album"}
+              className="flex-1 min-w-0 px-2 py-1 rounded-lg border"
+              aria-label="Name of the album"
+            />
+            <button
+              type="submit"
+              disabled={!name.trim() || busy}
+              className="px-3 py-1 rounded-xl border text-sm disabled:opacity-50"
+            >
+              Create
+            </button>
+          </form>
+        )}
+        {mayEdit && selected.length === 0 && (
+          <p className="opacity-70">Select images in “Edit layout” to file them.</p>
+        )}
+        {error && <p className="text-red-600">{error}</p>}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,58 @@
+// components/AlignToolbar.tsx
+"use client";
+import React from "react";
+import { type AlignMode, ALIGN_LABELS, minItemsFor } from "@/lib/layout";
+import { cls } from "@/lib/utils";
+
+const GROUPS: Array<Array<{ mode: AlignMode; icon: string }>> = [
+  [
+    { mode: "left", icon: "⇤" },
+    { mode: "center", icon: "↔" },
+    { mode: "right", icon: "⇥" },
+  ],
+  [
+    { mode: "top", icon: "⤒" },
+    { mode: "middle", icon: "↕" },
+    { mode: "bottom", icon: "⤓" },
+  ],
+  [
+    { mode: "distribute-h", icon: "⋯" },
+    { mode: "distribute-v", icon: "⋮" },
+  ],
+  [
+    { mode: "match-width", icon: "W" },
+    { mode: "match-height", icon: "H" },
+  ],
+];
+
+// Alignment / distribution / match-size buttons for the current selection
+export default function AlignToolbar({
+  count,
+  onAlign,
+}: {
+  count: number;
+  onAlign: (mode: AlignMode) => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="opacity-70">{count} selected</span>
+      {GROUPS.map((group, i) => (
+        <div key={i} className="inline-flex rounded-xl border overflow-hidden">
+          {group.map(({ mode, icon }, j) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => onAlign(mode)}
+              disabled={count < minItemsFor(mode)}
+              className={cls("px-2 py-1 disabled:opacity-40", j > 0 && "border-l")}
+              title={ALIGN_LABELS[mode]}
+              aria-label={ALIGN_LABELS[mode]}
+            >
+              {icon}
+            </button>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
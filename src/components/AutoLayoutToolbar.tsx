@@ -0,0 +1,61 @@
+// components/AutoLayoutToolbar.tsx
+"use client";
+import React from "react";
+import {
+  type AutoLayoutMode,
+  AUTO_LAYOUT_LABELS,
+  AUTO_LAYOUT_MODES,
+  GUTTERS,
+} from "@/lib/autolayout";
+import { cls } from "@/lib/utils";
+
+const ICONS: Record<AutoLayoutMode, string> = {
+  masonry: "▥",
+  justified: "☰",
+  grid: "▦",
+  pack: "◫",
+};
+
+// Auto-arrange buttons; they apply to the selection, or to every item when fewer than two are selected
+export default function AutoLayoutToolbar({
+  gutter,
+  onGutterChange,
+  onArrange,
+}: {
+  gutter: number;
+  onGutterChange: (gutter: number) => void;
+  onArrange: (mode: AutoLayoutMode) => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <div className="inline-flex rounded-xl border overflow-hidden">
+        {AUTO_LAYOUT_MODES.map((mode, i) => (
+          <button
+            key={mode}
+            type="button"
+            onClick={() => onArrange(mode)}
+            className={cls("px-2 py-1", i > 0 && "border-l")}
+            title={`Auto-arrange: ${AUTO_LAYOUT_LABELS[mode]}`}
+            aria-label={`Auto-arrange: ${AUTO_LAYOUT_LABELS[mode]}`}
+          >
+            {ICONS[mode]}
+          </button>
+        ))}
+      </div>
+      <label className="inline-flex items-center gap-1 px-2 py-1 rounded-xl border">
+        <span className="opacity-70">Gutter</span>
+        <select
+          value={gutter}
+          onChange={(e) => onGutterChange(Number(e.target.value))}
+          className="bg-transparent"
+        >
+          {GUTTERS.map((g) => (
+            <option key={g} value={g}>
+              {g}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
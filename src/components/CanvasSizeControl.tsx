@@ -0,0 +1,102 @@
+// components/CanvasSizeControl.tsx
+"use client";
+import React, { useState } from "react";
+import { type Breakpoint, type CanvasSize, CANVAS_PRESETS, sameSize } from "@/lib/canvas";
+
+type Props = {
+  breakpoint: Breakpoint;
+  size: CanvasSize;
+  // `keepItems`: items keep their size and place instead of scaling with the canvas
+  onChange: (size: CanvasSize, keepItems: boolean) => void;
+};
+
+const CUSTOM = "custom";
+// canvas sides accepted for a custom size, in canvas units
+const MIN_SIDE = 200;
+const MAX_SIDE = 10000;
+
+const clampSide = (v: number) => Math.round(Math.min(MAX_SIDE, Math.max(MIN_SIDE, v)));
+
+// Canvas size of one breakpoint: a preset or any width × height
+export default function CanvasSizeControl({ breakpoint, size, onChange }: Props) {
+  const presets = CANVAS_PRESETS[breakpoint];
+  const preset = presets.find((p) => sameSize(p.size, size));
+  const [custom, setCustom] = useState(!preset);
+  const [draft, setDraft] = useState({ w: String(size.w), h: String(size.h) });
+  const [keepItems, setKeepItems] = useState(false);
+  // the size changed elsewhere (preset, another editor): show it in the fields
+  const [prevSize, setPrevSize] = useState(size);
+  if (!sameSize(size, prevSize)) {
+    setPrevSize(size);
+    setDraft({ w: String(size.w), h: String(size.h) });
+  }
+
+  const next = { w: clampSide(Number(draft.w) || size.w), h: clampSide(Number(draft.h) || size.h) };
+
+  return (
+    <div className="inline-flex flex-wrap items-center gap-2 px-3 py-1 rounded-xl border text-sm">
+      <label className="inline-flex items-center gap-2">
+        <span>Canvas</span>
+        <select
+          value={custom ? CUSTOM : (preset?.label ?? CUSTOM)}
+          onChange={(e) => {
+            const picked = presets.find((p) => p.label === e.target.value);
+            setCustom(!picked);
+            if (picked) onChange(picked.size, keepItems);
+          }}
+          className="bg-transparent"
+        >
+          {presets.map((p) => (
+            <option key={p.label} value={p.label}>
+              {p.label} · {p.size.w}×{p.size.h}
+            </option>
+          ))}
+          <option value={CUSTOM}>Custom · {size.w}×{size.h}</option>
+        </select>
+      </label>
+      {custom && (
+        <form
+          className="inline-flex items-center gap-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onChange(next, keepItems);
+          }}
+        >
+          <input
+            type="number"
+            min={MIN_SIDE}
+            max={MAX_SIDE}
+            value={draft.w}
+            onChange={(e) => setDraft((d) => ({ ...d, w: e.target.value }))}
+            className="w-20 px-2 py-0.5 rounded-lg border"
+            aria-label="Canvas width"
+          />
+          ×
+          <input
+            type="number"
+            min={MIN_SIDE}
+            max={MAX_SIDE}
+            value={draft.h}
+            onChange={(e) => setDraft((d) => ({ ...d, h: e.target.value }))}
+            className="w-20 px-2 py-0.5 rounded-lg border"
+            aria-label="Canvas height"
+          />
+          <button
+            type="submit"
+            disabled={sameSize(next, size)}
+            className="px-2 py-0.5 rounded-lg border disabled:opacity-50"
+          >
+            Apply
+          </button>
+        </form>
+      )}
+      <label
+        className="inline-flex items-center gap-1"
+        title="Off: items scale with the canvas. On: they keep their size and place."
+      >
+        <input type="checkbox" checked={keepItems} onChange={(e) => setKeepItems(e.target.checked)} />
+        Keep item sizes
+      </label>
+    </div>
+  );
+}
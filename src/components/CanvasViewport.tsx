@@ -0,0 +1,322 @@
+// components/CanvasViewport.tsx
+"use client";
+import React, { useEffect, useLayoutEffect, useRef, useState } from "react";
+import Minimap from "@/components/Minimap";
+import type { CanvasSize } from "@/lib/canvas";
+import { isTextInput } from "@/lib/history";
+import type { Layout } from "@/lib/layout";
+import { cls } from "@/lib/utils";
+
+type Props = {
+  size: CanvasSize;
+  className?: string;
+  // item rects in canvas units, for the minimap
+  items?: Layout[];
+  // renders the canvas itself in canvas units; `scale` is the zoom (CSS px per unit)
+  children: (scale: number, style: React.CSSProperties) => React.ReactNode;
+};
+
+// "fit" follows the viewport's size; a number is a fixed zoom
+type Zoom = number | "fit";
+
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 1.25;
+// wheel delta → zoom factor (trackpad pinches arrive as Ctrl+wheel)
+const WHEEL_ZOOM = 0.002;
+
+const clampZoom = (z: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, z));
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+  Math.hypot(a.x - b.x, a.y - b.y);
+
+// Where a client point falls on the canvas drawn inside `container`, as fractions of it
+export function canvasPointAt(container: Element, clientX: number, clientY: number) {
+  const box = container.querySelector("[data-canvas-stage]")?.getBoundingClientRect();
+  if (!box?.width || !box.height) return null;
+  return { x: (clientX - box.left) / box.width, y: (clientY - box.top) / box.height };
+}
+
+// A fixed-size canvas in a box of its aspect ratio (at most 80% of the window's height).
+// Zooms with Ctrl+wheel, pinch and the toolbar; pans with scrollbars, Space+drag or the
+// middle mouse button; shows a minimap while zoomed in.
+export default function CanvasViewport({ size, className, items, children }: Props) {
+  const scrollerRef = useRef<HTMLDivElement | null>(null);
+  const [box, setBox] = useState({ w: 0, h: 0 });
+  const [zoom, setZoom] = useState<Zoom>("fit");
+  const [scroll, setScroll] = useState({ left: 0, top: 0 });
+  const [showMinimap, setShowMinimap] = useState(true);
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  const [panning, setPanning] = useState(false);
+  const hovered = useRef(false);
+  const pan = useRef<{ x: number; y: number; left: number; top: number } | null>(null);
+  // canvas point to keep under a spot of the viewport while the zoom changes
+  const anchor = useRef<{ x: number; y: number; lx: number; ly: number } | null>(null);
+  const touches = useRef(new Map<number, { x: number; y: number }>());
+  const pinch = useRef<{ dist: number; scale: number } | null>(null);
+
+  useEffect(() => {
+    const el = scrollerRef.current;
+    if (!el) return;
+    const ro = new ResizeObserver(() => setBox({ w: el.clientWidth, h: el.clientHeight }));
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+
+  const fit = box.w && box.h ? Math.min(box.w / size.w, box.h / size.h) : 0;
+  const scale = zoom === "fit" ? fit : zoom;
+  const cw = size.w * scale;
+  const ch = size.h * scale;
+  // centred while smaller than the viewport
+  const ox = Math.max(0, (box.w - cw) / 2);
+  const oy = Math.max(0, (box.h - ch) / 2);
+  const overflowing = cw > box.w + 1 || ch > box.h + 1;
+
+  /* -------------------- Zoom -------------------- */
+  // Zoom keeping the canvas point under (clientX, clientY) in place; the centre by default
+  const zoomTo = (next: number, clientX?: number, clientY?: number) => {
+    const el = scrollerRef.current;
+    if (!el || !scale) return;
+    const r = el.getBoundingClientRect();
+    const lx = (clientX ?? r.left + el.clientWidth / 2) - r.left;
+    const ly = (clientY ?? r.top + el.clientHeight / 2) - r.top;
+    anchor.current = {
+      x: (el.scrollLeft + lx - ox) / scale,
+      y: (el.scrollTop + ly - oy) / scale,
+      lx,
+      ly,
+    };
+    setZoom(clampZoom(next));
+  };
+
+  useLayoutEffect(() => {
+    const a = anchor.current;
+    const el = scrollerRef.current;
+    if (!a || !el) return;
+    anchor.current = null;
+    el.scrollLeft = a.x * scale + ox - a.lx;
+    el.scrollTop = a.y * scale + oy - a.ly;
+  }, [scale, ox, oy]);
+
+  // wheel listeners must be non-passive to keep the page from zooming
+  const zoomToRef = useRef(zoomTo);
+  const scaleRef = useRef(scale);
+  useEffect(() => {
+    zoomToRef.current = zoomTo;
+    scaleRef.current = scale;
+  });
+  useEffect(() => {
+    const el = scrollerRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      zoomToRef.current(scaleRef.current * Math.exp(-e.deltaY * WHEEL_ZOOM), e.clientX, e.clientY);
+    };
+    el.addEventListener("wheel", onWheel, { passive: false });
+    return () => el.removeEventListener("wheel", onWheel);
+  }, []);
+
+  // two fingers on a touch screen
+  const touchHandlers = {
+    onPointerDownCapture: (e: React.PointerEvent) => {
+      if (e.pointerType !== "touch") return;
+      touches.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      const [a, b] = [...touches.current.values()];
+      if (touches.current.size === 2) pinch.current = { dist: distance(a, b) || 1, scale };
+    },
+    onPointerMoveCapture: (e: React.PointerEvent) => {
+      if (!touches.current.has(e.pointerId)) return;
+      touches.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      const [a, b] = [...touches.current.values()];
+      if (!pinch.current || touches.current.size !== 2) return;
+      const next = (pinch.current.scale * distance(a, b)) / pinch.current.dist;
+      zoomTo(next, (a.x + b.x) / 2, (a.y + b.y) / 2);
+    },
+    onPointerUpCapture: (e: React.PointerEvent) => {
+      touches.current.delete(e.pointerId);
+      if (touches.current.size < 2) pinch.current = null;
+    },
+    onPointerCancelCapture: (e: React.PointerEvent) => {
+      touches.current.delete(e.pointerId);
+      if (touches.current.size < 2) pinch.current = null;
+    },
+  };
+
+  /* -------------------- Pan -------------------- */
+  // Space over the canvas turns the pointer into a hand (not while typing or on a control)
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== "Space" || !hovered.current || isTextInput(e.target)) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest?.('[role="option"], [role="button"], button, a, select, summary')) return;
+      e.preventDefault();
+      setSpaceHeld(true);
+    };
+    const onKeyUp = (e: KeyboardEvent) => e.code === "Space" && setSpaceHeld(false);
+    const onBlur = () => setSpaceHeld(false);
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    window.addEventListener("blur", onBlur);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+      window.removeEventListener("blur", onBlur);
+    };
+  }, []);
+
+  const startPan = (e: React.PointerEvent<HTMLElement>) => {
+    const el = scrollerRef.current;
+    if (!el) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pan.current = { x: e.clientX, y: e.clientY, left: el.scrollLeft, top: el.scrollTop };
+    setPanning(true);
+  };
+  const panHandlers = {
+    onPointerMove: (e: React.PointerEvent<HTMLElement>) => {
+      const p = pan.current;
+      const el = scrollerRef.current;
+      if (!p || !el) return;
+      el.scrollLeft = p.left - (e.clientX - p.x);
+      el.scrollTop = p.top - (e.clientY - p.y);
+    },
+    onPointerUp: () => {
+      if (!pan.current) return;
+      pan.current = null;
+      setPanning(false);
+    },
+  };
+
+  /* -------------------- Minimap -------------------- */
+  const view: Layout = {
+    x: Math.max(0, (scroll.left - ox) / (scale || 1)),
+    y: Math.max(0, (scroll.top - oy) / (scale || 1)),
+    w: Math.min(size.w, box.w / (scale || 1)),
+    h: Math.min(size.h, box.h / (scale || 1)),
+  };
+  const centreOn = (c: { x: number; y: number }) => {
+    const el = scrollerRef.current;
+    if (!el) return;
+    el.scrollLeft = c.x * scale + ox - box.w / 2;
+    el.scrollTop = c.y * scale + oy - box.h / 2;
+  };
+
+  const button = "px-2 py-0.5 rounded-lg border";
+
+  return (
+    <div className="grid gap-1">
+      <div
+        className={cls("relative w-full overflow-hidden", className)}
+        style={{ aspectRatio: `${size.w} / ${size.h}`, maxHeight: "80vh" }}
+        onPointerEnter={() => (hovered.current = true)}
+        onPointerLeave={() => (hovered.current = false)}
+      >
+        <div
+          ref={scrollerRef}
+          data-canvas-scroller
+          className="absolute inset-0 overflow-auto"
+          style={{ touchAction: "pan-x pan-y" }}
+          onScroll={(e) => {
+            // only the minimap needs the scroll position
+            if (overflowing) {
+              setScroll({ left: e.currentTarget.scrollLeft, top: e.currentTarget.scrollTop });
+            }
+          }}
+          onPointerDown={(e) => e.button === 1 && startPan(e)}
+          {...panHandlers}
+          {...touchHandlers}
+        >
+          {/* nothing to lay out until the viewport is measured */}
+          {scale > 0 && (
+            <div style={{ position: "relative", width: cw + ox, height: ch + oy }}>
+              <div
+                data-canvas-stage
+                style={{
+                  position: "absolute",
+                  left: ox,
+                  top: oy,
+                  width: size.w,
+                  height: size.h,
+                  transform: `scale(${scale})`,
+                  transformOrigin: "0 0",
+                }}
+              >
+                {children(scale, { position: "relative", width: size.w, height: size.h })}
+              </div>
+            </div>
+          )}
+        </div>
+        {/* Space held: drags move the view instead of the items */}
+        {spaceHeld && (
+          <div
+            className={cls("absolute inset-0 z-[10003]", panning ? "cursor-grabbing" : "cursor-grab")}
+            onPointerDown={startPan}
+            {...panHandlers}
+          />
+        )}
+        {showMinimap && overflowing && (
+          <div className="absolute right-2 bottom-2 z-[10004]">
+            <Minimap size={size} items={items ?? []} view={view} onNavigate={centreOn} />
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-end gap-1 text-xs">
+        <span className="mr-auto opacity-60">Ctrl+wheel or pinch to zoom · Space+drag to pan</span>
+        <button
+          type="button"
+          className={button}
+          onClick={() => zoomTo(scale / ZOOM_STEP)}
+          disabled={scale <= MIN_ZOOM}
+          aria-label="Zoom out"
+        >
+          −
+        </button>
+        <span className="w-12 text-center tabular-nums" aria-live="polite">
+          {Math.round(scale * 100)}%
+        </span>
+        <button
+          type="button"
+          className={button}
+          onClick={() => zoomTo(scale * ZOOM_STEP)}
+          disabled={scale >= MAX_ZOOM}
+          aria-label="Zoom in"
+        >
+          +
+        </button>
+        <button
+          type="button"
+          className={cls(button, zoom === "fit" && "bg-black text-white")}
+          onClick={() => setZoom("fit")}
+          aria-pressed={zoom === "fit"}
+        >
+          Fit
+        </button>
+        <button type="button" className={button} onClick={() => zoomTo(1)}>
+          100%
+        </button>
+        <button
+          type="button"
+          className={cls(button, showMinimap && "bg-black text-white")}
+          onClick={() => setShowMinimap((v) => !v)}
+          aria-pressed={showMinimap}
+          title="Show an overview while zoomed in"
+        >
+          Minimap
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Current window width (0 during the first render), for picking a breakpoint
+export function useViewportWidth() {
+  const [width, setWidth] = useState(0);
+  useEffect(() => {
+    const update = () => setWidth(window.innerWidth);
+    update();
+    window.addEventListener("resize", update);
+    return () => window.removeEventListener("resize", update);
+  }, []);
+  return width;
+}
@@ -0,0 +1,317 @@
+// components/CropEditor.tsx
+"use client";
+import React, { useEffect, useRef, useState } from "react";
+import EditedImage from "@/components/EditedImage";
+import {
+  type CropRect,
+  type ImageEdits,
+  ADJUSTMENTS,
+  MAX_ZOOM,
+  MIN_CROP,
+  clampCrop,
+  clampFocus,
+  cropAspect,
+  flipEdits,
+  isUnedited,
+  noEdits,
+  orientedAspect,
+  rotateEdits,
+} from "@/lib/edits";
+import { cls } from "@/lib/utils";
+
+type Props = {
+  src: string;
+  alt: string;
+  edits?: ImageEdits | null;
+  // width / height of the file when known; measured from `src` otherwise
+  aspect?: number;
+  // width / height of the item's tile, for the preview
+  tileAspect: number;
+  // null when the edits were all undone
+  onApply: (edits: ImageEdits | null) => void;
+  onClose: () => void;
+};
+
+// Largest the whole image is shown while cropping
+const STAGE_W = 520;
+const STAGE_H = 380;
+const PREVIEW_MAX = 180;
+
+type Handle = "move" | "focus" | "nw" | "ne" | "sw" | "se";
+const CORNERS: Array<Exclude<Handle, "move" | "focus">> = ["nw", "ne", "sw", "se"];
+
+type Gesture = { handle: Handle; x: number; y: number; crop: CropRect };
+
+const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v));
+const pct = (v: number) => `${v * 100}%`;
+
+// The crop after dragging `handle` by (dx, dy), fractions of the image
+function dragCrop(handle: Handle, c: CropRect, dx: number, dy: number): CropRect {
+  if (handle === "move") return clampCrop({ ...c, x: c.x + dx, y: c.y + dy });
+  let [left, top, right, bottom] = [c.x, c.y, c.x + c.w, c.y + c.h];
+  if (handle === "nw" || handle === "sw") left = clamp(left + dx, 0, right - MIN_CROP);
+  else right = clamp(right + dx, left + MIN_CROP, 1);
+  if (handle === "nw" || handle === "ne") top = clamp(top + dy, 0, bottom - MIN_CROP);
+  else bottom = clamp(bottom + dy, top + MIN_CROP, 1);
+  return { x: left, y: top, w: right - left, h: bottom - top };
+}
+
+// Crop, focal point, zoom, rotation / flip and adjustments for one item; nothing is
+// written until Apply
+export default function CropEditor({
+  src,
+  alt,
+  edits: initial,
+  aspect,
+  tileAspect,
+  onApply,
+  onClose,
+}: Props) {
+  const [edits, setEdits] = useState<ImageEdits | null>(
+    initial ?? (aspect ? noEdits(aspect) : null)
+  );
+  const stageRef = useRef<HTMLDivElement | null>(null);
+  const gesture = useRef<Gesture | null>(null);
+  const closeRef = useRef(onClose);
+  useEffect(() => {
+    closeRef.current = onClose;
+  });
+
+  // items saved without their pixel size: read it from the image
+  useEffect(() => {
+    if (edits) return;
+    const img = new Image();
+    img.onload = () => setEdits(noEdits(img.naturalWidth / img.naturalHeight || 1));
+    img.src = src;
+  }, [src, edits]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Escape") return;
+      e.preventDefault();
+      e.stopPropagation();
+      closeRef.current();
+    };
+    // capture, so page-level shortcuts don't also see the key
+    window.addEventListener("keydown", onKeyDown, true);
+    return () => window.removeEventListener("keydown", onKeyDown, true);
+  }, []);
+
+  /* -------------------- Stage gestures -------------------- */
+  const pointAt = (e: React.PointerEvent) => {
+    const r = stageRef.current?.getBoundingClientRect();
+    return r ? { x: (e.clientX - r.left) / r.width, y: (e.clientY - r.top) / r.height } : null;
+  };
+
+  const onHandleDown = (handle: Handle) => (e: React.PointerEvent<HTMLElement>) => {
+    const at = pointAt(e);
+    if (!edits || !at) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    gesture.current = { handle, ...at, crop: edits.crop };
+  };
+
+  const onHandleMove = (e: React.PointerEvent<HTMLElement>) => {
+    const g = gesture.current;
+    const at = pointAt(e);
+    if (!g || !at) return;
+    setEdits((prev) => {
+      if (!prev) return prev;
+      if (g.handle === "focus") {
+        const c = prev.crop;
+        return { ...prev, focus: clampFocus({ x: (at.x - c.x) / c.w, y: (at.y - c.y) / c.h }) };
+      }
+      return { ...prev, crop: dragCrop(g.handle, g.crop, at.x - g.x, at.y - g.y) };
+    });
+  };
+
+  const onHandleUp = () => {
+    gesture.current = null;
+  };
+
+  const handleProps = (handle: Handle) => ({
+    onPointerDown: onHandleDown(handle),
+    onPointerMove: onHandleMove,
+    onPointerUp: onHandleUp,
+    onPointerCancel: onHandleUp,
+  });
+
+  const set = (patch: Partial<ImageEdits>) => setEdits((e) => (e ? { ...e, ...patch } : e));
+
+  /* -------------------- Render -------------------- */
+  const button = "px-3 py-1 rounded-xl border text-sm";
+  const oa = edits ? orientedAspect(edits) : 1;
+  const stage = { w: Math.min(STAGE_W, STAGE_H * oa), h: Math.min(STAGE_H, STAGE_W / oa) };
+  const preview =
+    tileAspect >= 1
+      ? { w: PREVIEW_MAX, h: PREVIEW_MAX / tileAspect }
+      : { w: PREVIEW_MAX * tileAspect, h: PREVIEW_MAX };
+  // the whole image as rotated, flipped and adjusted, behind the crop frame
+  const whole = edits && {
+    ...edits,
+    crop: { x: 0, y: 0, w: 1, h: 1 },
+    focus: { x: 0.5, y: 0.5 },
+    zoom: 1,
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Crop and adjust"
+      className="fixed inset-0 z-[20000] flex items-center justify-center bg-black/60 p-4"
+    >
+      <div className="grid gap-4 max-h-full overflow-auto rounded-2xl border bg-white p-4 text-sm">
+        <h2 className="font-medium">Crop & adjust</h2>
+        {!edits || !whole ? (
+          <p className="opacity-70">Loading image…</p>
+        ) : (
+          <div className="flex flex-wrap gap-4 items-start">
+            <div
+              ref={stageRef}
+              className="relative overflow-hidden touch-none select-none bg-neutral-100"
+              style={{ width: stage.w, height: stage.h }}
+            >
+              <EditedImage src={src} alt={alt} edits={whole} draggable={false} />
+              {/* crop frame: drag to move, corners to resize; the dot is the focal point */}
+              <div
+                {...handleProps("move")}
+                className="absolute cursor-move border-2 border-white"
+                style={{
+                  left: pct(edits.crop.x),
+                  top: pct(edits.crop.y),
+                  width: pct(edits.crop.w),
+                  height: pct(edits.crop.h),
+                  boxShadow: "0 0 0 9999px rgba(0,0,0,0.5)",
+                }}
+              >
+                {CORNERS.map((c) => (
+                  <span
+                    key={c}
+                    {...handleProps(c)}
+                    className={cls(
+                      "absolute w-3 h-3 rounded-sm bg-white border border-black/40",
+                      c[0] === "n" ? "-top-1.5" : "-bottom-1.5",
+                      c[1] === "w" ? "-left-1.5" : "-right-1.5",
+                      c === "nw" || c === "se" ? "cursor-nwse-resize" : "cursor-nesw-resize"
+                    )}
+                  />
+                ))}
+                <span
+                  {...handleProps("focus")}
+                  title="Focal point: kept in view when the tile's shape differs"
+                  className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-white bg-pink-500 cursor-crosshair"
+                  style={{ left: pct(edits.focus.x), top: pct(edits.focus.y) }}
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-3 content-start w-56">
+              <div className="grid gap-1">
+                <span className="text-xs opacity-70">In the tile</span>
+                <div
+                  className="relative overflow-hidden rounded-xl border"
+                  style={{ width: preview.w, height: preview.h }}
+                >
+                  <EditedImage src={src} alt="" edits={edits} draggable={false} />
+                </div>
+                <span className="text-xs opacity-60">
+                  Crop {cropAspect(edits).toFixed(2)} : 1, tile {tileAspect.toFixed(2)} : 1
+                </span>
+              </div>
+
+              <label className="grid gap-1">
+                <span className="text-xs opacity-70">Zoom {edits.zoom.toFixed(2)}×</span>
+                <input
+                  type="range"
+                  min={1}
+                  max={MAX_ZOOM}
+                  step={0.01}
+                  value={edits.zoom}
+                  onChange={(e) => set({ zoom: Number(e.target.value) })}
+                />
+              </label>
+
+              <div className="flex gap-1">
+                <button
+                  type="button"
+                  className={button}
+                  onClick={() => setEdits(rotateEdits(edits, -1))}
+                  title="Rotate left"
+                  aria-label="Rotate left"
+                >
+                  ↺
+                </button>
+                <button
+                  type="button"
+                  className={button}
+                  onClick={() => setEdits(rotateEdits(edits, 1))}
+                  title="Rotate right"
+                  aria-label="Rotate right"
+                >
+                  ↻
+                </button>
+                <button
+                  type="button"
+                  className={button}
+                  onClick={() => setEdits(flipEdits(edits, "x"))}
+                  title="Flip horizontally"
+                  aria-label="Flip horizontally"
+                >
+                  ⇋
+                </button>
+                <button
+                  type="button"
+                  className={button}
+                  onClick={() => setEdits(flipEdits(edits, "y"))}
+                  title="Flip vertically"
+                  aria-label="Flip vertically"
+                >
+                  ⇵
+                </button>
+              </div>
+
+              {ADJUSTMENTS.map((a) => (
+                <label key={a.key} className="grid gap-1">
+                  <span className="text-xs opacity-70">
+                    {a.label} {Math.round(edits[a.key] * 100)}%
+                  </span>
+                  <input
+                    type="range"
+                    min={a.min}
+                    max={a.max}
+                    step={0.01}
+                    value={edits[a.key]}
+                    onChange={(e) => set({ [a.key]: Number(e.target.value) })}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            className={cls(button, "mr-auto")}
+            disabled={!edits}
+            onClick={() => edits && setEdits(noEdits(edits.aspect))}
+          >
+            Reset
+          </button>
+          <button type="button" className={button} onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className={cls(button, "bg-black text-white", !edits && "opacity-50")}
+            disabled={!edits}
+            onClick={() => edits && onApply(isUnedited(edits) ? null : edits)}
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+// components/DraftOffer.tsx
+"use client";
+import React from "react";
+import type { CloudDraft, LocalDraft } from "@/lib/drafts";
+
+// A draft left by an earlier visit, to restore or throw away
+export default function DraftOffer({
+  draft,
+  fromCloud,
+  error,
+  onRestore,
+  onDiscard,
+}: {
+  draft: LocalDraft | CloudDraft;
+  // kept in the account rather than on this device
+  fromCloud: boolean;
+  error: string | null;
+  onRestore: () => void;
+  onDiscard: () => void;
+}) {
+  return (
+    <div
+      role="status"
+      className="flex flex-wrap items-center gap-2 rounded-2xl border border-amber-400 bg-amber-50 p-3 text-sm"
+    >
+      <p className="flex-1">
+        Unsaved draft with {draft.items.length} image
+        {draft.items.length === 1 ? "" : "s"} from{" "}
+        {new Date(draft.savedAt).toLocaleString()}
+        {fromCloud && " (kept in your account)"}.
+      </p>
+      <button
+        type="button"
+        onClick={onRestore}
+        className="px-3 py-1 rounded-xl border text-sm bg-white"
+      >
+        Restore draft
+      </button>
+      <button
+        type="button"
+        onClick={onDiscard}
+        className="px-3 py-1 rounded-xl border text-sm text-red-600"
+      >
+        Discard
+      </button>
+      {error && <p className="basis-full text-red-600">{error}</p>}
+    </div>
+  );
+}
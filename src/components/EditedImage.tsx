@@ -0,0 +1,69 @@
+// components/EditedImage.tsx
+// An item's image with its crop, focal point, rotation and adjustments applied. Pure CSS
+// (container query units), so it follows live resizes and renders on the server as well.
+import React from "react";
+import { type ImageEdits, cropAspect, cssFilter, cssTransform, orientedAspect } from "@/lib/edits";
+import { cls } from "@/lib/utils";
+
+type Props = Omit<React.ImgHTMLAttributes<HTMLImageElement>, "style"> & {
+  edits?: ImageEdits | null;
+};
+
+const pct = (v: number) => `${(v * 100).toFixed(4)}%`;
+
+// Boxes as in editedLayout, with the tile as the size container
+function editedStyles(e: ImageEdits) {
+  const a = cropAspect(e);
+  const w = `calc(max(100cqw, 100cqh * ${a}) * ${e.zoom})`;
+  const h = `calc(max(100cqh, 100cqw / ${a}) * ${e.zoom})`;
+  const crop: React.CSSProperties = {
+    position: "absolute",
+    width: w,
+    height: h,
+    left: `calc((100cqw - ${w}) * ${e.focus.x})`,
+    top: `calc((100cqh - ${h}) * ${e.focus.y})`,
+  };
+  const oriented: React.CSSProperties = {
+    position: "absolute",
+    width: pct(1 / e.crop.w),
+    height: pct(1 / e.crop.h),
+    left: pct(-e.crop.x / e.crop.w),
+    top: pct(-e.crop.y / e.crop.h),
+  };
+  // the file's own box, centered; on a quarter turn its sides swap
+  const oa = orientedAspect(e);
+  const iw = e.rotate % 180 ? 1 / oa : 1;
+  const ih = e.rotate % 180 ? oa : 1;
+  const image: React.CSSProperties = {
+    position: "absolute",
+    width: pct(iw),
+    height: pct(ih),
+    left: pct((1 - iw) / 2),
+    top: pct((1 - ih) / 2),
+    maxWidth: "none",
+    transform: cssTransform(e),
+    filter: cssFilter(e),
+  };
+  return { crop, oriented, image };
+}
+
+// Fills its positioned parent; without edits it is a centred object-cover image
+export default function EditedImage({ edits, className, ...img }: Props) {
+  const styles = edits ? editedStyles(edits) : null;
+  const image = (
+    <img
+      {...img}
+      alt={img.alt ?? ""}
+      className={cls(styles ? "block" : "block w-full h-full object-cover", className)}
+      style={styles?.image}
+    />
+  );
+  if (!styles) return image;
+  return (
+    <div className="absolute inset-0 overflow-hidden" style={{ containerType: "size" }}>
+      <div style={styles.crop}>
+        <div style={styles.oriented}>{image}</div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+// components/ExportPanel.tsx
+"use client";
+import React, { useState } from "react";
+import { type Breakpoint, BREAKPOINT_LABELS, canvasOf } from "@/lib/canvas";
+import {
+  type ExportProgress,
+  exportBundle,
+  exportFileName,
+  exportPdf,
+  exportPng,
+  exportScale,
+  pdfLayout,
+} from "@/lib/export";
+import type { Gallery, GalleryItem } from "@/lib/galleries";
+import { type PaperSize, PAPER_LABELS } from "@/lib/pdf";
+import { cls, downloadBlob } from "@/lib/utils";
+
+const PNG_SCALES = [1, 2, 3, 4];
+const PAGES_ACROSS = [1, 2, 3, 4];
+
+// Download the saved canvas as PNG or PDF, or the whole gallery as a bundle
+export default function ExportPanel({
+  gallery,
+  items,
+  breakpoint,
+}: {
+  gallery: Gallery;
+  items: GalleryItem[];
+  // the layout the PNG and PDF show
+  breakpoint: Breakpoint;
+}) {
+  const [scale, setScale] = useState(2);
+  const [paper, setPaper] = useState<PaperSize>("a4");
+  const [pagesAcross, setPagesAcross] = useState(1);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const size = canvasOf(gallery, breakpoint);
+  const pngScale = exportScale(size, scale);
+  const pdf = pdfLayout(size, { paper, pagesAcross });
+  const busy = status !== null;
+
+  const run = async (
+    label: string,
+    make: (onProgress: ExportProgress) => Promise<Blob>,
+    fileName: string
+  ) => {
+    setError(null);
+    setStatus(`${label}…`);
+    try {
+      const blob = await make((done, total) => setStatus(`${label} ${done}/${total}…`));
+      downloadBlob(blob, fileName);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  const empty = items.length === 0;
+  const button = cls(
+    "px-3 py-1 rounded-xl border text-sm",
+    (busy || empty) && "opacity-50 cursor-not-allowed"
+  );
+
+  return (
+    <div className="grid gap-3 text-sm">
+      <p className="opacity-70">
+        PNG and PDF show the saved {BREAKPOINT_LABELS[breakpoint].toLowerCase()} layout.
+      </p>
+
+      <div className="grid gap-1">
+        <div className="flex items-center gap-2">
+          <span className="flex-1 font-medium">PNG</span>
+          <select
+            value={scale}
+            onChange={(e) => setScale(Number(e.target.value))}
+            className="bg-transparent"
+            aria-label="PNG resolution"
+          >
+            {PNG_SCALES.map((s) => (
+              <option key={s} value={s}>
+                {s}×
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            disabled={busy || empty}
+            onClick={() =>
+              run(
+                "Rendering",
+                (p) => exportPng(gallery, items, breakpoint, scale, p),
+                exportFileName(gallery, "png")
+              )
+            }
+            className={button}
+          >
+            Download
+          </button>
+        </div>
+        <p className="text-xs opacity-60">
+          {Math.round(size.w * pngScale)} × {Math.round(size.h * pngScale)} px
+          {pngScale < scale && " (largest a browser can draw)"}
+        </p>
+      </div>
+
+      <div className="grid gap-1">
+        <div className="flex items-center gap-2">
+          <span className="flex-1 font-medium">PDF</span>
+          <select
+            value={paper}
+            onChange={(e) => setPaper(e.target.value as PaperSize)}
+            className="bg-transparent"
+            aria-label="Paper size"
+          >
+            {(Object.keys(PAPER_LABELS) as PaperSize[]).map((p) => (
+              <option key={p} value={p}>
+                {PAPER_LABELS[p]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={pagesAcross}
+            onChange={(e) => setPagesAcross(Number(e.target.value))}
+            className="bg-transparent"
+            aria-label="Pages across"
+          >
+            {PAGES_ACROSS.map((n) => (
+              <option key={n} value={n}>
+                {n === 1 ? "Fit to page" : `${n} pages wide`}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            disabled={busy || empty}
+            onClick={() =>
+              run(
+                "Rendering",
+                (p) => exportPdf(gallery, items, breakpoint, { paper, pagesAcross }, p),
+                exportFileName(gallery, "pdf")
+              )
+            }
+            className={button}
+          >
+            Download
+          </button>
+        </div>
+        <p className="text-xs opacity-60">
+          {pdf.across * pdf.down} page{pdf.across * pdf.down === 1 ? "" : "s"}
+          {pdf.across * pdf.down > 1 &&
+            ` (${pdf.across} × ${pdf.down}, trim and join at the margins)`}
+        </p>
+      </div>
+
+      <div className="grid gap-1">
+        <div className="flex items-center gap-2">
+          <span className="flex-1 font-medium">Bundle (.zip)</span>
+          <button
+            type="button"
+            disabled={busy || empty}
+            onClick={() =>
+              run(
+                "Collecting images",
+                (p) => exportBundle(gallery, items, p),
+                exportFileName(gallery, "zip")
+              )
+            }
+            className={button}
+          >
+            Download
+          </button>
+        </div>
+        <p className="text-xs opacity-60">
+          Layout and image files, for a backup or to import into another project.
+        </p>
+      </div>
+
+      {status && (
+        <p role="status" className="opacity-70">
+          {status}
+        </p>
+      )}
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  );
+}
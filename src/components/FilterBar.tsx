@@ -0,0 +1,143 @@
+// components/FilterBar.tsx
+"use client";
+import React, { useId, useState } from "react";
+import { parseTags } from "@/lib/galleries";
+import {
+  type ItemFilter,
+  type Orientation,
+  EMPTY_FILTER,
+  ORIENTATION_LABELS,
+  isEmptyFilter,
+} from "@/lib/search";
+
+type Props = {
+  filter: ItemFilter;
+  onChange: (filter: ItemFilter) => void;
+  // tags to suggest, most used first
+  tags: string[];
+  // e.g. "3 of 12 match"
+  summary?: string;
+  // saved searches and other actions, at the end of the bar
+  children?: React.ReactNode;
+};
+
+// Tags, words, date range and shape to find saved items by
+export default function FilterBar({ filter, onChange, tags, summary, children }: Props) {
+  const listId = useId();
+  const [tagDraft, setTagDraft] = useState("");
+  const set = (patch: Partial<ItemFilter>) => onChange({ ...filter, ...patch });
+
+  const addTags = (input: string) => {
+    const added = parseTags(input).filter((t) => !filter.tags.includes(t));
+    if (added.length) set({ tags: [...filter.tags, ...added] });
+    setTagDraft("");
+  };
+
+  const field = "px-2 py-1 rounded-lg border bg-transparent";
+
+  return (
+    <div role="search" className="flex flex-wrap items-center gap-2 text-sm">
+      <input
+        type="search"
+        value={filter.text}
+        onChange={(e) => set({ text: e.target.value })}
+        placeholder="File name or caption"
+        className={`${field} w-48`}
+        aria-label="Search file names and captions"
+      />
+
+      <div className="inline-flex flex-wrap items-center gap-1">
+        {filter.tags.map((t) => (
+          <span key={t} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full border">
+            #{t}
+            <button
+              type="button"
+              onClick={() => set({ tags: filter.tags.filter((x) => x !== t) })}
+              aria-label={`Remove tag ${t}`}
+            >
+              ✕
+            </button>
+          </span>
+        ))}
+        <input
+          list={listId}
+          value={tagDraft}
+          onChange={(e) => {
+            // a suggestion picked from the list replaces the value instead of typing it
+            const kind = (e.nativeEvent as InputEvent).inputType;
+            const picked = !kind || kind === "insertReplacementText";
+            if (picked && tags.includes(e.target.value)) addTags(e.target.value);
+            else setTagDraft(e.target.value);
+          }}
+          onKeyDown={(e) => {
+            if (e.key !== "Enter" && e.key !== ",") return;
+            e.preventDefault();
+            addTags(tagDraft);
+          }}
+          onBlur={() => tagDraft.trim() && addTags(tagDraft)}
+          placeholder="Add tag"
+          className={`${field} w-28`}
+          aria-label="Filter by tag"
+        />
+        <datalist id={listId}>
+          {tags
+            .filter((t) => !filter.tags.includes(t))
+            .map((t) => (
+              <option key={t} value={t} />
+            ))}
+        </datalist>
+      </div>
+
+      <label className="inline-flex items-center gap-1">
+        <span className="opacity-70">Added</span>
+        <input
+          type="date"
+          value={filter.from ?? ""}
+          max={filter.to ?? undefined}
+          onChange={(e) => set({ from: e.target.value || null })}
+          className={field}
+          aria-label="Added on or after"
+        />
+        –
+        <input
+          type="date"
+          value={filter.to ?? ""}
+          min={filter.from ?? undefined}
+          onChange={(e) => set({ to: e.target.value || null })}
+          className={field}
+          aria-label="Added on or before"
+        />
+      </label>
+
+      <select
+        value={filter.orientation ?? ""}
+        onChange={(e) => set({ orientation: (e.target.value || null) as Orientation | null })}
+        className={field}
+        aria-label="Orientation"
+      >
+        <option value="">Any shape</option>
+        {(Object.keys(ORIENTATION_LABELS) as Orientation[]).map((o) => (
+          <option key={o} value={o}>
+            {ORIENTATION_LABELS[o]}
+          </option>
+        ))}
+      </select>
+
+      {!isEmptyFilter(filter) && (
+        <button
+          type="button"
+          onClick={() => onChange(EMPTY_FILTER)}
+          className="px-3 py-1 rounded-xl border text-sm"
+        >
+          Clear
+        </button>
+      )}
+      {summary && (
+        <span role="status" className="opacity-70">
+          {summary}
+        </span>
+      )}
+      {children}
+    </div>
+  );
+}
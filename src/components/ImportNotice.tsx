@@ -0,0 +1,49 @@
+// components/ImportNotice.tsx
+"use client";
+import React from "react";
+import type { ImportRejection } from "@/lib/imports";
+
+// Files being checked, then the ones that were turned away
+export type ImportStatus = { checking: number; rejected: ImportRejection[] };
+
+export default function ImportNotice({
+  status,
+  onDismiss,
+}: {
+  status: ImportStatus;
+  onDismiss: () => void;
+}) {
+  return (
+    <div role="status" className="grid gap-1 rounded-2xl border p-3 text-sm">
+      {status.checking > 0 ? (
+        <p className="opacity-70">
+          Checking {status.checking} file{status.checking === 1 ? "" : "s"}…
+        </p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between gap-2">
+            <p className="font-medium text-red-600">
+              {status.rejected.length} file
+              {status.rejected.length === 1 ? " was" : "s were"} not added
+            </p>
+            <button
+              type="button"
+              onClick={onDismiss}
+              className="px-3 py-1 rounded-xl border text-sm"
+            >
+              Dismiss
+            </button>
+          </div>
+          <ul className="grid gap-0.5">
+            {status.rejected.map((r, i) => (
+              <li key={i}>
+                <span className="font-medium break-all">{r.name}</span>
+                <span className="opacity-70"> — {r.reason}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+// components/ItemCaption.tsx
+import React from "react";
+import type { CaptionStyle, ItemMeta } from "@/lib/galleries";
+import { cls } from "@/lib/utils";
+
+// Caption and credit of an item. "overlay" and "hover" sit inside the tile (which
+// needs the `group` class for hover); "below" flows after it.
+export default function ItemCaption({
+  meta,
+  captionStyle,
+}: {
+  meta: Pick<ItemMeta, "caption" | "credit">;
+  captionStyle: CaptionStyle;
+}) {
+  if (captionStyle === "hidden" || (!meta.caption && !meta.credit)) return null;
+
+  const body = (
+    <>
+      {meta.caption && <span>{meta.caption}</span>}
+      {meta.credit && <span className="opacity-70"> © {meta.credit}</span>}
+    </>
+  );
+
+  if (captionStyle === "below") {
+    return <figcaption className="pt-1 text-xs leading-snug line-clamp-2">{body}</figcaption>;
+  }
+  return (
+    <figcaption
+      className={cls(
+        "absolute inset-x-0 bottom-0 px-2 pb-1 pt-4 text-xs leading-snug text-white",
+        "bg-gradient-to-t from-black/70 to-transparent pointer-events-none line-clamp-3",
+        captionStyle === "hover" && "opacity-0 transition-opacity group-hover:opacity-100"
+      )}
+    >
+      {body}
+    </figcaption>
+  );
+}
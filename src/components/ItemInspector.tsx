@@ -0,0 +1,83 @@
+// components/ItemInspector.tsx
+"use client";
+import React, { useState } from "react";
+import { type ItemMeta, parseTags } from "@/lib/galleries";
+
+type Props = {
+  meta: ItemMeta;
+  // shown as the alt placeholder: what screen readers get when alt is empty
+  fallbackAlt: string;
+  // called once per edited field, when it loses focus
+  onChange: (patch: ItemMeta) => void;
+  // opens the crop / adjustments editor; the button is hidden without it
+  onEditImage?: () => void;
+};
+
+type Draft = { caption: string; alt: string; title: string; tags: string; credit: string };
+
+const toDraft = (m: ItemMeta): Draft => ({
+  caption: m.caption ?? "",
+  alt: m.alt ?? "",
+  title: m.title ?? "",
+  tags: (m.tags ?? []).join(", "),
+  credit: m.credit ?? "",
+});
+
+// Caption / alt / title / tags / credit for one item. Key it by item id so the
+// drafts reset when the selection changes.
+export default function ItemInspector({ meta, fallbackAlt, onChange, onEditImage }: Props) {
+  const saved = toDraft(meta);
+  const [draft, setDraft] = useState<Draft>(saved);
+  // undo/redo or another editor changed a field: take the new value over the draft
+  const [prevSaved, setPrevSaved] = useState<Draft>(saved);
+  const changed = (Object.keys(saved) as Array<keyof Draft>).filter(
+    (k) => saved[k] !== prevSaved[k]
+  );
+  if (changed.length) {
+    setPrevSaved(saved);
+    setDraft((d) => ({ ...d, ...Object.fromEntries(changed.map((k) => [k, saved[k]])) }));
+  }
+
+  const field = (name: keyof Draft) => ({
+    value: draft[name],
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setDraft((d) => ({ ...d, [name]: e.target.value })),
+    onBlur: () => {
+      if (draft[name] === saved[name]) return;
+      onChange(name === "tags" ? { tags: parseTags(draft.tags) } : { [name]: draft[name] });
+    },
+  });
+
+  return (
+    <aside className="grid gap-2 content-start rounded-2xl border p-2 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-medium opacity-70">Details</h3>
+        {onEditImage && (
+          <button type="button" onClick={onEditImage} className="px-2 py-0.5 rounded-lg border text-xs">
+            ✂ Crop & adjust
+          </button>
+        )}
+      </div>
+      <label className="grid gap-1">
+        <span className="text-xs opacity-70">Caption</span>
+        <textarea {...field("caption")} rows={2} className="px-2 py-1 rounded-lg border" />
+      </label>
+      <label className="grid gap-1">
+        <span className="text-xs opacity-70">Alt text</span>
+        <input {...field("alt")} placeholder={fallbackAlt} className="px-2 py-1 rounded-lg border" />
+      </label>
+      <label className="grid gap-1">
+        <span className="text-xs opacity-70">Title</span>
+        <input {...field("title")} className="px-2 py-1 rounded-lg border" />
+      </label>
+      <label className="grid gap-1">
+        <span className="text-xs opacity-70">Tags (comma separated)</span>
+        <input {...field("tags")} className="px-2 py-1 rounded-lg border" />
+      </label>
+      <label className="grid gap-1">
+        <span className="text-xs opacity-70">Credit</span>
+        <input {...field("credit")} className="px-2 py-1 rounded-lg border" />
+      </label>
+    </aside>
+  );
+}
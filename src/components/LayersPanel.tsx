@@ -0,0 +1,88 @@
+// components/LayersPanel.tsx
+"use client";
+import React from "react";
+import { type RestackCommand, RESTACK_LABELS } from "@/lib/layers";
+import { cls } from "@/lib/utils";
+
+export type LayerRow = {
+  id: string;
+  name: string;
+  thumb: string;
+  locked: boolean;
+  selected: boolean;
+};
+
+const RESTACK_BUTTONS: Array<{ cmd: RestackCommand; icon: string }> = [
+  { cmd: "front", icon: "⤒" },
+  { cmd: "forward", icon: "↑" },
+  { cmd: "backward", icon: "↓" },
+  { cmd: "back", icon: "⤓" },
+];
+
+// Items listed top of the stack first, with lock toggles and restack buttons
+export default function LayersPanel({
+  rows,
+  onSelect,
+  onRestack,
+  onToggleLock,
+}: {
+  rows: LayerRow[];
+  onSelect: (id: string, additive: boolean) => void;
+  onRestack: (cmd: RestackCommand) => void;
+  onToggleLock: (id: string) => void;
+}) {
+  const hasSelection = rows.some((r) => r.selected);
+
+  return (
+    <aside className="grid gap-2 content-start rounded-2xl border p-2 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-medium opacity-70">Layers</h3>
+        <div className="inline-flex rounded-xl border overflow-hidden">
+          {RESTACK_BUTTONS.map(({ cmd, icon }, i) => (
+            <button
+              key={cmd}
+              type="button"
+              onClick={() => onRestack(cmd)}
+              disabled={!hasSelection}
+              className={cls("px-2 py-1 disabled:opacity-40", i > 0 && "border-l")}
+              title={RESTACK_LABELS[cmd]}
+              aria-label={RESTACK_LABELS[cmd]}
+            >
+              {icon}
+            </button>
+          ))}
+        </div>
+      </div>
+      <ul className="grid gap-1 max-h-[360px] overflow-auto">
+        {rows.map((r) => (
+          <li
+            key={r.id}
+            className={cls(
+              "flex items-center gap-2 rounded-lg px-1 py-1",
+              r.selected ? "bg-blue-500/10" : "hover:bg-black/5"
+            )}
+          >
+            <button
+              type="button"
+              onClick={(e) => onSelect(r.id, e.shiftKey)}
+              className="flex flex-1 min-w-0 items-center gap-2 text-left"
+            >
+              <img src={r.thumb} alt="" className="w-8 h-8 rounded object-cover border" />
+              <span className="truncate">{r.name}</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => onToggleLock(r.id)}
+              className={cls("px-1", !r.locked && "opacity-40")}
+              title={r.locked ? "Unlock" : "Lock"}
+              aria-label={r.locked ? "Unlock" : "Lock"}
+              aria-pressed={r.locked}
+            >
+              {r.locked ? "🔒" : "🔓"}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+}
@@ -0,0 +1,233 @@
+// components/Lightbox.tsx
+"use client";
+import React, { useEffect, useRef, useState } from "react";
+import { type GalleryItem, altText } from "@/lib/galleries";
+import { cls } from "@/lib/utils";
+
+type Props = {
+  // in navigation order
+  items: GalleryItem[];
+  openId: string;
+  // another item, or null to close
+  onNavigate: (id: string | null) => void;
+};
+
+const MAX_ZOOM = 5;
+// horizontal travel (px) that turns a drag into next / previous
+const SWIPE_DISTANCE = 60;
+
+type Zoom = { scale: number; x: number; y: number };
+type Point = { x: number; y: number };
+
+const clampScale = (s: number) => Math.min(MAX_ZOOM, Math.max(1, s));
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/* -------------------- Zoomable image -------------------- */
+// Pinch / wheel / double-click zoom and drag-to-pan; an unzoomed drag is a swipe
+function ZoomStage({
+  item,
+  onSwipe,
+}: {
+  item: GalleryItem;
+  onSwipe: (dir: 1 | -1) => void;
+}) {
+  const [zoom, setZoom] = useState<Zoom>({ scale: 1, x: 0, y: 0 });
+  const [swipeX, setSwipeX] = useState(0);
+  // no easing while a finger or the mouse is moving the image
+  const [dragging, setDragging] = useState(false);
+  const pointers = useRef(new Map<number, Point>());
+  // zoom and pointer positions when the current set of pointers went down
+  const start = useRef<{ zoom: Zoom; points: Point[] } | null>(null);
+
+  const restart = (z: Zoom) => {
+    start.current = { zoom: z, points: [...pointers.current.values()] };
+  };
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    setDragging(true);
+    restart(zoom);
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!pointers.current.has(e.pointerId) || !start.current) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const points = [...pointers.current.values()];
+    const { zoom: z0, points: p0 } = start.current;
+
+    if (points.length >= 2 && p0.length >= 2) {
+      const scale = clampScale((z0.scale * distance(points[0], points[1])) / distance(p0[0], p0[1]));
+      setZoom({ ...z0, scale });
+    } else if (points.length === 1 && p0.length === 1) {
+      const dx = points[0].x - p0[0].x;
+      const dy = points[0].y - p0[0].y;
+      if (z0.scale > 1) setZoom({ ...z0, x: z0.x + dx, y: z0.y + dy });
+      else setSwipeX(dx);
+    }
+  };
+
+  const onPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!pointers.current.delete(e.pointerId)) return;
+    if (zoom.scale <= 1 && Math.abs(swipeX) > SWIPE_DISTANCE) onSwipe(swipeX < 0 ? 1 : -1);
+    setSwipeX(0);
+    setDragging(pointers.current.size > 0);
+    // back at (nearly) full view: drop any leftover pan
+    const next = zoom.scale <= 1.01 ? { scale: 1, x: 0, y: 0 } : zoom;
+    setZoom(next);
+    restart(next);
+  };
+
+  const onWheel = (e: React.WheelEvent) => {
+    const scale = clampScale(zoom.scale * (e.deltaY < 0 ? 1.15 : 1 / 1.15));
+    setZoom(scale === 1 ? { scale, x: 0, y: 0 } : { ...zoom, scale });
+  };
+
+  // +/- and 0 zoom from the keyboard
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "+" || e.key === "=") setZoom((z) => ({ ...z, scale: clampScale(z.scale * 1.25) }));
+      else if (e.key === "-") {
+        setZoom((z) => {
+          const scale = clampScale(z.scale / 1.25);
+          return scale === 1 ? { scale, x: 0, y: 0 } : { ...z, scale };
+        });
+      } else if (e.key === "0") setZoom({ scale: 1, x: 0, y: 0 });
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  return (
+    <div
+      className={cls(
+        "relative flex-1 min-h-0 flex items-center justify-center overflow-hidden touch-none select-none",
+        zoom.scale > 1 ? "cursor-grab" : "cursor-zoom-in"
+      )}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
+      onWheel={onWheel}
+      onDoubleClick={() => setZoom((z) => (z.scale > 1 ? { scale: 1, x: 0, y: 0 } : { ...z, scale: 2 }))}
+    >
+      <img
+        src={item.url}
+        alt={altText(item)}
+        draggable={false}
+        className={cls(
+          "max-w-full max-h-full object-contain",
+          !dragging && "transition-transform"
+        )}
+        style={{
+          transform: `translate(${zoom.x + swipeX}px, ${zoom.y}px) scale(${zoom.scale})`,
+        }}
+      />
+    </div>
+  );
+}
+
+/* -------------------- Lightbox -------------------- */
+// Full-screen viewer for saved items: ←/→ navigate, Esc closes, swipe on touch screens
+export default function Lightbox({ items, openId, onNavigate }: Props) {
+  const index = items.findIndex((it) => it.id === openId);
+  const item = items[index];
+  const closeRef = useRef<HTMLButtonElement | null>(null);
+
+  const go = (dir: 1 | -1) => {
+    const next = items[index + dir];
+    if (next?.id) onNavigate(next.id);
+  };
+  const goRef = useRef(go);
+  const navigateRef = useRef(onNavigate);
+  useEffect(() => {
+    goRef.current = go;
+    navigateRef.current = onNavigate;
+  });
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") navigateRef.current(null);
+      else if (e.key === "ArrowRight") goRef.current(1);
+      else if (e.key === "ArrowLeft") goRef.current(-1);
+      else return;
+      e.preventDefault();
+      e.stopPropagation();
+    };
+    // capture, so page-level shortcuts don't also see these keys
+    window.addEventListener("keydown", onKeyDown, true);
+    return () => window.removeEventListener("keydown", onKeyDown, true);
+  }, []);
+
+  // keep the page behind from scrolling, and focus inside the dialog
+  useEffect(() => {
+    const overflow = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    closeRef.current?.focus();
+    return () => {
+      document.body.style.overflow = overflow;
+    };
+  }, []);
+
+  // warm the cache for the neighbours
+  useEffect(() => {
+    for (const n of [items[index - 1], items[index + 1]]) {
+      if (n) new Image().src = n.url;
+    }
+  }, [items, index]);
+
+  if (!item) return null;
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={item.title || altText(item) || "Image"}
+      className="fixed inset-0 z-[20000] flex flex-col bg-black/95 text-white"
+    >
+      <div className="flex items-center justify-between gap-2 p-3 text-sm">
+        <span className="opacity-70">
+          {index + 1} / {items.length}
+        </span>
+        <button
+          ref={closeRef}
+          type="button"
+          onClick={() => onNavigate(null)}
+          className="px-3 py-1 rounded-xl border border-white/30"
+          aria-label="Close"
+        >
+          ✕
+        </button>
+      </div>
+
+      <ZoomStage key={item.id} item={item} onSwipe={go} />
+
+      <button
+        type="button"
+        onClick={() => go(-1)}
+        disabled={index <= 0}
+        className="absolute left-2 top-1/2 -translate-y-1/2 px-3 py-2 rounded-xl bg-black/50 disabled:opacity-20"
+        aria-label="Previous image"
+      >
+        ‹
+      </button>
+      <button
+        type="button"
+        onClick={() => go(1)}
+        disabled={index >= items.length - 1}
+        className="absolute right-2 top-1/2 -translate-y-1/2 px-3 py-2 rounded-xl bg-black/50 disabled:opacity-20"
+        aria-label="Next image"
+      >
+        ›
+      </button>
+
+      {(item.title || item.caption || item.credit) && (
+        <div className="p-3 text-sm text-center grid gap-1">
+          {item.title && <p className="font-medium">{item.title}</p>}
+          {item.caption && <p className="opacity-90">{item.caption}</p>}
+          {item.credit && <p className="text-xs opacity-60">© {item.credit}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
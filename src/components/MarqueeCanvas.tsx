@@ -0,0 +1,86 @@
+// components/MarqueeCanvas.tsx
+"use client";
+import React, { useRef, useState } from "react";
+import { type Layout, rectFromPoints } from "@/lib/layout";
+
+type Props = {
+  className?: string;
+  style?: React.CSSProperties;
+  // CSS scale the canvas is drawn at; the marquee is reported in canvas units
+  scale?: number;
+  // rubber-band selection finished; `additive` when Shift was held
+  onMarquee: (rect: Layout, additive: boolean) => void;
+  // accessible name; the canvas is then a multi-select list of its items
+  label?: string;
+  children?: React.ReactNode;
+};
+
+// Canvas container that draws a selection rectangle when dragging on empty space
+export default function MarqueeCanvas({
+  className,
+  style,
+  scale = 1,
+  onMarquee,
+  label,
+  children,
+}: Props) {
+  const ref = useRef<HTMLDivElement | null>(null);
+  const startRef = useRef<{ x: number; y: number; additive: boolean } | null>(null);
+  const [rect, setRect] = useState<Layout | null>(null);
+
+  const point = (e: React.PointerEvent) => {
+    const box = ref.current!.getBoundingClientRect();
+    return { x: (e.clientX - box.left) / scale, y: (e.clientY - box.top) / scale };
+  };
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    // only empty canvas starts a marquee; items handle their own pointer
+    if (e.target !== e.currentTarget || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const p = point(e);
+    startRef.current = { ...p, additive: e.shiftKey };
+    setRect({ x: p.x, y: p.y, w: 0, h: 0 });
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = startRef.current;
+    if (!start) return;
+    const p = point(e);
+    setRect(rectFromPoints(start.x, start.y, p.x, p.y));
+  };
+
+  const onPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = startRef.current;
+    if (!start) return;
+    startRef.current = null;
+    const p = point(e);
+    setRect(null);
+    onMarquee(rectFromPoints(start.x, start.y, p.x, p.y), start.additive);
+  };
+
+  return (
+    <div
+      ref={ref}
+      role={label ? "listbox" : undefined}
+      aria-multiselectable={label ? true : undefined}
+      aria-label={label}
+      className={className}
+      style={style}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={() => {
+        startRef.current = null;
+        setRect(null);
+      }}
+    >
+      {children}
+      {rect && (
+        <div
+          className="absolute pointer-events-none z-[10000] border border-blue-500 bg-blue-500/10"
+          style={{ left: rect.x, top: rect.y, width: rect.w, height: rect.h }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+// components/MembersPanel.tsx
+"use client";
+import React, { useState } from "react";
+import { type Gallery, type MemberRole, ROLE_LABELS } from "@/lib/galleries";
+
+const MEMBER_ROLES: MemberRole[] = ["editor", "viewer"];
+
+// Invite people by email and change or revoke their role (owner only)
+export default function MembersPanel({
+  gallery,
+  onChange,
+}: {
+  gallery: Pick<Gallery, "editors" | "viewers">;
+  onChange: (email: string, role: MemberRole | null) => void;
+}) {
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<MemberRole>("editor");
+
+  const members = [
+    ...(gallery.editors ?? []).map((e) => ({ email: e, role: "editor" as const })),
+    ...(gallery.viewers ?? []).map((e) => ({ email: e, role: "viewer" as const })),
+  ].sort((a, b) => a.email.localeCompare(b.email));
+
+  const onInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    onChange(email, role);
+    setEmail("");
+  };
+
+  return (
+    <div className="grid gap-2 text-sm">
+      {members.length === 0 ? (
+        <p className="opacity-70">Only you can open this gallery.</p>
+      ) : (
+        <ul className="grid gap-1">
+          {members.map((m) => (
+            <li key={m.email} className="flex items-center gap-2">
+              <span className="flex-1 truncate" title={m.email}>
+                {m.email}
+              </span>
+              <select
+                value={m.role}
+                onChange={(e) => onChange(m.email, e.target.value as MemberRole)}
+                className="bg-transparent"
+                aria-label={`Role of ${m.email}`}
+              >
+                {MEMBER_ROLES.map((r) => (
+                  <option key={r} value={r}>
+                    {ROLE_LABELS[r]}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => onChange(m.email, null)}
+                className="px-2 rounded-lg border"
+                aria-label={`Remove ${m.email}`}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={onInvite} className="flex items-center gap-2">
+        <input
+          type="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Invite by email"
+          className="flex-1 min-w-0 px-3 py-1 rounded-xl border"
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as MemberRole)}
+          className="bg-transparent"
+          aria-label="Role"
+        >
+          {MEMBER_ROLES.map((r) => (
+            <option key={r} value={r}>
+              {ROLE_LABELS[r]}
+            </option>
+          ))}
+        </select>
+        <button type="submit" className="px-3 py-1 rounded-xl border">
+          Invite
+        </button>
+      </form>
+    </div>
+  );
+}
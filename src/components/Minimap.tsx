@@ -0,0 +1,58 @@
+// components/Minimap.tsx
+"use client";
+import React, { useRef } from "react";
+import type { CanvasSize } from "@/lib/canvas";
+import type { Layout } from "@/lib/layout";
+
+type Props = {
+  size: CanvasSize;
+  // item rects and the visible part of the canvas, in canvas units
+  items: Layout[];
+  view: Layout;
+  // centre the view on a canvas point
+  onNavigate: (center: { x: number; y: number }) => void;
+};
+
+// Longest side of the minimap, in px
+const MINIMAP_SIDE = 160;
+
+// Overview of a zoomed-in canvas: where the items are and which part is on screen.
+// Click or drag to move the view.
+export default function Minimap({ size, items, view, onNavigate }: Props) {
+  const k = MINIMAP_SIDE / Math.max(size.w, size.h);
+  const dragging = useRef(false);
+
+  const navigate = (e: React.PointerEvent<HTMLDivElement>) => {
+    const box = e.currentTarget.getBoundingClientRect();
+    onNavigate({ x: (e.clientX - box.left) / k, y: (e.clientY - box.top) / k });
+  };
+
+  return (
+    <div
+      className="relative rounded-md border bg-white/90 shadow cursor-pointer touch-none"
+      style={{ width: size.w * k, height: size.h * k }}
+      aria-hidden
+      onPointerDown={(e) => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragging.current = true;
+        navigate(e);
+      }}
+      onPointerMove={(e) => dragging.current && navigate(e)}
+      onPointerUp={() => (dragging.current = false)}
+      onPointerCancel={() => (dragging.current = false)}
+    >
+      {items.map((l, i) => (
+        <div
+          key={i}
+          className="absolute bg-neutral-400/70"
+          style={{ left: l.x * k, top: l.y * k, width: l.w * k, height: l.h * k }}
+        />
+      ))}
+      <div
+        className="absolute border-2 border-blue-500 bg-blue-500/10"
+        style={{ left: view.x * k, top: view.y * k, width: view.w * k, height: view.h * k }}
+      />
+    </div>
+  );
+}
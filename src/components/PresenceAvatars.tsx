@@ -0,0 +1,35 @@
+// components/PresenceAvatars.tsx
+"use client";
+import React from "react";
+import { BREAKPOINT_LABELS } from "@/lib/canvas";
+import { type Presence, initials } from "@/lib/presence";
+
+// How many faces before the rest collapse into "+n"
+const MAX_SHOWN = 5;
+
+// Collaborators who have the gallery open right now
+export default function PresenceAvatars({ others }: { others: Presence[] }) {
+  if (!others.length) return null;
+  const shown = others.slice(0, MAX_SHOWN);
+  const rest = others.length - shown.length;
+
+  return (
+    <div className="flex items-center -space-x-2" aria-label={`${others.length} others editing`}>
+      {shown.map((p) => (
+        <span
+          key={p.uid}
+          className="inline-flex h-7 w-7 items-center justify-center rounded-full border-2 border-white text-[10px] font-semibold text-white"
+          style={{ background: p.color }}
+          title={`${p.name} · ${BREAKPOINT_LABELS[p.breakpoint]}${p.dragging.length ? " · moving images" : ""}`}
+        >
+          {initials(p.name)}
+        </span>
+      ))}
+      {rest > 0 && (
+        <span className="inline-flex h-7 w-7 items-center justify-center rounded-full border-2 border-white bg-gray-200 text-[10px]">
+          +{rest}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+// components/RemoteCursors.tsx
+"use client";
+import React from "react";
+import type { Presence } from "@/lib/presence";
+
+// Collaborators' pointers over a canvas; cursor positions are fractions of its box
+export default function RemoteCursors({ others }: { others: Presence[] }) {
+  return (
+    <div className="absolute inset-0 pointer-events-none z-[10001]" aria-hidden>
+      {others.map((p) =>
+        p.cursor ? (
+          <div
+            key={p.uid}
+            className="absolute transition-[left,top] duration-100 ease-linear"
+            style={{ left: `${p.cursor.x * 100}%`, top: `${p.cursor.y * 100}%` }}
+          >
+            <svg width="16" height="16" viewBox="0 0 16 16" className="block drop-shadow">
+              <path d="M1 1 L1 13 L4.5 9.5 L7 15 L9 14 L6.5 8.5 L11.5 8.5 Z" fill={p.color} stroke="#fff" />
+            </svg>
+            <span
+              className="ml-3 -mt-1 inline-block whitespace-nowrap rounded-md px-1 py-0.5 text-[10px] text-white"
+              style={{ background: p.color }}
+            >
+              {p.name}
+            </span>
+          </div>
+        ) : null
+      )}
+    </div>
+  );
+}
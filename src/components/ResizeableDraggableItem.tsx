@@ -1,98 +1,340 @@
-// components/ResizableDraggableItem.tsx
+// components/ResizeableDraggableItem.tsx
 "use client";
 import React, { useEffect, useRef } from "react";
 import interact from "interactjs";
+import type { Modifier } from "@interactjs/modifiers/types";
+import EditedImage from "@/components/EditedImage";
+import type { ImageEdits } from "@/lib/edits";
+import { type Distance, type Guide, type SnapContext, snapMove, snapResize } from "@/lib/guides";
+import type { Layout } from "@/lib/layout";
+import { cls } from "@/lib/utils";
+
+// A collaborator who has the item selected, or is dragging it right now
+export type ItemPeer = { id: string; name: string; color: string; dragging: boolean };
 
 type Props = {
   src: string;
   alt?: string;
-  x: number; y: number; w: number; h: number;
-  onChange: (next: {x:number;y:number;w:number;h:number}) => void;
+  // crop and adjustments applied to the image
+  edits?: ImageEdits | null;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  // grid step in px; 0 turns grid snapping off
+  gridSize?: number;
+  // snap to neighbours and the canvas center, drawing guide lines and gaps
+  guides?: boolean;
+  // CSS scale of the canvas; pointer movement is divided by it
+  scale?: number;
+  // layouts of the other items to snap against, read when a gesture starts
+  getNeighbours?: () => Layout[];
+  onChange: (next: Layout) => void;
+  // fired when a drag/resize gesture begins (before any onChange)
+  onInteractionStart?: () => void;
+  // offset from where the current drag started, on every move
+  onDragMove?: (delta: { dx: number; dy: number }) => void;
+  selected?: boolean;
+  // faded, e.g. when it doesn't match the filter
+  dimmed?: boolean;
+  // stacking order (CSS z-index)
+  z?: number;
+  // no drag/resize while locked; still selectable
+  locked?: boolean;
+  // collaborators on this item; while one of them drags it, it can't be grabbed here
+  peers?: ItemPeer[];
+  onPointerDown?: (e: React.PointerEvent<HTMLDivElement>) => void;
+  // keyboard access: the canvas keeps one item in the tab order (roving tabindex) and
+  // handles the keys; `itemKey` lets it find the element to move focus to
+  itemKey?: string;
+  tabIndex?: number;
+  // what screen readers announce for the item, and the element explaining its keys
+  label?: string;
+  describedBy?: string;
+  onKeyDown?: (e: React.KeyboardEvent<HTMLDivElement>) => void;
+  onFocus?: () => void;
+  // overlays rendered on top of the image (they move with it)
+  children?: React.ReactNode;
 };
 
-export default function ResizableDraggableItem({ src, alt, x, y, w, h, onChange }: Props) {
+const GUIDE_COLOR = "#ec4899";
+const NO_PEERS: ItemPeer[] = [];
+
+// Draws guide lines and gap readouts into an overlay on the canvas (no React render per move)
+function drawGuides(overlay: HTMLElement, guides: Guide[], distances: Distance[]) {
+  const parts: string[] = [];
+  for (const g of guides) {
+    const style =
+      g.axis === "x"
+        ? `left:${g.pos}px;top:${g.from}px;width:1px;height:${g.to - g.from}px`
+        : `top:${g.pos}px;left:${g.from}px;height:1px;width:${g.to - g.from}px`;
+    parts.push(`<div style="position:absolute;background:${GUIDE_COLOR};${style}"></div>`);
+  }
+  for (const d of distances) {
+    const len = Math.round(d.to - d.from);
+    if (len <= 0) continue;
+    const line =
+      d.axis === "x"
+        ? `left:${d.from}px;top:${d.at}px;width:${len}px;border-top:1px dashed ${GUIDE_COLOR}`
+        : `top:${d.from}px;left:${d.at}px;height:${len}px;border-left:1px dashed ${GUIDE_COLOR}`;
+    const mid =
+      d.axis === "x"
+        ? `left:${d.from + len / 2}px;top:${d.at}px`
+        : `left:${d.at}px;top:${d.from + len / 2}px`;
+    parts.push(`<div style="position:absolute;${line}"></div>`);
+    parts.push(
+      `<div style="position:absolute;${mid};transform:translate(-50%,-50%);background:${GUIDE_COLOR};color:#fff;font-size:10px;line-height:1;padding:2px 4px;border-radius:4px">${len}</div>`
+    );
+  }
+  overlay.innerHTML = parts.join("");
+}
+
+function place(el: HTMLElement, r: Layout) {
+  el.style.width = r.w + "px";
+  el.style.height = r.h + "px";
+  el.style.transform = `translate(${r.x}px, ${r.y}px)`;
+  el.dataset.x = String(r.x);
+  el.dataset.y = String(r.y);
+}
+
+function readLayout(el: HTMLElement): Layout {
+  return {
+    x: parseFloat(el.dataset.x || "0") || 0,
+    y: parseFloat(el.dataset.y || "0") || 0,
+    // the inline size, not clientWidth: layouts may be fractional canvas units
+    w: parseFloat(el.style.width) || el.clientWidth,
+    h: parseFloat(el.style.height) || el.clientHeight,
+  };
+}
+
+export default function ResizableDraggableItem({
+  src,
+  alt,
+  edits,
+  x,
+  y,
+  w,
+  h,
+  gridSize = 0,
+  guides = false,
+  scale = 1,
+  getNeighbours,
+  onChange,
+  onInteractionStart,
+  onDragMove,
+  selected = false,
+  dimmed = false,
+  z,
+  locked = false,
+  peers = NO_PEERS,
+  onPointerDown,
+  itemKey,
+  tabIndex = -1,
+  label,
+  describedBy,
+  onKeyDown,
+  onFocus,
+  children,
+}: Props) {
   const ref = useRef<HTMLDivElement | null>(null);
+  // true between gesture start and end; incoming props are ignored meanwhile
+  const activeRef = useRef(false);
+  const holder = peers.find((p) => p.dragging);
+  const frozen = locked || !!holder;
+  const frozenRef = useRef(frozen);
+  const interactableRef = useRef<ReturnType<typeof interact> | null>(null);
+
+  // keep the latest callbacks without re-binding interact.js on every render
+  const onChangeRef = useRef(onChange);
+  const onStartRef = useRef(onInteractionStart);
+  const onDragMoveRef = useRef(onDragMove);
+  const getNeighboursRef = useRef(getNeighbours);
+  useEffect(() => {
+    onChangeRef.current = onChange;
+    onStartRef.current = onInteractionStart;
+    onDragMoveRef.current = onDragMove;
+    getNeighboursRef.current = getNeighbours;
+  });
+
+  // Locking (here or by a collaborator grabbing the item) applies between gestures:
+  // a snapshot arriving mid-drag never cuts the local one short
+  useEffect(() => {
+    frozenRef.current = frozen;
+    if (!activeRef.current) interactableRef.current?.draggable(!frozen).resizable(!frozen);
+  }, [frozen]);
 
   useEffect(() => {
-    if (!ref.current) return;
+    const el = ref.current;
+    if (!el) return;
+
+    // grid and guide snapping happen in the move listeners, on the unsnapped position
+    const mods: Modifier[] = [
+      interact.modifiers.restrictEdges({ outer: "parent" }),
+      // the minimum is in screen pixels, so it follows the canvas scale
+      interact.modifiers.restrictSize({ min: { width: 80 * scale, height: 80 * scale } }),
+    ];
+
+    // per-gesture state: unsnapped rect, where it started, what to snap against
+    let raw: Layout = { x: 0, y: 0, w: 0, h: 0 };
+    let origin = { x: 0, y: 0 };
+    let ctx: SnapContext = { neighbours: [], canvas: { w: 0, h: 0 }, gridSize, guides };
+    let overlay: HTMLElement | null = null;
 
-    // Draggable
-    interact(ref.current)
+    const start = (event: { target: EventTarget | null }) => {
+      const el = event.target as HTMLElement;
+      raw = readLayout(el);
+      origin = { x: raw.x, y: raw.y };
+      const parent = el.parentElement;
+      ctx = {
+        neighbours: getNeighboursRef.current?.() ?? [],
+        canvas: { w: parent?.clientWidth ?? 0, h: parent?.clientHeight ?? 0 },
+        gridSize,
+        guides,
+      };
+      if (guides && parent) {
+        overlay = document.createElement("div");
+        overlay.className = "absolute inset-0 pointer-events-none z-[10000]";
+        parent.appendChild(overlay);
+      }
+      activeRef.current = true;
+      onStartRef.current?.();
+    };
+    const end = (event: { target: EventTarget | null }) => {
+      overlay?.remove();
+      overlay = null;
+      activeRef.current = false;
+      // catch up on lock changes held back during the gesture
+      i.draggable(!frozenRef.current).resizable(!frozenRef.current);
+      onChangeRef.current(readLayout(event.target as HTMLElement));
+    };
+    const show = (el: HTMLElement, r: { rect: Layout; guides: Guide[]; distances: Distance[] }) => {
+      // snapping may nudge past the canvas edge; keep it inside
+      const { w, h } = ctx.canvas;
+      const rect = {
+        ...r.rect,
+        x: w ? Math.min(Math.max(0, r.rect.x), Math.max(0, w - r.rect.w)) : r.rect.x,
+        y: h ? Math.min(Math.max(0, r.rect.y), Math.max(0, h - r.rect.h)) : r.rect.y,
+      };
+      place(el, rect);
+      if (overlay) drawGuides(overlay, r.guides, r.distances);
+      return rect;
+    };
+
+    // screen px → canvas units, following the zoom
+    const dragBy = (target: HTMLElement, dx: number, dy: number) => {
+      raw = { ...raw, x: raw.x + dx / scale, y: raw.y + dy / scale };
+      const rect = show(target, snapMove(raw, ctx));
+      onDragMoveRef.current?.({ dx: rect.x - origin.x, dy: rect.y - origin.y });
+    };
+    // a zoomed-in canvas scrolls while an item is dragged against its edge
+    const scroller = el.closest<HTMLElement>("[data-canvas-scroller]");
+    let dragging = false;
+
+    const i = interact(el)
       .draggable({
+        enabled: !frozenRef.current,
+        // the item's own buttons are clicked, not dragged
+        ignoreFrom: "button",
+        autoScroll: scroller ? { container: scroller } : false,
         listeners: {
-          move (event) {
-            const el = event.target as HTMLElement;
-            const dx = event.dx ?? 0;
-            const dy = event.dy ?? 0;
-            const nx = (parseFloat(el.dataset.x || "0") || 0) + dx;
-            const ny = (parseFloat(el.dataset.y || "0") || 0) + dy;
-            el.style.transform = `translate(${nx}px, ${ny}px)`;
-            el.dataset.x = String(nx);
-            el.dataset.y = String(ny);
+          start(event) {
+            dragging = true;
+            start(event);
+          },
+          move(event) {
+            dragBy(event.target as HTMLElement, event.dx ?? 0, event.dy ?? 0);
           },
-          end (event) {
-            const el = event.target as HTMLElement;
-            onChange({
-              x: parseFloat(el.dataset.x || "0") || 0,
-              y: parseFloat(el.dataset.y || "0") || 0,
-              w: el.clientWidth,
-              h: el.clientHeight,
-            });
+          end(event) {
+            dragging = false;
+            end(event);
           },
-        }
+        },
+        modifiers: mods,
+        inertia: true,
       })
-      .styleCursor(false) // let CSS decide
-      // Resizable
       .resizable({
+        enabled: !frozenRef.current,
+        ignoreFrom: "button",
         edges: { left: true, right: true, bottom: true, top: true },
         listeners: {
-          move (event) {
-            const el = event.target as HTMLElement;
-            let { width, height } = event.rect;
-            // maintain minimums
-            width = Math.max(80, width);
-            height = Math.max(80, height);
-            el.style.width = width + "px";
-            el.style.height = height + "px";
-
-            // keep the dragged translation in sync when resizing from top/left
-            const x = (parseFloat(el.dataset.x || "0") || 0) + (event.deltaRect?.left || 0);
-            const y = (parseFloat(el.dataset.y || "0") || 0) + (event.deltaRect?.top || 0);
-            el.style.transform = `translate(${x}px, ${y}px)`;
-            el.dataset.x = String(x);
-            el.dataset.y = String(y);
+          start,
+          move(event) {
+            raw = {
+              x: raw.x + (event.deltaRect?.left || 0) / scale,
+              y: raw.y + (event.deltaRect?.top || 0) / scale,
+              w: Math.max(80, event.rect.width / scale),
+              h: Math.max(80, event.rect.height / scale),
+            };
+            show(event.target as HTMLElement, snapResize(raw, event.edges ?? {}, ctx));
           },
-          end (event) {
-            const el = event.target as HTMLElement;
-            onChange({
-              x: parseFloat(el.dataset.x || "0") || 0,
-              y: parseFloat(el.dataset.y || "0") || 0,
-              w: el.clientWidth,
-              h: el.clientHeight,
-            });
-          }
+          end,
         },
-        modifiers: [
-          interact.modifiers.restrictEdges({ outer: 'parent' }),
-          interact.modifiers.restrictSize({ min: { width: 80, height: 80 } }),
-        ],
+        modifiers: mods,
         inertia: true,
       });
 
-    // init size & position
-    const el = ref.current!;
-    el.style.width = w + "px";
-    el.style.height = h + "px";
-    el.style.transform = `translate(${x}px, ${y}px)`;
-    el.dataset.x = String(x);
-    el.dataset.y = String(y);
+    // the view scrolled under a still pointer: the item goes along
+    i.on("autoscroll", (event: { delta?: { x: number; y: number } }) => {
+      if (dragging && event.delta) dragBy(el, event.delta.x, event.delta.y);
+    });
+
+    interactableRef.current = i;
 
-    return () => interact(ref.current!).unset();
-  }, [onChange, w, h, x, y]);
+    return () => {
+      i.unset();
+      interactableRef.current = null;
+    };
+  }, [gridSize, guides, scale]);
+
+  // sync size & position from props, unless the user is mid-gesture
+  useEffect(() => {
+    const el = ref.current;
+    if (!el || activeRef.current) return;
+    place(el, { x, y, w, h });
+  }, [w, h, x, y]);
 
   return (
-    <div ref={ref} className="absolute select-none rounded-xl overflow-hidden shadow border bg-white">
-      <img src={src} alt={alt || ""} className="block w-full h-full object-cover" draggable={false}/>
+    <div
+      ref={ref}
+      data-item={itemKey}
+      role="option"
+      aria-selected={selected}
+      aria-label={label}
+      aria-describedby={describedBy}
+      tabIndex={tabIndex}
+      onPointerDown={onPointerDown}
+      onKeyDown={onKeyDown}
+      onFocus={(e) => e.target === e.currentTarget && onFocus?.()}
+      className={cls(
+        "group absolute select-none rounded-xl overflow-hidden shadow border bg-white",
+        "focus:outline-none focus-visible:ring-4 focus-visible:ring-blue-600",
+        selected && "ring-2 ring-blue-500",
+        dimmed && "opacity-25",
+        holder && "cursor-not-allowed"
+      )}
+      style={{
+        zIndex: z,
+        outline: peers.length ? `2px solid ${peers[0].color}` : undefined,
+        outlineOffset: 2,
+      }}
+      title={holder ? `${holder.name} is moving this` : undefined}
+    >
+      <EditedImage src={src} alt={alt || ""} edits={edits} draggable={false} />
+      {(locked || peers.length > 0) && (
+        <div className="absolute left-2 top-2 flex flex-wrap gap-1 text-xs">
+          {locked && (
+            <span className="rounded-md px-1 py-0.5 bg-black/70" title="Locked">
+              🔒
+            </span>
+          )}
+          {peers.map((p) => (
+            <span key={p.id} className="rounded-md px-1 py-0.5 text-white" style={{ background: p.color }}>
+              {p.dragging ? `✋ ${p.name}` : p.name}
+            </span>
+          ))}
+        </div>
+      )}
+      {children}
     </div>
   );
 }
@@ -0,0 +1,108 @@
+// components/SavedSearchMenu.tsx
+"use client";
+import React, { useState } from "react";
+import {
+  type ItemFilter,
+  type SavedSearch,
+  describeFilter,
+  isEmptyFilter,
+} from "@/lib/search";
+
+type Props = {
+  searches: SavedSearch[];
+  // the filter being shown, to save
+  filter: ItemFilter;
+  onApply: (filter: ItemFilter) => void;
+  onSave: (name: string) => Promise<void>;
+  onDelete: (search: SavedSearch) => Promise<void>;
+};
+
+const NAME_MAX = 120;
+
+// The account's saved searches (shared by every gallery and the search page)
+export default function SavedSearchMenu({ searches, filter, onApply, onSave, onDelete }: Props) {
+  const [name, setName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const empty = isEmptyFilter(filter);
+
+  const run = async (task: () => Promise<void>) => {
+    setError(null);
+    setBusy(true);
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (empty) return;
+    void run(async () => {
+      await onSave((name.trim() || describeFilter(filter)).slice(0, NAME_MAX));
+      setName("");
+    });
+  };
+
+  return (
+    <details className="relative">
+      <summary className="px-3 py-1 rounded-xl border text-sm cursor-pointer list-none">
+        ☆ Saved searches
+      </summary>
+      <div className="absolute right-0 z-20 mt-2 w-72 p-3 rounded-2xl border bg-white shadow-lg grid gap-2 text-sm">
+        {searches.length === 0 ? (
+          <p className="opacity-70">None yet.</p>
+        ) : (
+          <ul className="grid gap-1 max-h-64 overflow-auto">
+            {searches.map((s) => (
+              <li key={s.id} className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => onApply(s.filter)}
+                  className="flex-1 min-w-0 text-left truncate hover:underline"
+                  title={describeFilter(s.filter)}
+                >
+                  {s.name}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (!confirm(`Delete the saved search “${s.name}”?`)) return;
+                    void run(() => onDelete(s));
+                  }}
+                  disabled={busy}
+                  className="px-2 rounded-lg border"
+                  aria-label={`Delete ${s.name}`}
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form onSubmit={onSubmit} className="flex gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={NAME_MAX}
+            placeholder={empty ? "Set a filter first" : describeFilter(filter)}
+            disabled={empty}
+            className="flex-1 min-w-0 px-2 py-1 rounded-lg border"
+            aria-label="Name of the search"
+          />
+          <button
+            type="submit"
+            disabled={empty || busy}
+            className="px-3 py-1 rounded-xl border text-sm disabled:opacity-50"
+          >
+            Save
+          </button>
+        </form>
+        {error && <p className="text-red-600">{error}</p>}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,35 @@
+// components/ShareLightbox.tsx
+"use client";
+import React, { useEffect } from "react";
+import { useSearchParams } from "next/navigation";
+import Lightbox from "@/components/Lightbox";
+import type { SharedItem } from "@/lib/share";
+
+function setOpenItem(id: string | null) {
+  const url = new URL(window.location.href);
+  if (id) url.searchParams.set("item", id);
+  else url.searchParams.delete("item");
+  window.history.replaceState(null, "", url);
+}
+
+// Lightbox for the server-rendered public page: tile links (`data-lightbox-item`) open it
+// in place; without script they still navigate to ?item=<id>
+export default function ShareLightbox({ items }: { items: SharedItem[] }) {
+  const openId = useSearchParams().get("item");
+
+  useEffect(() => {
+    const onClick = (e: MouseEvent) => {
+      if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey) return;
+      const link = (e.target as Element | null)?.closest<HTMLElement>("[data-lightbox-item]");
+      const id = link?.dataset.lightboxItem;
+      if (!id) return;
+      e.preventDefault();
+      setOpenItem(id);
+    };
+    document.addEventListener("click", onClick);
+    return () => document.removeEventListener("click", onClick);
+  }, []);
+
+  if (!openId || !items.some((it) => it.id === openId)) return null;
+  return <Lightbox items={items} openId={openId} onNavigate={setOpenItem} />;
+}
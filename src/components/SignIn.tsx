@@ -0,0 +1,89 @@
+// components/SignIn.tsx
+"use client";
+import React, { useState } from "react";
+import { useAuth } from "@/lib/auth/context";
+import { cls } from "@/lib/utils";
+
+// Email-link and Google sign-in; the link brings the user back to this page
+export default function SignIn({ message }: { message?: string }) {
+  const { sendSignInLink, signInWithGoogle, error } = useAuth();
+  const [email, setEmail] = useState("");
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (fn: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await fn();
+    } catch {
+      // shown from the auth context's error
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const address = email.trim();
+    if (!address) return;
+    void run(async () => {
+      await sendSignInLink(address);
+      setSentTo(address);
+    });
+  };
+
+  return (
+    <div className="mx-auto max-w-sm space-y-4 p-6 rounded-2xl border">
+      <h2 className="text-lg font-semibold">Sign in</h2>
+      {message && <p className="text-sm opacity-70">{message}</p>}
+
+      {sentTo ? (
+        <p className="text-sm">
+          Check <strong>{sentTo}</strong> for a sign-in link.{" "}
+          <button type="button" onClick={() => setSentTo(null)} className="underline">
+            Use another address
+          </button>
+        </p>
+      ) : (
+        <form onSubmit={onSubmit} className="grid gap-2">
+          <input
+            type="email"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="you@example.com"
+            autoComplete="email"
+            className="px-4 py-2 rounded-2xl border"
+          />
+          <button
+            type="submit"
+            disabled={busy || !email.trim()}
+            className={cls(
+              "px-4 py-2 rounded-2xl border shadow",
+              busy || !email.trim() ? "opacity-50 cursor-not-allowed" : "hover:shadow-md"
+            )}
+          >
+            Email me a sign-in link
+          </button>
+        </form>
+      )}
+
+      <div className="flex items-center gap-2 text-xs opacity-60">
+        <span className="flex-1 border-t" />
+        or
+        <span className="flex-1 border-t" />
+      </div>
+
+      <button
+        type="button"
+        onClick={() => void run(signInWithGoogle)}
+        disabled={busy}
+        className="w-full px-4 py-2 rounded-2xl border shadow hover:shadow-md disabled:opacity-50"
+      >
+        Continue with Google
+      </button>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
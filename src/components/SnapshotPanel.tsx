@@ -0,0 +1,212 @@
+// components/SnapshotPanel.tsx
+"use client";
+import React, { useState } from "react";
+import SnapshotThumb from "@/components/SnapshotThumb";
+import type { Gallery, GalleryItem } from "@/lib/galleries";
+import {
+  type RestoreResult,
+  type Snapshot,
+  type SnapshotDiff,
+  diffSnapshot,
+  isUnchanged,
+} from "@/lib/snapshots";
+import { cls } from "@/lib/utils";
+
+type Props = {
+  snapshots: Snapshot[];
+  // the gallery now, with edits not yet written
+  gallery: Pick<Gallery, "canvas">;
+  items: GalleryItem[];
+  onSave: (name: string) => Promise<void>;
+  onRestore: (snapshot: Snapshot) => Promise<RestoreResult>;
+  onDelete: (snapshot: Snapshot) => Promise<void>;
+};
+
+const NAME_MAX = 120;
+
+// "2 changed · 1 added" since the snapshot
+function changeSummary(d: SnapshotDiff) {
+  if (isUnchanged(d)) return "Same as now";
+  const parts = [
+    d.changed.length && `${d.changed.length} changed`,
+    d.added.length && `${d.added.length} added`,
+    d.removed.length && `${d.removed.length} removed`,
+    d.canvasChanged && "canvas resized",
+  ];
+  return `Since then: ${parts.filter(Boolean).join(" · ")}`;
+}
+
+function when(s: Snapshot) {
+  // a pending server timestamp: written a moment ago
+  return s.createdAt ? s.createdAt.toDate().toLocaleString() : "Just now";
+}
+
+// Versions of the arrangement: name one, compare any with now, restore it
+export default function SnapshotPanel({
+  snapshots,
+  gallery,
+  items,
+  onSave,
+  onRestore,
+  onDelete,
+}: Props) {
+  const [name, setName] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = snapshots.find((s) => s.id === selectedId) ?? null;
+  const diff = selected && diffSnapshot(selected, gallery, items);
+  const busy = status !== null;
+
+  const run = async (label: string, task: () => Promise<string | null>) => {
+    setError(null);
+    setNotice(null);
+    setStatus(`${label}…`);
+    try {
+      setNotice(await task());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    void run("Saving", async () => {
+      await onSave(trimmed);
+      setName("");
+      return `Saved “${trimmed}”.`;
+    });
+  };
+
+  const restore = (s: Snapshot) => {
+    if (!confirm(`Restore “${s.name}”? Images added since are taken off the canvas.`)) return;
+    void run("Restoring", async () => {
+      const { missing } = await onRestore(s);
+      setSelectedId(null);
+      const lost = missing.length
+        ? ` ${missing.length} image(s) couldn’t come back, their files are deleted: ` +
+          `${missing.join(", ")}.`
+        : "";
+      return `Restored “${s.name}”.${lost} The arrangement before is kept as a snapshot.`;
+    });
+  };
+
+  const remove = (s: Snapshot) => {
+    if (!confirm(`Delete the snapshot “${s.name}”?`)) return;
+    void run("Deleting", async () => {
+      await onDelete(s);
+      setSelectedId(null);
+      return null;
+    });
+  };
+
+  const button = cls(
+    "px-3 py-1 rounded-xl border text-sm",
+    busy && "opacity-50 cursor-not-allowed"
+  );
+
+  return (
+    <div className="grid gap-3 text-sm">
+      <form onSubmit={onSubmit} className="flex gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={NAME_MAX}
+          placeholder="Name this version"
+          className="flex-1 min-w-0 px-2 py-1 rounded-lg border"
+          aria-label="Snapshot name"
+        />
+        <button type="submit" disabled={busy || !name.trim()} className={button}>
+          Save snapshot
+        </button>
+      </form>
+      <p className="text-xs opacity-60">Every Save also records one automatically.</p>
+
+      {status && <p className="opacity-70">{status}</p>}
+      {notice && <p className="text-green-700">{notice}</p>}
+      {error && <p className="text-red-600">{error}</p>}
+
+      {selected && diff && (
+        <div className="grid gap-2 p-2 rounded-xl border">
+          <div className="flex items-center gap-2">
+            <span className="flex-1 font-medium truncate" title={selected.name}>
+              {selected.name}
+            </span>
+            <button type="button" onClick={() => setSelectedId(null)} aria-label="Close">
+              ✕
+            </button>
+          </div>
+          <SnapshotThumb snapshot={selected} width={264} compare={{ gallery, items, diff }} />
+          <p className="text-xs opacity-70">{changeSummary(diff)}</p>
+          <ul className="flex flex-wrap gap-x-3 text-xs opacity-70">
+            <li>
+              <span className="inline-block w-3 h-3 mr-1 align-middle outline outline-2 outline-amber-500" />
+              changed (dashed: where it is now)
+            </li>
+            <li>
+              <span className="inline-block w-3 h-3 mr-1 align-middle border-2 border-dashed border-green-600" />
+              added since
+            </li>
+            <li>
+              <span className="inline-block w-3 h-3 mr-1 align-middle outline outline-2 outline-red-500" />
+              removed since
+            </li>
+          </ul>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              disabled={busy || isUnchanged(diff)}
+              onClick={() => restore(selected)}
+              className={cls(button, "bg-black text-white", isUnchanged(diff) && "opacity-50")}
+            >
+              Restore this version
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => remove(selected)}
+              className={cls(button, "ml-auto")}
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      )}
+
+      {snapshots.length === 0 ? (
+        <p className="opacity-70">No versions yet.</p>
+      ) : (
+        <ul className="grid gap-1 max-h-96 overflow-auto">
+          {snapshots.map((s) => (
+            <li key={s.id}>
+              <button
+                type="button"
+                onClick={() => setSelectedId(s.id)}
+                aria-pressed={s.id === selectedId}
+                className={cls(
+                  "flex w-full items-center gap-2 p-1 rounded-lg text-left hover:bg-neutral-100",
+                  s.id === selectedId && "bg-neutral-100"
+                )}
+              >
+                <SnapshotThumb snapshot={s} width={72} />
+                <span className="grid min-w-0">
+                  <span className="truncate">{s.name}</span>
+                  <span className="text-xs opacity-60">
+                    {when(s)} · {Object.keys(s.items).length} image(s)
+                    {s.auto && " · auto"}
+                  </span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
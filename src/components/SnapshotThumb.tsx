@@ -0,0 +1,82 @@
+// components/SnapshotThumb.tsx
+import React from "react";
+import EditedImage from "@/components/EditedImage";
+import { canvasOf } from "@/lib/canvas";
+import type { Gallery, GalleryItem } from "@/lib/galleries";
+import type { Layout } from "@/lib/layout";
+import { stackOrder } from "@/lib/layers";
+import { type Snapshot, type SnapshotDiff, snapshotRect } from "@/lib/snapshots";
+import { cls } from "@/lib/utils";
+
+type Props = {
+  snapshot: Pick<Snapshot, "canvas" | "items">;
+  // px; the height follows the snapshot's canvas
+  width: number;
+  // outline what changed between the snapshot and the gallery now
+  compare?: { gallery: Pick<Gallery, "canvas">; items: GalleryItem[]; diff: SnapshotDiff };
+};
+
+const pct = (v: number) => `${v * 100}%`;
+
+const rectStyle = (r: Layout): React.CSSProperties => ({
+  left: pct(r.x),
+  top: pct(r.y),
+  width: pct(r.w),
+  height: pct(r.h),
+});
+
+// A snapshot's base layout in miniature, drawn with the items' thumbnails
+export default function SnapshotThumb({ snapshot, width, compare }: Props) {
+  const canvas = canvasOf(snapshot, "base");
+  const list = Object.entries(snapshot.items);
+  const n = list.length;
+  const layers = stackOrder(list.map(([id, it], i) => ({ id, z: it.z ?? i - n, it })));
+  const changed = new Set(compare?.diff.changed);
+  const removed = new Set(compare?.diff.removed);
+  const added = new Set(compare?.diff.added);
+  // where changed and added items are now, drawn over the snapshot
+  const now = (compare?.items ?? []).flatMap((it) =>
+    it.id && (changed.has(it.id) || added.has(it.id))
+      ? [{ id: it.id, added: added.has(it.id), rect: snapshotRect(it, compare?.gallery ?? {}) }]
+      : []
+  );
+
+  return (
+    <div
+      className="relative overflow-hidden rounded-md border bg-neutral-50"
+      style={{ width, height: (width * canvas.h) / canvas.w }}
+      aria-hidden
+    >
+      {layers.map(({ id, it }) => (
+        <div
+          key={id}
+          className={cls(
+            "absolute overflow-hidden bg-neutral-200",
+            changed.has(id) && "outline outline-2 outline-amber-500",
+            removed.has(id) && "outline outline-2 outline-red-500 opacity-60"
+          )}
+          style={rectStyle(snapshotRect(it, snapshot))}
+        >
+          <EditedImage
+            src={it.thumbUrl || it.url}
+            edits={it.edits}
+            loading="lazy"
+            draggable={false}
+            // files of removed items may be gone
+            onError={(e) => (e.currentTarget.style.visibility = "hidden")}
+          />
+        </div>
+      ))}
+      {now.map((x) => (
+        <div
+          key={x.id}
+          className={cls(
+            "absolute border-2 border-dashed",
+            x.added ? "border-green-600 bg-green-500/20" : "border-amber-500"
+          )}
+          style={rectStyle(x.rect)}
+        />
+      ))}
+    </div>
+  );
+}
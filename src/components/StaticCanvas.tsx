@@ -0,0 +1,94 @@
+// components/StaticCanvas.tsx
+// Read-only canvas for the public page. Server-rendered: layouts are percentages of the
+// canvas box, so it scales with the page without any script.
+import React from "react";
+import EditedImage from "@/components/EditedImage";
+import ItemCaption from "@/components/ItemCaption";
+import { type Breakpoint, canvasOf, layoutAt, normalize } from "@/lib/canvas";
+import { type CaptionStyle, type GalleryItem, altText } from "@/lib/galleries";
+import { storedWidths } from "@/lib/images";
+import type { SharedGallery, SharedItem } from "@/lib/share";
+import { cls } from "@/lib/utils";
+
+// Widest the canvas is drawn (the page's max-w-7xl minus padding)
+const MAX_CANVAS_PX = 1216;
+
+const pct = (v: number) => `${(v * 100).toFixed(3)}%`;
+
+// Thumbnail and full-size variants, so the browser downloads only what the tile needs
+function imageProps(it: GalleryItem, tileFraction: number) {
+  // a crop or zoom draws the image wider than its tile
+  const stretch = it.edits ? it.edits.zoom / Math.min(it.edits.crop.w, it.edits.crop.h) : 1;
+  const widthFraction = tileFraction * stretch;
+  const sizes = `(min-width: ${MAX_CANVAS_PX}px) ${Math.ceil(widthFraction * MAX_CANVAS_PX)}px, ${Math.ceil(widthFraction * 100)}vw`;
+  if (!it.originalW || !it.originalH || !it.thumbUrl || it.thumbUrl === it.url) {
+    return { src: it.thumbUrl || it.url };
+  }
+  const widths = storedWidths(it.originalW, it.originalH);
+  return {
+    src: it.thumbUrl,
+    srcSet: `${it.thumbUrl} ${widths.thumb}w, ${it.url} ${widths.full}w`,
+    sizes,
+    width: widths.thumb,
+    height: Math.round((widths.thumb * it.originalH) / it.originalW),
+  };
+}
+
+export default function StaticCanvas({
+  gallery,
+  items,
+  breakpoint,
+  captionStyle,
+  className,
+}: {
+  gallery: SharedGallery;
+  items: SharedItem[];
+  breakpoint: Breakpoint;
+  captionStyle: CaptionStyle;
+  className?: string;
+}) {
+  const canvas = canvasOf(gallery, breakpoint);
+
+  return (
+    <div
+      className={cls("relative isolate w-full rounded-2xl border bg-white", className)}
+      style={{ aspectRatio: `${canvas.w} / ${canvas.h}` }}
+    >
+      {items.map((it, i) => {
+        const l = normalize(layoutAt(it, breakpoint, gallery), canvas);
+        return (
+          <figure
+            key={it.id}
+            className="absolute m-0"
+            style={{
+              left: pct(l.x),
+              top: pct(l.y),
+              width: pct(l.w),
+              zIndex: it.z ?? i - items.length,
+            }}
+            title={it.title ?? undefined}
+          >
+            {/* padding-top is relative to the figure's width, which keeps the tile's shape */}
+            <div style={{ paddingTop: pct((l.h * canvas.h) / (l.w * canvas.w)) }} className="relative">
+              <a
+                href={`?item=${it.id}`}
+                data-lightbox-item={it.id}
+                className="group absolute inset-0 block rounded-xl overflow-hidden shadow border cursor-zoom-in"
+              >
+                <EditedImage
+                  {...imageProps(it, l.w)}
+                  alt={altText(it)}
+                  edits={it.edits}
+                  loading={i < 6 ? "eager" : "lazy"}
+                  decoding="async"
+                />
+                {captionStyle !== "below" && <ItemCaption meta={it} captionStyle={captionStyle} />}
+              </a>
+            </div>
+            {captionStyle === "below" && <ItemCaption meta={it} captionStyle="below" />}
+          </figure>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+// components/UploadStatusBar.tsx
+"use client";
+import React from "react";
+import { type UploadState, isUploadActive } from "@/lib/uploads";
+
+const UPLOAD_LABELS: Record<UploadState["status"], string> = {
+  queued: "Waiting…",
+  processing: "Optimizing…",
+  uploading: "Uploading…",
+  saving: "Saving…",
+  error: "Failed",
+  canceled: "Canceled",
+};
+
+// Progress of a preview's upload along its bottom edge, with Cancel or Retry
+export default function UploadStatusBar({
+  upload,
+  onCancel,
+  onRetry,
+}: {
+  upload: UploadState;
+  onCancel: () => void;
+  onRetry: () => void;
+}) {
+  const active = isUploadActive(upload);
+  const label =
+    upload.status === "uploading"
+      ? `${Math.round(upload.progress * 100)}%`
+      : UPLOAD_LABELS[upload.status];
+
+  return (
+    <div className="absolute inset-x-0 bottom-0 p-2 bg-black/60 text-white text-xs grid gap-1">
+      <div className="flex items-center gap-2">
+        <span className="flex-1 truncate" title={upload.error}>
+          {label}
+        </span>
+        {active ? (
+          <button type="button" onClick={onCancel} tabIndex={-1} className="underline">
+            Cancel
+          </button>
+        ) : (
+          <button type="button" onClick={onRetry} tabIndex={-1} className="underline">
+            Retry
+          </button>
+        )}
+      </div>
+      {active && (
+        <div className="h-1 rounded bg-white/30 overflow-hidden">
+          <div
+            className="h-full bg-white transition-[width]"
+            style={{ width: `${upload.progress * 100}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
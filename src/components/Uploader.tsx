@@ -1,4 +1,12 @@
+// components/Uploader.tsx
 // ---- 5) Upload component (preview first, save on click) ----
+"use client";
+import React, { useEffect, useRef, useState } from "react";
+import { uploadItemImage } from "@/lib/galleries";
+import { processImage } from "@/lib/images";
+import { useGalleryRepository } from "@/lib/repository/context";
+import { readImageDims } from "@/lib/utils";
+
 type PendingFile = {
   file: File;
   previewUrl: string;
@@ -6,8 +14,11 @@ type PendingFile = {
   h?: number;
 };
 
-const Uploader: React.FC<{ onUploaded?: () => void }> = ({ onUploaded }) => {
-  const { db, storage } = ensureFirebase();
+const Uploader: React.FC<{ galleryId: string; onUploaded?: () => void }> = ({
+  galleryId,
+  onUploaded,
+}) => {
+  const repo = useGalleryRepository();
   const [pending, setPending] = useState<PendingFile[]>([]);
   const [isSaving, setIsSaving] = useState(false);
   const inputRef = useRef<HTMLInputElement | null>(null);
@@ -28,7 +39,7 @@ const Uploader: React.FC<{ onUploaded?: () => void }> = ({ onUploaded }) => {
     const entries: PendingFile[] = [];
     for (const f of files) {
       const previewUrl = URL.createObjectURL(f);
-      const dims = await readImageDims(f); // from your helpers
+      const dims = await readImageDims(f);
       entries.push({ file: f, previewUrl, w: dims?.w, h: dims?.h });
     }
 
@@ -52,19 +63,17 @@ const Uploader: React.FC<{ onUploaded?: () => void }> = ({ onUploaded }) => {
     setIsSaving(true);
     try {
       for (const p of pending) {
-        // 1) Upload to Storage
-        const key = `galleries/default/${Date.now()}_${p.file.name}`;
-        const ref = storageRef(storage, key);
-        await uploadBytes(ref, p.file, { contentType: p.file.type });
-        const url = await getDownloadURL(ref);
+        // 1) Optimize, then upload full size + thumbnail to Storage
+        const stored = await uploadItemImage(repo, galleryId, await processImage(p.file));
 
         // 2) Write Firestore doc
-        await addDoc(collection(db, "galleries", "default", "items"), {
-          url,
+        await repo.addItem(galleryId, {
+          ...stored,
           fileName: p.file.name,
-          w: p.w,
-          h: p.h,
-          createdAt: serverTimestamp(),
+          x: 0,
+          y: 0,
+          w: p.w ?? 260,
+          h: p.h ?? 260,
         });
       }
 
@@ -147,3 +156,5 @@ const Uploader: React.FC<{ onUploaded?: () => void }> = ({ onUploaded }) => {
     </div>
   );
 };
+
+export default Uploader;
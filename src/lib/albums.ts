@@ -0,0 +1,35 @@
+// lib/albums.ts
+// Albums: named sets of a gallery's saved items that the canvas can be narrowed to, like
+// a filter that is picked by hand. An album only lists item ids; the items stay where
+// they are, and one item can be in any number of albums.
+import type { Timestamp } from "firebase/firestore";
+import type { GalleryItem } from "@/lib/galleries";
+
+/* -------------------- Types -------------------- */
+// galleries/{galleryId}/albums/{albumId}
+export type Album = {
+  id: string;
+  name: string;
+  // in the order they were added; ids of items deleted since are skipped when shown
+  itemIds: string[];
+  createdBy: string | null;
+  createdAt?: Timestamp | null;
+};
+
+export type NewAlbum = Omit<Album, "id" | "createdAt">;
+
+// The security rules turn away longer lists
+export const MAX_ALBUM_ITEMS = 1000;
+
+/* -------------------- Contents -------------------- */
+// The album's items still in the gallery, in the order of `items`
+export function albumItems(album: Pick<Album, "itemIds">, items: GalleryItem[]) {
+  const ids = new Set(album.itemIds);
+  return items.filter((it) => it.id && ids.has(it.id));
+}
+
+// Why `itemIds` can't go into the album, or null when they can
+export function albumRoomFor(album: Pick<Album, "itemIds">, itemIds: string[]) {
+  const size = new Set([...album.itemIds, ...itemIds]).size;
+  return size > MAX_ALBUM_ITEMS ? `An album holds up to ${MAX_ALBUM_ITEMS} images` : null;
+}
@@ -0,0 +1,97 @@
+// lib/auth/context.tsx
+"use client";
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { getAuthService } from "./index";
+import type { AuthService, AuthUser } from "./types";
+
+type AuthState = {
+  user: AuthUser | null;
+  // true until the first auth state is known
+  loading: boolean;
+  error: string | null;
+  sendSignInLink(email: string): Promise<void>;
+  signInWithGoogle(): Promise<void>;
+  signOut(): Promise<void>;
+};
+
+const AuthContext = createContext<AuthState | null>(null);
+
+// where the address a link was sent to waits for the link to come back
+const EMAIL_KEY = "gallery:sign-in-email";
+// query params Firebase adds to email sign-in links
+const LINK_PARAMS = ["apiKey", "oobCode", "mode", "lang", "continueUrl", "tenantId"];
+
+const messageOf = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+// Signed-in account for everything below it. `service` overrides the env-selected one (e.g. in tests).
+export function AuthProvider({
+  service,
+  children,
+}: {
+  service?: AuthService;
+  children: React.ReactNode;
+}) {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // resolved lazily: Firebase Auth only runs in the browser
+  const auth = useCallback(() => service ?? getAuthService(), [service]);
+
+  useEffect(() => {
+    const svc = auth();
+    const href = window.location.href;
+    if (svc.isSignInLink(href)) {
+      // opened on another device: the address isn't remembered, so ask again
+      const email =
+        localStorage.getItem(EMAIL_KEY) ??
+        window.prompt("Confirm the email address the sign-in link was sent to");
+      if (email) {
+        svc
+          .completeSignInLink(email, href)
+          .then(() => {
+            localStorage.removeItem(EMAIL_KEY);
+            const url = new URL(href);
+            LINK_PARAMS.forEach((p) => url.searchParams.delete(p));
+            window.history.replaceState(null, "", url);
+          })
+          .catch((err) => setError(messageOf(err)));
+      }
+    }
+    return svc.subscribe((u) => {
+      setUser(u);
+      setLoading(false);
+    });
+  }, [auth]);
+
+  const value = useMemo<AuthState>(() => {
+    const attempt = async (fn: () => Promise<void>) => {
+      setError(null);
+      try {
+        await fn();
+      } catch (err) {
+        setError(messageOf(err));
+        throw err;
+      }
+    };
+    return {
+      user,
+      loading,
+      error,
+      sendSignInLink: (email) =>
+        attempt(async () => {
+          await auth().sendSignInLink(email, window.location.href);
+          localStorage.setItem(EMAIL_KEY, email);
+        }),
+      signInWithGoogle: () => attempt(() => auth().signInWithGoogle()),
+      signOut: () => attempt(() => auth().signOut()),
+    };
+  }, [auth, user, loading, error]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth(): AuthState {
+  const ctx = useContext(AuthContext);
+  if (!ctx) throw new Error("useAuth must be used inside <AuthProvider>");
+  return ctx;
+}
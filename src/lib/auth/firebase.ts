@@ -0,0 +1,45 @@
+// lib/auth/firebase.ts
+import {
+  type Auth,
+  type User,
+  GoogleAuthProvider,
+  isSignInWithEmailLink,
+  onAuthStateChanged,
+  sendSignInLinkToEmail,
+  signInWithEmailLink,
+  signInWithPopup,
+  signOut,
+} from "firebase/auth";
+import type { AuthService, AuthUser } from "./types";
+
+function toAuthUser(u: User): AuthUser {
+  return { uid: u.uid, email: u.email?.toLowerCase() ?? null, displayName: u.displayName };
+}
+
+export function createFirebaseAuthService(auth: Auth): AuthService {
+  return {
+    subscribe(cb) {
+      return onAuthStateChanged(auth, (u) => cb(u && toAuthUser(u)));
+    },
+
+    async sendSignInLink(email, continueUrl) {
+      await sendSignInLinkToEmail(auth, email, { url: continueUrl, handleCodeInApp: true });
+    },
+
+    isSignInLink(url) {
+      return isSignInWithEmailLink(auth, url);
+    },
+
+    async completeSignInLink(email, url) {
+      await signInWithEmailLink(auth, email, url);
+    },
+
+    async signInWithGoogle() {
+      await signInWithPopup(auth, new GoogleAuthProvider());
+    },
+
+    async signOut() {
+      await signOut(auth);
+    },
+  };
+}
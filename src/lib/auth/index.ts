@@ -0,0 +1,21 @@
+// lib/auth/index.ts
+import { ensureFirebaseAuth } from "@/lib/firebase";
+import { createFirebaseAuthService } from "./firebase";
+import { createMemoryAuthService } from "./memory";
+import type { AuthService } from "./types";
+
+export type { AuthService, AuthUser } from "./types";
+export { createFirebaseAuthService, createMemoryAuthService };
+
+let defaultService: AuthService | null = null;
+
+// Follows the repository: NEXT_PUBLIC_GALLERY_REPOSITORY=memory signs in offline too
+export function getAuthService(): AuthService {
+  if (!defaultService) {
+    defaultService =
+      process.env.NEXT_PUBLIC_GALLERY_REPOSITORY === "memory"
+        ? createMemoryAuthService()
+        : createFirebaseAuthService(ensureFirebaseAuth());
+  }
+  return defaultService;
+}
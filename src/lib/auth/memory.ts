@@ -0,0 +1,50 @@
+// lib/auth/memory.ts
+import type { AuthService, AuthUser } from "./types";
+
+// Offline sign-in for the memory repository: there is no mailbox, so asking for
+// a link signs in straight away. Nothing survives a reload.
+export function createMemoryAuthService(): AuthService & {
+  signInAs(user: AuthUser | null): void;
+} {
+  let current: AuthUser | null = null;
+  const listeners = new Set<(user: AuthUser | null) => void>();
+
+  const signInAs = (user: AuthUser | null) => {
+    current = user;
+    queueMicrotask(() => listeners.forEach((cb) => cb(current)));
+  };
+  const asEmail = (email: string): AuthUser => {
+    const address = email.trim().toLowerCase();
+    return { uid: `mem-${address}`, email: address, displayName: null };
+  };
+
+  return {
+    signInAs,
+
+    subscribe(cb) {
+      listeners.add(cb);
+      queueMicrotask(() => listeners.has(cb) && cb(current));
+      return () => void listeners.delete(cb);
+    },
+
+    async sendSignInLink(email) {
+      signInAs(asEmail(email));
+    },
+
+    isSignInLink() {
+      return false;
+    },
+
+    async completeSignInLink(email) {
+      signInAs(asEmail(email));
+    },
+
+    async signInWithGoogle() {
+      signInAs({ ...asEmail("local@example.com"), displayName: "Local user" });
+    },
+
+    async signOut() {
+      signInAs(null);
+    },
+  };
+}
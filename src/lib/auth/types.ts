@@ -0,0 +1,26 @@
+// lib/auth/types.ts
+import type { Unsubscribe } from "@/lib/repository/types";
+
+// The signed-in account, as far as galleries care
+export type AuthUser = {
+  uid: string;
+  // lowercased, as editors and viewers are invited by it
+  email: string | null;
+  displayName: string | null;
+};
+
+// Sign-in for the app; swap implementations to run against Firebase Auth, its
+// emulator or nothing at all (memory)
+export interface AuthService {
+  // called with the current user once known, then on every change
+  subscribe(cb: (user: AuthUser | null) => void): Unsubscribe;
+
+  /* email link */
+  // mails a one-time link that signs in when opened at `continueUrl`
+  sendSignInLink(email: string, continueUrl: string): Promise<void>;
+  isSignInLink(url: string): boolean;
+  completeSignInLink(email: string, url: string): Promise<void>;
+
+  signInWithGoogle(): Promise<void>;
+  signOut(): Promise<void>;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { AUTO_LAYOUT_MODES, type AutoItem, autoLayout } from "@/lib/autolayout";
+import { type Layout, intersects } from "@/lib/layout";
+
+const canvas = { w: 1200, h: 800 };
+
+const items: AutoItem[] = [1.5, 0.75, 1, 2, 0.5, 1.33, 1, 1.78].map((aspect, i) => ({
+  id: `i${i}`,
+  aspect,
+}));
+
+const overlaps = (layouts: Layout[]) =>
+  layouts.some((a, i) => layouts.slice(i + 1).some((b) => intersects(a, b)));
+
+describe("autoLayout", () => {
+  it("places nothing when there is nothing to place", () => {
+    expect(autoLayout("grid", [], { canvas, gutter: 8, obstacles: [] })).toEqual({});
+  });
+
+  it.each(AUTO_LAYOUT_MODES)("%s: places every item on the canvas, apart", (mode) => {
+    const out = autoLayout(mode, items, { canvas, gutter: 8, obstacles: [] });
+    expect(Object.keys(out).sort()).toEqual(items.map((it) => it.id).sort());
+    const placed = Object.values(out);
+    expect(overlaps(placed)).toBe(false);
+    for (const l of placed) {
+      expect(l.x).toBeGreaterThanOrEqual(0);
+      expect(l.x + l.w).toBeLessThanOrEqual(canvas.w);
+      expect(l.y + l.h).toBeLessThanOrEqual(canvas.h);
+      expect(Number.isInteger(l.x) && Number.isInteger(l.w)).toBe(true);
+    }
+  });
+
+  it.each(AUTO_LAYOUT_MODES)("%s: keeps clear of obstacles", (mode) => {
+    const obstacle = { x: 0, y: 0, w: 600, h: 300 };
+    const out = autoLayout(mode, items, { canvas, gutter: 8, obstacles: [obstacle] });
+    expect(Object.values(out).some((l) => intersects(l, obstacle))).toBe(false);
+  });
+
+  it("masonry: gives every image the column width and its own aspect", () => {
+    const out = autoLayout("masonry", items, { canvas, gutter: 0, obstacles: [] });
+    const widths = new Set(Object.values(out).map((l) => l.w));
+    expect(widths.size).toBe(1);
+    expect(out.i3.h).toBeCloseTo(out.i3.w / 2, -1);
+  });
+
+  it("justified: fills full rows edge to edge at one height", () => {
+    const gutter = 10;
+    const out = autoLayout("justified", items, { canvas, gutter, obstacles: [] });
+    const first = Object.values(out).filter((l) => l.y === out.i0.y);
+    expect(new Set(first.map((l) => l.h)).size).toBe(1);
+    const right = Math.max(...first.map((l) => l.x + l.w));
+    expect(Math.abs(right - (canvas.w - gutter))).toBeLessThanOrEqual(first.length);
+  });
+});
@@ -0,0 +1,203 @@
+// lib/autolayout.ts
+// One-click arrangements computed from each image's aspect ratio. Locked or untouched
+// items are obstacles: nothing is placed over them.
+import type { CanvasSize } from "@/lib/canvas";
+import { type Layout, intersects } from "@/lib/layout";
+
+export type AutoLayoutMode = "masonry" | "justified" | "grid" | "pack";
+
+export const AUTO_LAYOUT_MODES: AutoLayoutMode[] = ["masonry", "justified", "grid", "pack"];
+
+export const AUTO_LAYOUT_LABELS: Record<AutoLayoutMode, string> = {
+  masonry: "Masonry",
+  justified: "Justified rows",
+  grid: "Grid",
+  pack: "Fill canvas",
+};
+
+export const GUTTERS = [0, 8, 16, 24, 32];
+
+// An item to place: width / height of its image
+export type AutoItem = { id: string; aspect: number };
+
+export type AutoLayoutOptions = {
+  canvas: CanvasSize;
+  gutter: number;
+  // areas to keep clear (locked items, items not being arranged)
+  obstacles: Layout[];
+};
+
+// Each engine is retried denser and denser until the result fits the canvas height
+const MAX_STEPS = 16;
+
+type Engine = (items: AutoItem[], opts: AutoLayoutOptions, step: number) => Record<string, Layout> | null;
+
+const inflate = (l: Layout, by: number): Layout => ({
+  x: l.x - by,
+  y: l.y - by,
+  w: l.w + 2 * by,
+  h: l.h + 2 * by,
+});
+
+// Lowest y ≥ `rect.y` where `rect` clears every obstacle (gutter included)
+function dropBelow(rect: Layout, obstacles: Layout[], gutter: number): Layout {
+  let r = rect;
+  for (;;) {
+    const hit = obstacles.filter((o) => intersects(inflate(o, gutter), r));
+    if (!hit.length) return r;
+    r = { ...r, y: Math.max(...hit.map((o) => o.y + o.h + gutter)) };
+  }
+}
+
+function columnWidth(opts: AutoLayoutOptions, columns: number) {
+  return (opts.canvas.w - opts.gutter * (columns + 1)) / columns;
+}
+
+// Shortest column first, each image at the column width
+const masonry: Engine = (items, opts, step) => {
+  const { gutter, obstacles } = opts;
+  const columns = Math.max(2, Math.round(opts.canvas.w / 320)) + step;
+  const colW = columnWidth(opts, columns);
+  if (colW <= 0) return null;
+  const colY = Array.from({ length: columns }, () => gutter);
+  const out: Record<string, Layout> = {};
+  for (const it of items) {
+    const col = colY.indexOf(Math.min(...colY));
+    const rect = dropBelow(
+      { x: gutter + col * (colW + gutter), y: colY[col], w: colW, h: colW / it.aspect },
+      obstacles,
+      gutter
+    );
+    out[it.id] = rect;
+    colY[col] = rect.y + rect.h + gutter;
+  }
+  return out;
+};
+
+// Rows filled edge to edge at a common height, like Flickr; the last row keeps the target
+const justified: Engine = (items, opts, step) => {
+  const { gutter, obstacles } = opts;
+  const target = (opts.canvas.w / 4.5) * Math.pow(0.85, step);
+  const avail = opts.canvas.w - 2 * gutter;
+  const out: Record<string, Layout> = {};
+  let y = gutter;
+  let row: AutoItem[] = [];
+
+  const flush = (full: boolean) => {
+    if (!row.length) return;
+    const ratio = row.reduce((n, it) => n + it.aspect, 0);
+    const h = full ? (avail - gutter * (row.length - 1)) / ratio : target;
+    // a row never straddles an obstacle; it moves down below it instead
+    y = dropBelow({ x: gutter, y, w: avail, h }, obstacles, gutter).y;
+    let x = gutter;
+    for (const it of row) {
+      out[it.id] = { x, y, w: h * it.aspect, h };
+      x += h * it.aspect + gutter;
+    }
+    y += h + gutter;
+    row = [];
+  };
+
+  for (const it of items) {
+    row.push(it);
+    const width = row.reduce((n, r) => n + r.aspect * target, 0) + gutter * (row.length - 1);
+    if (width >= avail) flush(true);
+  }
+  flush(false);
+  return out;
+};
+
+// Uniform cells shaped like the typical image; cells over an obstacle are skipped
+const grid: Engine = (items, opts, step) => {
+  const { gutter, obstacles } = opts;
+  const columns = Math.max(2, Math.round(opts.canvas.w / 280)) + step;
+  const cellW = columnWidth(opts, columns);
+  if (cellW <= 0) return null;
+  const aspects = items.map((it) => it.aspect).sort((a, b) => a - b);
+  const cellH = cellW / aspects[Math.floor(aspects.length / 2)];
+  const out: Record<string, Layout> = {};
+  let cell = 0;
+  for (const it of items) {
+    for (;;) {
+      const rect = {
+        x: gutter + (cell % columns) * (cellW + gutter),
+        y: gutter + Math.floor(cell / columns) * (cellH + gutter),
+        w: cellW,
+        h: cellH,
+      };
+      cell++;
+      if (obstacles.some((o) => intersects(inflate(o, gutter), rect))) continue;
+      out[it.id] = rect;
+      break;
+    }
+  }
+  return out;
+};
+
+// Bin packing: equal-area images placed top-left first, shrinking until all of them fit
+const pack: Engine = (items, opts, step) => {
+  const { canvas, gutter, obstacles } = opts;
+  const used = obstacles.reduce((n, o) => n + o.w * o.h, 0);
+  const free = Math.max(canvas.w * canvas.h - used, 0);
+  const area = ((free * 0.75) / items.length) * Math.pow(0.9, step);
+  const placed: Layout[] = [];
+  const out: Record<string, Layout> = {};
+
+  const sized = items
+    .map((it) => ({ it, w: Math.sqrt(area * it.aspect), h: Math.sqrt(area / it.aspect) }))
+    .sort((a, b) => b.h - a.h);
+
+  for (const { it, w, h } of sized) {
+    const blockers = [...obstacles, ...placed];
+    const candidates = [
+      { x: gutter, y: gutter },
+      ...blockers.flatMap((b) => [
+        { x: b.x + b.w + gutter, y: Math.max(gutter, b.y) },
+        { x: Math.max(gutter, b.x), y: b.y + b.h + gutter },
+        { x: gutter, y: b.y + b.h + gutter },
+      ]),
+    ].sort((a, b) => a.y - b.y || a.x - b.x);
+
+    const spot = candidates.find(
+      (c) =>
+        c.x + w <= canvas.w - gutter &&
+        c.y + h <= canvas.h - gutter &&
+        !blockers.some((b) => intersects(inflate(b, gutter), { x: c.x, y: c.y, w, h }))
+    );
+    if (!spot) return null;
+    out[it.id] = { x: spot.x, y: spot.y, w, h };
+    placed.push(out[it.id]);
+  }
+  return out;
+};
+
+const ENGINES: Record<AutoLayoutMode, Engine> = { masonry, justified, grid, pack };
+
+function bottomOf(layouts: Record<string, Layout>) {
+  return Math.max(0, ...Object.values(layouts).map((l) => l.y + l.h));
+}
+
+function rounded(layouts: Record<string, Layout>) {
+  const out: Record<string, Layout> = {};
+  for (const [id, l] of Object.entries(layouts)) {
+    out[id] = { x: Math.round(l.x), y: Math.round(l.y), w: Math.round(l.w), h: Math.round(l.h) };
+  }
+  return out;
+}
+
+// New layouts for `items` (in the order given), as large as still fits the canvas
+export function autoLayout(
+  mode: AutoLayoutMode,
+  items: AutoItem[],
+  opts: AutoLayoutOptions
+): Record<string, Layout> {
+  if (!items.length) return {};
+  let last: Record<string, Layout> | null = null;
+  for (let step = 0; step < MAX_STEPS; step++) {
+    const result = ENGINES[mode](items, opts, step);
+    if (!result) continue;
+    last = result;
+    if (bottomOf(result) <= opts.canvas.h) break;
+  }
+  return last ? rounded(last) : {};
+}
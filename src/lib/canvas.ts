@@ -0,0 +1,127 @@
+// lib/canvas.ts
+// Canvas geometry shared by the editor and viewers. Item layouts are stored as
+// fractions of a canvas size declared per gallery, and drawn scaled to fit the viewport.
+import type { Gallery, GalleryItem, NewGalleryItem } from "@/lib/galleries";
+import { type Layout, pickLayout } from "@/lib/layout";
+
+export type CanvasSize = { w: number; h: number };
+
+// "base" is the layout everyone sees; the others are optional overrides
+export type Breakpoint = "base" | "mobile";
+export type OverrideBreakpoint = Exclude<Breakpoint, "base">;
+
+export const BREAKPOINTS: Breakpoint[] = ["base", "mobile"];
+
+export const BREAKPOINT_LABELS: Record<Breakpoint, string> = {
+  base: "Desktop",
+  mobile: "Mobile",
+};
+
+// Viewports up to this width get the mobile layout, when the gallery has one
+export const MOBILE_MAX_WIDTH = 640;
+
+export const DEFAULT_CANVAS: Record<Breakpoint, CanvasSize> = {
+  base: { w: 1200, h: 800 },
+  mobile: { w: 390, h: 844 },
+};
+
+export const CANVAS_PRESETS: Record<Breakpoint, Array<{ label: string; size: CanvasSize }>> = {
+  base: [
+    { label: "3:2", size: { w: 1200, h: 800 } },
+    { label: "16:9", size: { w: 1280, h: 720 } },
+    { label: "4:3", size: { w: 1200, h: 900 } },
+    { label: "1:1", size: { w: 1000, h: 1000 } },
+    { label: "3:4", size: { w: 900, h: 1200 } },
+    { label: "1:2 (long)", size: { w: 1000, h: 2000 } },
+  ],
+  mobile: [
+    { label: "Phone", size: { w: 390, h: 844 } },
+    { label: "9:16", size: { w: 450, h: 800 } },
+    { label: "1:2 (long)", size: { w: 400, h: 800 } },
+    { label: "1:3 (long)", size: { w: 400, h: 1200 } },
+  ],
+};
+
+export function canvasOf(gallery: Pick<Gallery, "canvas"> | null | undefined, bp: Breakpoint) {
+  return gallery?.canvas?.[bp] ?? DEFAULT_CANVAS[bp];
+}
+
+export function sameSize(a: CanvasSize, b: CanvasSize) {
+  return a.w === b.w && a.h === b.h;
+}
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+// Canvas units → fractions of the canvas
+export function normalize(l: Layout, canvas: CanvasSize): Layout {
+  return { x: l.x / canvas.w, y: l.y / canvas.h, w: l.w / canvas.w, h: l.h / canvas.h };
+}
+
+// Fractions of the canvas → canvas units
+export function denormalize(l: Layout, canvas: CanvasSize): Layout {
+  return {
+    x: round2(l.x * canvas.w),
+    y: round2(l.y * canvas.h),
+    w: round2(l.w * canvas.w),
+    h: round2(l.h * canvas.h),
+  };
+}
+
+// An item's own layout, in canvas units of the base canvas
+function baseLayoutOf(it: GalleryItem, canvas: CanvasSize): Layout {
+  const l = pickLayout(it);
+  if (it.units === "normalized") return denormalize(l, canvas);
+  // saved before layouts were normalized: editor pixels, roughly the default canvas
+  return denormalize(normalize(l, DEFAULT_CANVAS.base), canvas);
+}
+
+// Layout of an item at a breakpoint, in that breakpoint's canvas units. Without an
+// override the base layout is scaled to the breakpoint's width, keeping its shape.
+export function layoutAt(
+  it: GalleryItem,
+  bp: Breakpoint,
+  gallery: Pick<Gallery, "canvas"> | null | undefined
+): Layout {
+  const canvas = canvasOf(gallery, bp);
+  const own = bp === "base" ? null : it.layouts?.[bp];
+  if (own) return denormalize(own, canvas);
+  const base = canvasOf(gallery, "base");
+  const l = baseLayoutOf(it, base);
+  if (bp === "base") return l;
+  const k = canvas.w / base.w;
+  return { x: round2(l.x * k), y: round2(l.y * k), w: round2(l.w * k), h: round2(l.h * k) };
+}
+
+// Item fields that store a layout edited at a breakpoint
+export function layoutPatch(
+  l: Layout,
+  bp: Breakpoint,
+  gallery: Pick<Gallery, "canvas"> | null | undefined,
+  it?: Pick<GalleryItem, "layouts">
+): Partial<NewGalleryItem> {
+  const n = normalize(l, canvasOf(gallery, bp));
+  if (bp === "base") return { ...n, units: "normalized" };
+  return { layouts: { ...it?.layouts, [bp]: n } };
+}
+
+// Which layout a viewer of the given width should get
+export function breakpointFor(
+  viewportWidth: number,
+  gallery: Pick<Gallery, "canvas"> | null | undefined,
+  items: GalleryItem[]
+): Breakpoint {
+  // 0 = not measured yet (server render)
+  if (!viewportWidth || viewportWidth > MOBILE_MAX_WIDTH) return "base";
+  const hasMobile = !!gallery?.canvas?.mobile || items.some((it) => it.layouts?.mobile);
+  return hasMobile ? "mobile" : "base";
+}
+
+// Item fields that drop its own layout at a breakpoint, so the base layout applies again
+export function clearLayoutPatch(
+  it: Pick<GalleryItem, "layouts">,
+  bp: OverrideBreakpoint
+): Partial<NewGalleryItem> {
+  const layouts = { ...it.layouts };
+  delete layouts[bp];
+  return { layouts };
+}
@@ -0,0 +1,360 @@
+// lib/drafts.ts
+// Unsaved previews outlive the tab: their files and layout are kept in IndexedDB per
+// account and gallery, and optionally in Firestore to carry on from another device.
+import { useEffect, useRef, useState } from "react";
+import type { ImageEdits } from "@/lib/edits";
+import {
+  type ItemImage,
+  type ItemMeta,
+  deleteItemImage,
+  fetchItemImage,
+  pickMeta,
+  uploadItemImage,
+} from "@/lib/galleries";
+import type { GalleryRepository } from "@/lib/repository";
+import type { PendingFile, PendingFiles } from "@/lib/uploads";
+
+/* -------------------- Types -------------------- */
+// One preview as kept in a draft; the layout is in base canvas units, as edited
+export type DraftItem = {
+  id: string;
+  fileName: string;
+  hash: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  aspect: number;
+  z: number;
+  locked: boolean;
+  // the file's stored variants, once uploaded for a cloud draft
+  stored: ItemImage | null;
+  edits: ImageEdits | null;
+} & Required<ItemMeta>;
+
+// A draft on this device: items with their files
+export type LocalDraft = { savedAt: number; items: Array<DraftItem & { file: File }> };
+
+// galleries/{galleryId}/drafts/{uid}: only previews whose files are already stored
+export type CloudDraft = { savedAt: number; items: Array<DraftItem & { stored: ItemImage }> };
+
+// Wait before writing a draft after the previews change
+export const DRAFT_SAVE_DELAY = 1000;
+
+/* -------------------- IndexedDB -------------------- */
+const DB_NAME = "gallery-drafts";
+const DB_VERSION = 1;
+// draft records by key, and their files by `${key}/${itemId}` (written once each)
+const DRAFTS = "drafts";
+const FILES = "files";
+
+type DraftRecord = { savedAt: number; items: DraftItem[] };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(DRAFTS);
+        req.result.createObjectStore(FILES);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // let a later call try again (private windows may refuse IndexedDB)
+    dbPromise.catch(() => (dbPromise = null));
+  }
+  return dbPromise;
+}
+
+function result<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+const draftKey = (galleryId: string, uid: string) => `${uid}/${galleryId}`;
+
+function withoutFile(it: DraftItem & { file?: File }): DraftItem {
+  const copy = { ...it };
+  delete copy.file;
+  return copy;
+}
+
+// every file key under a draft
+const filesOf = (key: string) => IDBKeyRange.bound(`${key}/`, `${key}/\uffff`);
+
+export async function loadLocalDraft(galleryId: string, uid: string): Promise<LocalDraft | null> {
+  const key = draftKey(galleryId, uid);
+  const tx = (await openDb()).transaction([DRAFTS, FILES], "readonly");
+  const record = await result<DraftRecord | undefined>(tx.objectStore(DRAFTS).get(key));
+  if (!record?.items.length) return null;
+  const files = tx.objectStore(FILES);
+  const items = await Promise.all(
+    record.items.map(async (it) => {
+      const file = await result<File | undefined>(files.get(`${key}/${it.id}`));
+      return file ? { ...it, file } : null;
+    })
+  );
+  const found = items.filter((it) => it !== null);
+  return found.length ? { savedAt: record.savedAt, items: found } : null;
+}
+
+// Replaces the draft; files already kept are not written again
+export async function saveLocalDraft(galleryId: string, uid: string, draft: LocalDraft) {
+  const key = draftKey(galleryId, uid);
+  const tx = (await openDb()).transaction([DRAFTS, FILES], "readwrite");
+  const files = tx.objectStore(FILES);
+  const kept = new Set((await result(files.getAllKeys(filesOf(key)))).map(String));
+  const wanted = new Set(draft.items.map((it) => `${key}/${it.id}`));
+
+  kept.forEach((k) => !wanted.has(k) && files.delete(k));
+  for (const it of draft.items) {
+    if (!kept.has(`${key}/${it.id}`)) files.put(it.file, `${key}/${it.id}`);
+  }
+  const record: DraftRecord = { savedAt: draft.savedAt, items: draft.items.map(withoutFile) };
+  tx.objectStore(DRAFTS).put(record, key);
+  await done(tx);
+}
+
+export async function clearLocalDraft(galleryId: string, uid: string) {
+  const key = draftKey(galleryId, uid);
+  const tx = (await openDb()).transaction([DRAFTS, FILES], "readwrite");
+  tx.objectStore(DRAFTS).delete(key);
+  tx.objectStore(FILES).delete(filesOf(key));
+  await done(tx);
+}
+
+/* -------------------- Cloud drafts -------------------- */
+// Opting in uploads previews as they are added; the choice is remembered per browser
+const CLOUD_DRAFTS_KEY = "gallery:cloud-drafts";
+
+export function cloudDraftsEnabled() {
+  try {
+    return localStorage.getItem(CLOUD_DRAFTS_KEY) === "1";
+  } catch {
+    return false;
+  }
+}
+
+export function setCloudDraftsEnabled(on: boolean) {
+  try {
+    if (on) localStorage.setItem(CLOUD_DRAFTS_KEY, "1");
+    else localStorage.removeItem(CLOUD_DRAFTS_KEY);
+  } catch {
+    // storage blocked: the choice lasts for this page only
+  }
+}
+
+// The part of a draft another device can restore
+export function cloudDraftOf(draft: LocalDraft): CloudDraft {
+  return {
+    savedAt: draft.savedAt,
+    items: draft.items.flatMap((it) =>
+      it.stored ? [{ ...withoutFile(it), stored: it.stored }] : []
+    ),
+  };
+}
+
+// What a draft keeps of a preview
+export function draftItemOf(p: PendingFile): DraftItem & { file: File } {
+  return {
+    id: p.id,
+    file: p.file,
+    fileName: p.file.name,
+    hash: p.hash,
+    x: p.x,
+    y: p.y,
+    w: p.w,
+    h: p.h,
+    aspect: p.aspect,
+    z: p.z,
+    locked: !!p.locked,
+    stored: p.stored ?? p.upload?.stored ?? null,
+    edits: p.edits ?? null,
+    ...pickMeta(p),
+  };
+}
+
+type DraftOffer = { local: LocalDraft | null; cloud: CloudDraft | null };
+
+// Of a local and a cloud draft, the one to offer: the newer
+export function offeredDraft({ local, cloud }: DraftOffer) {
+  const fromCloud = !!cloud?.items.length && (!local || cloud.savedAt > local.savedAt);
+  return { draft: fromCloud ? cloud : local, fromCloud };
+}
+
+/* -------------------- Hook -------------------- */
+// Keeps the previews in `files` as a draft of the signed-in member (`uid`), on this
+// device and optionally in the account. A draft found on load is offered first; nothing
+// is written over it until the offer is answered.
+export function usePendingDraft(
+  repo: GalleryRepository,
+  galleryId: string,
+  uid: string | null,
+  enabled: boolean,
+  files: PendingFiles
+) {
+  const [offer, setOffer] = useState<DraftOffer | null>(null);
+  const [ready, setReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cloud, setCloud] = useState(false);
+  // previews being uploaded for the cloud draft
+  const uploads = useRef(new Set<string>());
+  const { pending, pendingRef } = files;
+
+  // Look for a draft of this gallery left by an earlier visit, here or on another device
+  useEffect(() => {
+    setReady(false);
+    setOffer(null);
+    if (!uid || !enabled) return;
+    setCloud(cloudDraftsEnabled());
+    let cancelled = false;
+    void Promise.all([
+      loadLocalDraft(galleryId, uid).catch(() => null),
+      repo.getDraft(galleryId, uid).catch(() => null),
+    ]).then(([local, cloud]) => {
+      if (cancelled) return;
+      if (local || cloud?.items.length) setOffer({ local, cloud });
+      else setReady(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [repo, galleryId, uid, enabled]);
+
+  // Upload a preview's variants for the cloud draft; they become the item's files on Save
+  const uploadForDraft = (p: PendingFile) => {
+    if (p.stored || p.upload || uploads.current.has(p.id)) return;
+    uploads.current.add(p.id);
+    void files
+      .processed(p)
+      .then((image) => uploadItemImage(repo, galleryId, image))
+      .then((stored) => {
+        // removed or being saved meanwhile: the files aren't needed any more
+        if (!pendingRef.current.some((x) => x.id === p.id && !x.upload)) {
+          return deleteItemImage(repo, stored);
+        }
+        files.setPending((prev) => prev.map((x) => (x.id === p.id ? { ...x, stored } : x)));
+      })
+      // the preview stays in the local draft; the next session tries again
+      .catch(() => {})
+      .finally(() => uploads.current.delete(p.id));
+  };
+
+  // Write the draft as the previews are now (an empty list clears it)
+  const save = async () => {
+    if (!uid || !enabled || !ready) return;
+    const list = pendingRef.current;
+    if (cloud) list.forEach(uploadForDraft);
+    const draft: LocalDraft = { savedAt: Date.now(), items: list.map(draftItemOf) };
+    try {
+      if (draft.items.length) await saveLocalDraft(galleryId, uid, draft);
+      else await clearLocalDraft(galleryId, uid);
+      if (cloud) {
+        if (draft.items.length) await repo.saveDraft(galleryId, uid, cloudDraftOf(draft));
+        else await repo.deleteDraft(galleryId, uid);
+      }
+      setError(null);
+    } catch (err) {
+      setError(`Draft not kept: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const saveRef = useRef(save);
+  useEffect(() => {
+    saveRef.current = save;
+  });
+  // a little after the previews last changed, and once more when leaving the page
+  useEffect(() => {
+    if (!ready) return;
+    const t = setTimeout(() => void saveRef.current(), DRAFT_SAVE_DELAY);
+    return () => clearTimeout(t);
+  }, [pending, ready, cloud]);
+  useEffect(() => () => void saveRef.current(), []);
+
+  // Turning cloud drafts off removes the account's copy; the local one stays
+  const setCloudDrafts = (on: boolean) => {
+    setCloud(on);
+    setCloudDraftsEnabled(on);
+    if (!on && uid) void repo.deleteDraft(galleryId, uid).catch(() => {});
+  };
+
+  // Bring the offered draft's previews back; the newer of the two drafts wins
+  const restore = async () => {
+    if (!offer) return;
+    const { local, cloud } = offer;
+    const { fromCloud } = offeredDraft(offer);
+    setError(null);
+    // carrying on from another device: keep the account's copy up to date from here too
+    if (fromCloud) setCloudDrafts(true);
+    try {
+      const items: Array<DraftItem & { file: File }> = fromCloud
+        ? await Promise.all(
+            (cloud?.items ?? []).map(async (it) => {
+              const blob = await fetchItemImage(it.stored.url, it.fileName);
+              return { ...it, file: new File([blob], it.fileName, { type: blob.type }) };
+            })
+          )
+        : (local?.items ?? []);
+      const restored: PendingFile[] = items.map((it) => ({
+        ...it,
+        previewUrl: files.previewOf(it.file),
+        stored: it.stored ?? undefined,
+      }));
+      // files uploaded for the draft that wasn't picked are nobody's
+      const kept = new Set(items.flatMap((it) => (it.stored ? [it.stored.url] : [])));
+      [...(local?.items ?? []), ...(cloud?.items ?? [])].forEach((it) => {
+        if (it.stored && !kept.has(it.stored.url)) {
+          kept.add(it.stored.url);
+          void deleteItemImage(repo, it.stored);
+        }
+      });
+      files.insert(restored.map((p, i) => [p, pendingRef.current.length + i]));
+      restored.forEach((p) => !p.stored && void files.processed(p));
+      setOffer(null);
+      setReady(true);
+    } catch (err) {
+      // the offer stays up: nothing is lost by trying again or discarding
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const discard = async () => {
+    if (!offer || !uid) return;
+    const { local, cloud } = offer;
+    setOffer(null);
+    setError(null);
+    const stored = new Map<string, ItemImage>();
+    [...(local?.items ?? []), ...(cloud?.items ?? [])].forEach(
+      (it) => it.stored && stored.set(it.stored.url, it.stored)
+    );
+    stored.forEach((image) => void deleteItemImage(repo, image));
+    await Promise.all([
+      clearLocalDraft(galleryId, uid).catch(() => {}),
+      repo.deleteDraft(galleryId, uid).catch(() => {}),
+    ]);
+    setReady(true);
+  };
+
+  return {
+    // the draft found on load, until restored or discarded
+    offered: offer ? offeredDraft(offer) : null,
+    error,
+    cloudDrafts: cloud,
+    setCloudDrafts,
+    restore,
+    discard,
+  };
+}
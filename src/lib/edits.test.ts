@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_ZOOM,
+  MIN_CROP,
+  clampCrop,
+  clampFocus,
+  cropAspect,
+  cssFilter,
+  cssTransform,
+  editedLayout,
+  flipEdits,
+  isUnedited,
+  noEdits,
+  orientedAspect,
+  readEdits,
+  rotateEdits,
+} from "@/lib/edits";
+
+describe("noEdits / isUnedited", () => {
+  it("leaves the image as it is", () => {
+    expect(isUnedited(noEdits(1.5))).toBe(true);
+    expect(isUnedited({ ...noEdits(1.5), zoom: 2 })).toBe(false);
+    expect(isUnedited({ ...noEdits(1.5), crop: { x: 0.1, y: 0, w: 0.9, h: 1 } })).toBe(false);
+  });
+});
+
+describe("rotateEdits", () => {
+  const crop = { x: 0.1, y: 0.2, w: 0.3, h: 0.4 };
+  const cropped = { ...noEdits(2), crop, focus: { x: 0, y: 1 } };
+
+  it("turns the crop and focal point with the image", () => {
+    const once = rotateEdits(cropped, 1);
+    expect(once.rotate).toBe(90);
+    expect(once.crop.x).toBeCloseTo(0.4);
+    expect(once.crop.y).toBeCloseTo(0.1);
+    expect(once.crop.w).toBeCloseTo(0.4);
+    expect(once.crop.h).toBeCloseTo(0.3);
+    expect(once.focus).toEqual({ x: 0, y: 0 });
+  });
+
+  it("comes back after four turns either way", () => {
+    let e = cropped;
+    for (let i = 0; i < 4; i++) e = rotateEdits(e, -1);
+    expect(e.rotate).toBe(0);
+    expect(e.crop.x).toBeCloseTo(0.1);
+    expect(e.crop.y).toBeCloseTo(0.2);
+    expect(e.focus).toEqual(cropped.focus);
+    expect(rotateEdits(rotateEdits(cropped, 1), -1).crop.w).toBeCloseTo(0.3);
+  });
+
+  it("turns a mirrored image the other way", () => {
+    expect(rotateEdits(flipEdits(cropped, "x"), 1).rotate).toBe(270);
+  });
+});
+
+describe("flipEdits", () => {
+  it("mirrors the crop and focal point", () => {
+    const crop = { x: 0.1, y: 0.2, w: 0.3, h: 0.4 };
+    const e = { ...noEdits(1), crop, focus: { x: 0.25, y: 0.5 } };
+    const x = flipEdits(e, "x");
+    expect(x.flipX).toBe(true);
+    expect(x.crop.x).toBeCloseTo(0.6);
+    expect(x.focus.x).toBeCloseTo(0.75);
+    const y = flipEdits(e, "y");
+    expect(y.flipY).toBe(true);
+    expect(y.crop.y).toBeCloseTo(0.4);
+    const back = flipEdits(x, "x");
+    expect(back.flipX).toBe(false);
+    expect(back.crop.x).toBeCloseTo(e.crop.x);
+    expect(back.focus.x).toBeCloseTo(e.focus.x);
+  });
+});
+
+describe("clampCrop / clampFocus", () => {
+  it("keeps a crop inside the image and no smaller than MIN_CROP", () => {
+    expect(clampCrop({ x: 0.9, y: -0.2, w: 0.5, h: 0.01 })).toEqual({
+      x: 0.5,
+      y: 0,
+      w: 0.5,
+      h: MIN_CROP,
+    });
+    expect(clampCrop({ x: 0, y: 0, w: 2, h: 2 })).toEqual({ x: 0, y: 0, w: 1, h: 1 });
+  });
+
+  it("keeps the focal point on the crop", () => {
+    expect(clampFocus({ x: -1, y: 1.5 })).toEqual({ x: 0, y: 1 });
+  });
+});
+
+describe("readEdits", () => {
+  it("takes complete edits, within the editor's ranges", () => {
+    const e = { ...noEdits(1.5), rotate: 90, flipX: true, zoom: 9, brightness: -1 };
+    expect(readEdits(JSON.parse(JSON.stringify(e)))).toEqual({
+      ...e,
+      zoom: MAX_ZOOM,
+      brightness: 0,
+    });
+  });
+
+  it("drops edits that are incomplete or damaged", () => {
+    expect(readEdits({})).toBeNull();
+    expect(readEdits(null)).toBeNull();
+    expect(readEdits("crop")).toBeNull();
+    expect(readEdits({ ...noEdits(1), crop: null })).toBeNull();
+    expect(readEdits({ ...noEdits(1), rotate: 45 })).toBeNull();
+    expect(readEdits(noEdits(0))).toBeNull();
+  });
+});
+
+describe("drawing", () => {
+  it("swaps the aspect on quarter turns", () => {
+    expect(orientedAspect({ aspect: 2, rotate: 90 })).toBe(0.5);
+    expect(orientedAspect({ aspect: 2, rotate: 180 })).toBe(2);
+    expect(cropAspect({ ...noEdits(2), crop: { x: 0, y: 0, w: 0.5, h: 1 } })).toBe(1);
+  });
+
+  it("writes CSS only for what changed", () => {
+    expect(cssFilter(noEdits(1))).toBeUndefined();
+    expect(cssFilter({ ...noEdits(1), brightness: 1.2, grayscale: 1 })).toBe(
+      "brightness(1.2) grayscale(1)"
+    );
+    expect(cssTransform({ ...noEdits(1), flipX: true, rotate: 90 })).toBe(
+      "scale(-1, 1) rotate(90deg)"
+    );
+  });
+
+  it("covers the tile with the crop, placed by the focal point", () => {
+    // a 2:1 image in a square tile, focused on its right edge
+    const e = { ...noEdits(2), focus: { x: 1, y: 0.5 } };
+    const { crop, oriented, image } = editedLayout(e, 100, 100);
+    expect(crop).toEqual({ x: -100, y: 0, w: 200, h: 100 });
+    expect(oriented).toEqual(crop);
+    expect(image).toEqual({ w: 200, h: 100 });
+  });
+
+  it("scales the whole image so that the crop fills the tile", () => {
+    const e = { ...noEdits(1), crop: { x: 0.5, y: 0.5, w: 0.5, h: 0.5 } };
+    const { crop, oriented } = editedLayout(e, 100, 100);
+    expect(crop).toEqual({ x: 0, y: 0, w: 100, h: 100 });
+    expect(oriented).toEqual({ x: -100, y: -100, w: 200, h: 200 });
+  });
+});
@@ -0,0 +1,207 @@
+// lib/edits.ts
+// Non-destructive image edits: crop, focal point, zoom, rotation / flip and colour
+// adjustments. They are stored on the item and applied wherever it is drawn (canvases,
+// public page, exports); the stored files never change.
+
+/* -------------------- Types -------------------- */
+export type Rotation = 0 | 90 | 180 | 270;
+
+// Fractions of the image as rotated and flipped
+export type CropRect = { x: number; y: number; w: number; h: number };
+
+export type ImageEdits = {
+  // width / height of the image file (before rotation), measured when it was edited
+  aspect: number;
+  crop: CropRect;
+  // point of the crop kept in view whatever the tile's shape, fractions of the crop
+  // (same rule as CSS object-position)
+  focus: { x: number; y: number };
+  // ≥ 1: how far to zoom into the crop
+  zoom: number;
+  // clockwise, in degrees
+  rotate: Rotation;
+  // mirrored after rotating, as seen on screen
+  flipX: boolean;
+  flipY: boolean;
+  // 1 = unchanged
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  // 0 = colour, 1 = black and white
+  grayscale: number;
+};
+
+export type Adjustment = "brightness" | "contrast" | "saturation" | "grayscale";
+
+export const ADJUSTMENTS: Array<{ key: Adjustment; label: string; min: number; max: number }> = [
+  { key: "brightness", label: "Brightness", min: 0, max: 2 },
+  { key: "contrast", label: "Contrast", min: 0, max: 2 },
+  { key: "saturation", label: "Saturation", min: 0, max: 2 },
+  { key: "grayscale", label: "Grayscale", min: 0, max: 1 },
+];
+
+export const MAX_ZOOM = 4;
+// smallest crop, as a fraction of either side
+export const MIN_CROP = 0.05;
+
+// Edits that change nothing, for an image of the given aspect
+export function noEdits(aspect: number): ImageEdits {
+  return {
+    aspect,
+    crop: { x: 0, y: 0, w: 1, h: 1 },
+    focus: { x: 0.5, y: 0.5 },
+    zoom: 1,
+    rotate: 0,
+    flipX: false,
+    flipY: false,
+    brightness: 1,
+    contrast: 1,
+    saturation: 1,
+    grayscale: 0,
+  };
+}
+
+// True when the edits leave the image as it is (they are then not stored)
+export function isUnedited(e: ImageEdits) {
+  const none = noEdits(e.aspect);
+  return JSON.stringify({ ...e, aspect: 0 }) === JSON.stringify({ ...none, aspect: 0 });
+}
+
+/* -------------------- Changing edits -------------------- */
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// Turns the image a quarter turn; the crop and focal point turn with it
+export function rotateEdits(e: ImageEdits, dir: 1 | -1): ImageEdits {
+  const { crop: c, focus: f } = e;
+  // a mirrored image turns the other way under the same rotation
+  const step = e.flipX !== e.flipY ? -dir : dir;
+  const rotate = ((e.rotate + step * 90 + 360) % 360) as Rotation;
+  return dir === 1
+    ? {
+        ...e,
+        rotate,
+        crop: { x: 1 - c.y - c.h, y: c.x, w: c.h, h: c.w },
+        focus: { x: 1 - f.y, y: f.x },
+      }
+    : {
+        ...e,
+        rotate,
+        crop: { x: c.y, y: 1 - c.x - c.w, w: c.h, h: c.w },
+        focus: { x: f.y, y: 1 - f.x },
+      };
+}
+
+// Mirrors the image as seen on screen; the crop and focal point follow
+export function flipEdits(e: ImageEdits, axis: "x" | "y"): ImageEdits {
+  const { crop: c, focus: f } = e;
+  return axis === "x"
+    ? { ...e, flipX: !e.flipX, crop: { ...c, x: 1 - c.x - c.w }, focus: { ...f, x: 1 - f.x } }
+    : { ...e, flipY: !e.flipY, crop: { ...c, y: 1 - c.y - c.h }, focus: { ...f, y: 1 - f.y } };
+}
+
+// Keeps a crop inside the image and no smaller than MIN_CROP
+export function clampCrop(c: CropRect): CropRect {
+  const w = Math.min(1, Math.max(MIN_CROP, c.w));
+  const h = Math.min(1, Math.max(MIN_CROP, c.h));
+  return { x: Math.min(Math.max(0, c.x), 1 - w), y: Math.min(Math.max(0, c.y), 1 - h), w, h };
+}
+
+export function clampFocus(f: { x: number; y: number }) {
+  return { x: clamp01(f.x), y: clamp01(f.y) };
+}
+
+/* -------------------- Reading edits -------------------- */
+const isNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+const hasNumbers = (v: unknown, keys: string[]): v is Record<string, number> =>
+  !!v && typeof v === "object" && keys.every((k) => isNumber((v as Record<string, unknown>)[k]));
+
+// Edits from outside the app (an imported bundle), kept to the ranges the editor allows;
+// null unless every field is there, so a damaged entry leaves the image unedited
+export function readEdits(v: unknown): ImageEdits | null {
+  const numbers = ["aspect", "zoom", "rotate", ...ADJUSTMENTS.map((a) => a.key)];
+  if (!hasNumbers(v, numbers)) return null;
+  const { crop, focus, flipX, flipY } = v as Record<string, unknown>;
+  if (!hasNumbers(crop, ["x", "y", "w", "h"]) || !hasNumbers(focus, ["x", "y"])) return null;
+  if (v.aspect <= 0 || ![0, 90, 180, 270].includes(v.rotate)) return null;
+
+  const e: ImageEdits = {
+    ...noEdits(v.aspect),
+    crop: clampCrop({ x: crop.x, y: crop.y, w: crop.w, h: crop.h }),
+    focus: clampFocus({ x: focus.x, y: focus.y }),
+    zoom: Math.min(MAX_ZOOM, Math.max(1, v.zoom)),
+    rotate: v.rotate as Rotation,
+    flipX: flipX === true,
+    flipY: flipY === true,
+  };
+  for (const { key, min, max } of ADJUSTMENTS) e[key] = Math.min(max, Math.max(min, v[key]));
+  return e;
+}
+
+/* -------------------- Drawing -------------------- */
+const quarterTurned = (e: Pick<ImageEdits, "rotate">) => e.rotate === 90 || e.rotate === 270;
+
+// width / height of the image as rotated
+export function orientedAspect(e: Pick<ImageEdits, "aspect" | "rotate">) {
+  return quarterTurned(e) ? 1 / e.aspect : e.aspect;
+}
+
+// width / height of the cropped part
+export function cropAspect(e: ImageEdits) {
+  return (e.crop.w * orientedAspect(e)) / e.crop.h;
+}
+
+// CSS filter for the adjustments; also understood by canvas 2D
+export function cssFilter(e: ImageEdits) {
+  const parts = [
+    e.brightness !== 1 && `brightness(${e.brightness})`,
+    e.contrast !== 1 && `contrast(${e.contrast})`,
+    e.saturation !== 1 && `saturate(${e.saturation})`,
+    e.grayscale !== 0 && `grayscale(${e.grayscale})`,
+  ].filter(Boolean);
+  return parts.length ? parts.join(" ") : undefined;
+}
+
+// Rotation and flip of the image inside its rotated box
+export function cssTransform(e: ImageEdits) {
+  return `scale(${e.flipX ? -1 : 1}, ${e.flipY ? -1 : 1}) rotate(${e.rotate}deg)`;
+}
+
+// Where things go inside a tile of size w × h (any unit):
+// - `crop`: the cropped part, scaled to cover the tile and placed by the focal point
+// - `oriented`: the whole rotated image, lined up with the crop
+// - `image`: the file's own box, centered on `oriented`, before rotation
+export function editedLayout(e: ImageEdits, w: number, h: number) {
+  const a = cropAspect(e);
+  const cw = Math.max(w, h * a) * e.zoom;
+  const ch = Math.max(h, w / a) * e.zoom;
+  const crop = { x: e.focus.x * (w - cw), y: e.focus.y * (h - ch), w: cw, h: ch };
+  const ow = cw / e.crop.w;
+  const oh = ch / e.crop.h;
+  const oriented = { x: crop.x - e.crop.x * ow, y: crop.y - e.crop.y * oh, w: ow, h: oh };
+  const image = quarterTurned(e) ? { w: oh, h: ow } : { w: ow, h: oh };
+  return { crop, oriented, image };
+}
+
+// Draws an edited image into a rect of a 2D context (exports); same result as EditedImage
+export function drawEdited(
+  ctx: CanvasRenderingContext2D,
+  img: CanvasImageSource,
+  e: ImageEdits,
+  x: number,
+  y: number,
+  w: number,
+  h: number
+) {
+  const { oriented, image } = editedLayout(e, w, h);
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, y, w, h);
+  ctx.clip();
+  ctx.translate(x + oriented.x + oriented.w / 2, y + oriented.y + oriented.h / 2);
+  ctx.scale(e.flipX ? -1 : 1, e.flipY ? -1 : 1);
+  ctx.rotate((e.rotate * Math.PI) / 180);
+  ctx.filter = cssFilter(e) ?? "none";
+  ctx.drawImage(img, -image.w / 2, -image.h / 2, image.w, image.h);
+  ctx.restore();
+}
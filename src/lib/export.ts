@@ -0,0 +1,444 @@
+// lib/export.ts
+// Getting a gallery out of the app and back in: the saved canvas flattened to PNG or a
+// PDF, and a portable bundle (ZIP of the items as layout JSON plus their image files)
+// that import turns back into a gallery, in this Firebase project or another one.
+import {
+  type Breakpoint,
+  type CanvasSize,
+  type OverrideBreakpoint,
+  BREAKPOINTS,
+  canvasOf,
+  layoutAt,
+  normalize,
+} from "@/lib/canvas";
+import { drawEdited, readEdits } from "@/lib/edits";
+import {
+  type Gallery,
+  type GalleryItem,
+  type NewGalleryItem,
+  fetchItemImage,
+  parseTags,
+  uploadItemImage,
+} from "@/lib/galleries";
+import { type Layout, pickLayout } from "@/lib/layout";
+import { stackOrder } from "@/lib/layers";
+import { type PaperSize, type PdfPage, PAPER_SIZES, POINTS_PER_INCH, createPdf } from "@/lib/pdf";
+import type { GalleryRepository } from "@/lib/repository";
+import { readImageDims } from "@/lib/utils";
+import { type ZipEntry, createZip, readZip } from "@/lib/zip";
+
+// progress of a long export or import: steps done out of total
+export type ExportProgress = (done: number, total: number) => void;
+
+const EXTENSIONS: Record<string, string> = {
+  "image/avif": "avif",
+  "image/webp": "webp",
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/svg+xml": "svg",
+};
+
+const MIME_TYPES: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(EXTENSIONS).map(([type, ext]) => [ext, type])),
+  jpeg: "image/jpeg",
+};
+
+// Items as stored are newest first; the bottom of the stack is drawn first
+function stacked(items: GalleryItem[]) {
+  const layers = items.map((it, i) => ({ id: String(i), z: it.z ?? i - items.length, it }));
+  return stackOrder(layers).map((l) => l.it);
+}
+
+// "Summer trip / 2024" → "summer-trip-2024"
+export function exportFileName(gallery: Pick<Gallery, "name"> | null, ext: string) {
+  const slug = (gallery?.name ?? "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "gallery"}.${ext}`;
+}
+
+/* -------------------- Flattened canvas -------------------- */
+// Browsers give up on canvases much past 16k px a side or ~50M px in total
+const MAX_SIDE = 16384;
+const MAX_PIXELS = 50_000_000;
+
+// The largest scale up to `wanted` that a browser can still draw `canvas` at
+export function exportScale(canvas: CanvasSize, wanted: number) {
+  return Math.min(
+    wanted,
+    MAX_SIDE / canvas.w,
+    MAX_SIDE / canvas.h,
+    Math.sqrt(MAX_PIXELS / (canvas.w * canvas.h))
+  );
+}
+
+// object-fit: cover, as on the canvas for items without edits
+function drawCover(
+  ctx: CanvasRenderingContext2D,
+  img: ImageBitmap,
+  x: number,
+  y: number,
+  w: number,
+  h: number
+) {
+  const k = Math.max(w / img.width, h / img.height);
+  const sw = w / k;
+  const sh = h / k;
+  ctx.drawImage(img, (img.width - sw) / 2, (img.height - sh) / 2, sw, sh, x, y, w, h);
+}
+
+// The saved layout at a breakpoint drawn onto one canvas, `scale` px per canvas unit
+export async function renderLayout(
+  gallery: Pick<Gallery, "canvas"> | null,
+  items: GalleryItem[],
+  bp: Breakpoint,
+  scale: number,
+  onProgress?: ExportProgress
+): Promise<HTMLCanvasElement> {
+  const size = canvasOf(gallery, bp);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(size.w * scale);
+  canvas.height = Math.round(size.h * scale);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D is not available");
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = "high";
+
+  const ordered = stacked(items);
+  // one image in memory at a time
+  for (const [i, it] of ordered.entries()) {
+    const l = layoutAt(it, bp, gallery);
+    const img = await createImageBitmap(await fetchItemImage(it.url, it.fileName || "an image"));
+    try {
+      const rect = [l.x * scale, l.y * scale, l.w * scale, l.h * scale] as const;
+      if (it.edits) drawEdited(ctx, img, it.edits, ...rect);
+      else drawCover(ctx, img, ...rect);
+    } finally {
+      img.close();
+    }
+    onProgress?.(i + 1, ordered.length);
+  }
+  return canvas;
+}
+
+function canvasBlob(canvas: HTMLCanvasElement, type: string, quality?: number) {
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("The image is too large to encode"))),
+      type,
+      quality
+    )
+  );
+}
+
+export async function exportPng(
+  gallery: Pick<Gallery, "canvas"> | null,
+  items: GalleryItem[],
+  bp: Breakpoint,
+  scale: number,
+  onProgress?: ExportProgress
+): Promise<Blob> {
+  const size = canvasOf(gallery, bp);
+  const canvas = await renderLayout(gallery, items, bp, exportScale(size, scale), onProgress);
+  return canvasBlob(canvas, "image/png");
+}
+
+export type PdfOptions = {
+  paper: PaperSize;
+  // 1 fits the layout on one page; more print it larger, tiled over several pages
+  pagesAcross: number;
+};
+
+// blank border left around each page, in points
+const PDF_MARGIN = 0.5 * POINTS_PER_INCH;
+// print resolution of the flattened layout
+const PDF_DPI = 150;
+
+// How the layout falls onto pages: points per canvas unit and the page grid
+export function pdfLayout(canvas: CanvasSize, { paper, pagesAcross }: PdfOptions) {
+  const portrait = PAPER_SIZES[paper];
+  const landscape = canvas.w > canvas.h;
+  const page = landscape ? { w: portrait.h, h: portrait.w } : portrait;
+  const area = { w: page.w - 2 * PDF_MARGIN, h: page.h - 2 * PDF_MARGIN };
+  const across = Math.max(1, Math.round(pagesAcross));
+  const points =
+    across === 1
+      ? Math.min(area.w / canvas.w, area.h / canvas.h)
+      : (across * area.w) / canvas.w;
+  const down = Math.max(1, Math.ceil((canvas.h * points) / area.h - 1e-6));
+  return { page, area, points, across, down };
+}
+
+export async function exportPdf(
+  gallery: Pick<Gallery, "name" | "canvas"> | null,
+  items: GalleryItem[],
+  bp: Breakpoint,
+  opts: PdfOptions,
+  onProgress?: ExportProgress
+): Promise<Blob> {
+  const size = canvasOf(gallery, bp);
+  const { page, area, points, across, down } = pdfLayout(size, opts);
+  const scale = exportScale(size, (points * PDF_DPI) / POINTS_PER_INCH);
+  const canvas = await renderLayout(gallery, items, bp, scale, onProgress);
+
+  // the part of the flattened layout on each page, in px; tiles are cut left to right,
+  // top to bottom so the printed pages line up when trimmed at the margins
+  const tileW = (area.w / points) * scale;
+  const tileH = (area.h / points) * scale;
+  const tile = document.createElement("canvas");
+  const ctx = tile.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D is not available");
+
+  const pages: PdfPage[] = [];
+  for (let row = 0; row < down; row++) {
+    for (let col = 0; col < across; col++) {
+      const sx = Math.round(col * tileW);
+      const sy = Math.round(row * tileH);
+      const sw = Math.min(Math.round(tileW), canvas.width - sx);
+      const sh = Math.min(Math.round(tileH), canvas.height - sy);
+      if (sw <= 0 || sh <= 0) continue;
+      tile.width = sw;
+      tile.height = sh;
+      ctx.drawImage(canvas, sx, sy, sw, sh, 0, 0, sw, sh);
+      const jpeg = new Uint8Array(await (await canvasBlob(tile, "image/jpeg", 0.92)).arrayBuffer());
+
+      const w = (sw / scale) * points;
+      const h = (sh / scale) * points;
+      // one page: centered; tiles: from the top-left margin
+      const x = across * down === 1 ? (page.w - w) / 2 : PDF_MARGIN;
+      const y = across * down === 1 ? (page.h - h) / 2 : page.h - PDF_MARGIN - h;
+      pages.push({ w: page.w, h: page.h, image: { jpeg, pxW: sw, pxH: sh, x, y, w, h } });
+    }
+  }
+  return createPdf(pages, gallery?.name ?? "");
+}
+
+/* -------------------- Bundle -------------------- */
+export const BUNDLE_FORMAT = "gallery-web.bundle";
+export const BUNDLE_VERSION = 1;
+const MANIFEST = "gallery.json";
+
+// An item in a bundle: `url` and `thumbUrl` are paths inside the ZIP. Ids, timestamps,
+// accounts and storage keys belong to the project it came from and are left out.
+export type BundleItem = Omit<
+  GalleryItem,
+  "id" | "createdAt" | "createdBy" | "updatedBy" | "storagePath" | "thumbStoragePath"
+>;
+
+// gallery.json
+export type Bundle = {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  gallery: Pick<Gallery, "name" | "canvas" | "captionStyle">;
+  items: BundleItem[];
+};
+
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BundleError";
+  }
+}
+
+const isNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+const text = (v: unknown) => (typeof v === "string" ? v : null);
+
+// Breakpoint layouts that are whole rects; the others fall back to the base layout
+function readLayouts(v: unknown): Partial<Record<OverrideBreakpoint, Layout>> | null {
+  if (!v || typeof v !== "object") return null;
+  const out: Partial<Record<OverrideBreakpoint, Layout>> = {};
+  for (const bp of BREAKPOINTS) {
+    if (bp === "base") continue;
+    const l = (v as Record<string, Partial<Layout> | null>)[bp];
+    if (l && [l.x, l.y, l.w, l.h].every(isNumber)) out[bp] = pickLayout(l as Layout);
+  }
+  return Object.keys(out).length ? out : null;
+}
+
+// The fields an item carries between projects, besides its images; used both ways.
+// A bundle is only JSON, maybe edited by hand: values of the wrong type or shape are
+// dropped (edits and layouts whole), rather than stored for the canvases to trip over.
+function portable(it: BundleItem) {
+  const tags = Array.isArray(it.tags)
+    ? parseTags(it.tags.filter((t) => typeof t === "string").join(","))
+    : [];
+  return {
+    originalW: isNumber(it.originalW) ? it.originalW : null,
+    originalH: isNumber(it.originalH) ? it.originalH : null,
+    fileName: text(it.fileName) ?? undefined,
+    contentHash: text(it.contentHash),
+    x: it.x,
+    y: it.y,
+    w: it.w,
+    h: it.h,
+    units: it.units === "normalized" ? it.units : null,
+    layouts: readLayouts(it.layouts),
+    z: isNumber(it.z) ? it.z : null,
+    locked: typeof it.locked === "boolean" ? it.locked : null,
+    edits: readEdits(it.edits),
+    caption: text(it.caption),
+    alt: text(it.alt),
+    title: text(it.title),
+    tags: tags.length ? tags : null,
+    credit: text(it.credit),
+  };
+}
+
+// An item as written to a bundle; layouts saved before normalizing are normalized on the way
+function bundleItem(
+  it: GalleryItem,
+  gallery: Pick<Gallery, "canvas"> | null,
+  url: string,
+  thumbUrl: string | null
+): BundleItem {
+  const base = normalize(layoutAt(it, "base", gallery), canvasOf(gallery, "base"));
+  return { ...portable({ ...it, ...base, units: "normalized" }), url, thumbUrl };
+}
+
+export async function exportBundle(
+  gallery: Pick<Gallery, "name" | "canvas" | "captionStyle">,
+  items: GalleryItem[],
+  onProgress?: ExportProgress
+): Promise<Blob> {
+  const files: ZipEntry[] = [];
+  const out: BundleItem[] = [];
+
+  for (const [i, it] of items.entries()) {
+    const label = it.fileName || `image ${i + 1}`;
+    // numbered, so names stay unique and sort in gallery order
+    const stem = `images/${String(i + 1).padStart(3, "0")}-${(it.fileName ?? "image")
+      .replace(/\.[^.]+$/, "")
+      .replace(/[^\w-]+/g, "_")}`;
+    const path = (blob: Blob, suffix = "") => `${stem}${suffix}.${EXTENSIONS[blob.type] ?? "img"}`;
+
+    const full = await fetchItemImage(it.url, label);
+    const url = path(full);
+    files.push({ name: url, data: full });
+    let thumbUrl: string | null = null;
+    if (it.thumbUrl && it.thumbUrl !== it.url) {
+      const thumb = await fetchItemImage(it.thumbUrl, label);
+      thumbUrl = path(thumb, "_thumb");
+      files.push({ name: thumbUrl, data: thumb });
+    }
+    out.push(bundleItem(it, gallery, url, thumbUrl));
+    onProgress?.(i + 1, items.length);
+  }
+
+  const bundle: Bundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    gallery: {
+      name: gallery.name,
+      canvas: gallery.canvas ?? null,
+      captionStyle: gallery.captionStyle ?? null,
+    },
+    items: out,
+  };
+  return createZip([{ name: MANIFEST, data: JSON.stringify(bundle, null, 2) }, ...files]);
+}
+
+// Opens a bundle and checks its manifest. Re-zipped bundles may sit in a folder,
+// so gallery.json is looked for at any depth and paths resolve from there.
+export async function readBundle(file: Blob) {
+  let entries: Awaited<ReturnType<typeof readZip>>;
+  try {
+    entries = await readZip(file);
+  } catch {
+    throw new BundleError("Not a gallery bundle (expected a .zip file)");
+  }
+  const manifest = [...entries.keys()]
+    .filter((name) => name === MANIFEST || name.endsWith(`/${MANIFEST}`))
+    .sort((a, b) => a.length - b.length)[0];
+  if (!manifest) throw new BundleError(`Not a gallery bundle: ${MANIFEST} is missing`);
+  const root = manifest.slice(0, -MANIFEST.length);
+
+  let bundle: Bundle;
+  try {
+    const read = entries.get(manifest);
+    bundle = read && JSON.parse(await (await read()).text());
+  } catch {
+    throw new BundleError(`${MANIFEST} is damaged`);
+  }
+  if (
+    bundle?.format !== BUNDLE_FORMAT ||
+    typeof bundle.version !== "number" ||
+    !Array.isArray(bundle.items)
+  ) {
+    throw new BundleError("Not a gallery bundle");
+  }
+  if (bundle.version > BUNDLE_VERSION) {
+    throw new BundleError("This bundle comes from a newer version of the app");
+  }
+
+  const open = async (path: string) => {
+    const read = entries.get(root + path);
+    if (!read) throw new BundleError(`${path} is missing from the bundle`);
+    const ext = path.split(".").pop()?.toLowerCase() ?? "";
+    const type = MIME_TYPES[ext];
+    if (!type) throw new BundleError(`${path} is not an image`);
+    return new File([await read()], path.split("/").pop() || path, { type });
+  };
+
+  for (const [i, it] of bundle.items.entries()) {
+    if (typeof it?.url !== "string" || ![it.x, it.y, it.w, it.h].every(isNumber)) {
+      throw new BundleError(`Item ${i + 1} in ${MANIFEST} is damaged`);
+    }
+    if (!entries.has(root + it.url)) throw new BundleError(`${it.url} is missing from the bundle`);
+  }
+  return { bundle, open };
+}
+
+// Recreates a bundle as a new gallery owned by `uid`; returns its id. All or nothing:
+// a failure part-way deletes what was created so far.
+export async function importBundle(
+  repo: GalleryRepository,
+  file: Blob,
+  uid: string,
+  onProgress?: ExportProgress
+): Promise<string> {
+  const { bundle, open } = await readBundle(file);
+  const name = bundle.gallery?.name?.trim() || "Imported gallery";
+  const galleryId = await repo.createGallery(name, uid);
+
+  try {
+    await repo.updateGallery(galleryId, {
+      canvas: bundle.gallery?.canvas ?? null,
+      captionStyle: bundle.gallery?.captionStyle ?? null,
+    });
+    // oldest first, so the gallery lists them in the original order
+    const items = [...bundle.items].reverse();
+    for (const [i, it] of items.entries()) {
+      const full = await open(it.url);
+      const thumb = it.thumbUrl ? await open(it.thumbUrl) : full;
+      const dims =
+        it.originalW && it.originalH
+          ? { w: it.originalW, h: it.originalH }
+          : await readImageDims(full);
+      // the stored variants are uploaded as they are: no second round of re-encoding
+      const stored = await uploadItemImage(repo, galleryId, {
+        full,
+        thumb,
+        originalW: dims?.w ?? 0,
+        originalH: dims?.h ?? 0,
+      });
+      const item: NewGalleryItem = {
+        ...portable(it),
+        ...stored,
+        fileName: it.fileName || full.name,
+        createdBy: uid,
+        updatedBy: uid,
+      };
+      await repo.addItem(galleryId, item);
+      onProgress?.(i + 1, items.length);
+    }
+  } catch (err) {
+    await repo.deleteGallery(galleryId).catch(() => {});
+    throw err;
+  }
+  return galleryId;
+}
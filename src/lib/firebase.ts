@@ -0,0 +1,60 @@
+// lib/firebase.ts
+import { initializeApp, getApps } from "firebase/app";
+import { getStorage, connectStorageEmulator } from "firebase/storage";
+import { getFirestore, connectFirestoreEmulator } from "firebase/firestore";
+import { type Auth, getAuth, connectAuthEmulator } from "firebase/auth";
+
+// NEXT_PUBLIC_FIREBASE_EMULATORS=true → talk to `firebase emulators:start` instead
+const useEmulators = process.env.NEXT_PUBLIC_FIREBASE_EMULATORS === "true";
+
+// "demo-*" project ids never reach production services
+const DEMO_PROJECT_ID = "demo-gallery";
+
+const firebaseConfig = useEmulators
+  ? {
+      apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY || "demo-key",
+      projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || DEMO_PROJECT_ID,
+      storageBucket:
+        process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET || `${DEMO_PROJECT_ID}.appspot.com`,
+    }
+  : {
+      apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
+      authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
+      projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+      storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
+      appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
+    };
+
+function parseHost(value: string | undefined, fallback: string) {
+  const [host, port] = (value || fallback).split(":");
+  return { host, port: Number(port) };
+}
+
+export function ensureFirebase() {
+  if (!getApps().length) {
+    initializeApp(firebaseConfig);
+    // emulators must be wired up before the first read or write
+    if (useEmulators) {
+      const fs = parseHost(process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST, "127.0.0.1:8080");
+      const st = parseHost(process.env.NEXT_PUBLIC_STORAGE_EMULATOR_HOST, "127.0.0.1:9199");
+      connectFirestoreEmulator(getFirestore(), fs.host, fs.port);
+      connectStorageEmulator(getStorage(), st.host, st.port);
+    }
+  }
+  return { db: getFirestore(), storage: getStorage() } as const;
+}
+
+// Auth is browser-only, so it isn't part of ensureFirebase (which the server uses too)
+let auth: Auth | null = null;
+
+export function ensureFirebaseAuth() {
+  if (!auth) {
+    ensureFirebase();
+    auth = getAuth();
+    if (useEmulators) {
+      const au = process.env.NEXT_PUBLIC_AUTH_EMULATOR_HOST || "127.0.0.1:9099";
+      connectAuthEmulator(auth, `http://${au}`, { disableWarnings: true });
+    }
+  }
+  return auth;
+}
@@ -0,0 +1,359 @@
+// lib/galleries.ts
+import type { Timestamp } from "firebase/firestore";
+import type { AuthUser } from "@/lib/auth/types";
+import type { Breakpoint, CanvasSize, OverrideBreakpoint } from "@/lib/canvas";
+import type { ImageEdits } from "@/lib/edits";
+import { type ProcessedImage, MAX_STORED_BYTES, processImage } from "@/lib/images";
+import { hashFile, megabytes } from "@/lib/imports";
+import type { Layout } from "@/lib/layout";
+import type { GalleryRepository, StoredBlob, UploadOptions } from "@/lib/repository";
+
+/* -------------------- Types -------------------- */
+// How captions show on the canvas
+export type CaptionStyle = "overlay" | "below" | "hover" | "hidden";
+
+export const CAPTION_STYLE_LABELS: Record<CaptionStyle, string> = {
+  overlay: "Overlay",
+  below: "Below",
+  hover: "On hover",
+  hidden: "Hidden",
+};
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = "overlay";
+
+// Who can open the public page at /g/{galleryId}
+export type Visibility = "private" | "unlisted" | "public";
+
+export const VISIBILITY_LABELS: Record<Visibility, string> = {
+  private: "Private",
+  unlisted: "Unlisted (anyone with the link)",
+  public: "Public",
+};
+
+// galleries created before sharing existed stay private until switched
+export const DEFAULT_VISIBILITY: Visibility = "private";
+
+// galleries/{galleryId}
+export type Gallery = {
+  id: string;
+  name: string;
+  // uid of the account that created the gallery; missing on galleries from before sign-in
+  ownerId?: string | null;
+  // invited accounts by (lowercased) email address
+  editors?: string[] | null;
+  viewers?: string[] | null;
+  // design size per breakpoint that item layouts are fractions of; defaults when missing
+  canvas?: Partial<Record<Breakpoint, CanvasSize>> | null;
+  captionStyle?: CaptionStyle | null;
+  visibility?: Visibility | null;
+  createdAt?: Timestamp | null;
+  updatedAt?: Timestamp | null;
+};
+
+// galleries/{galleryId}/items/{itemId}
+export type GalleryItem = {
+  id?: string;
+  url: string;
+  // Storage object key behind `url`; missing on items saved before it was recorded
+  storagePath?: string | null;
+  // downscaled variant for canvas tiles; fall back to `url` when missing
+  thumbUrl?: string | null;
+  thumbStoragePath?: string | null;
+  // pixel size of the image as selected, before any downscaling
+  originalW?: number | null;
+  originalH?: number | null;
+  fileName?: string;
+  // SHA-256 of the file as selected, to catch duplicates; missing on older items
+  contentHash?: string | null;
+  createdAt?: Timestamp | null;
+  // uid of the account that added the item
+  createdBy?: string | null;
+  // uid of the account that last changed the item, to tell collaborators' edits apart
+  updatedBy?: string | null;
+  // stored layout: fractions of the gallery canvas when `units` is "normalized",
+  // otherwise editor pixels from before canvases had a declared size
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  units?: "normalized" | null;
+  // optional normalized layouts for other breakpoints; the base layout is the fallback
+  layouts?: Partial<Record<OverrideBreakpoint, Layout>> | null;
+  // stacking order, higher on top; missing on items saved before layers existed
+  z?: number | null;
+  // locked items can't be dragged or resized
+  locked?: boolean | null;
+  // crop, focal point, rotation and adjustments, applied on display; the files are untouched
+  edits?: ImageEdits | null;
+  caption?: string | null;
+  // alt text for screen readers; falls back to the caption, then the file name
+  alt?: string | null;
+  // tooltip / heading for the image
+  title?: string | null;
+  tags?: string[] | null;
+  credit?: string | null;
+};
+
+// What callers provide when adding an item; the repository assigns id and createdAt
+export type NewGalleryItem = Omit<GalleryItem, "id" | "createdAt">;
+
+// Gallery fields that can be changed after creation; the security rules let
+// only the owner change `visibility`, `editors` and `viewers`
+export type GalleryPatch = Partial<
+  Pick<Gallery, "name" | "canvas" | "captionStyle" | "visibility" | "editors" | "viewers">
+>;
+
+/* -------------------- Roles -------------------- */
+// owner: everything, including sharing and deletion; editor: images and layout; viewer: read only
+export type GalleryRole = "owner" | "editor" | "viewer";
+export type MemberRole = Exclude<GalleryRole, "owner">;
+
+export const ROLE_LABELS: Record<GalleryRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+type Membership = Pick<Gallery, "ownerId" | "editors" | "viewers">;
+
+// What `user` may do in `gallery`; null when it isn't shared with them
+export function roleOf(gallery: Membership | null, user: AuthUser | null): GalleryRole | null {
+  if (!gallery || !user) return null;
+  if (gallery.ownerId && gallery.ownerId === user.uid) return "owner";
+  if (!user.email) return null;
+  if (gallery.editors?.includes(user.email)) return "editor";
+  if (gallery.viewers?.includes(user.email)) return "viewer";
+  return null;
+}
+
+export function canEdit(role: GalleryRole | null) {
+  return role === "owner" || role === "editor";
+}
+
+// Patch that gives `email` the role (or removes it with null)
+export function memberPatch(
+  gallery: Membership,
+  email: string,
+  role: MemberRole | null
+): Pick<GalleryPatch, "editors" | "viewers"> {
+  const address = email.trim().toLowerCase();
+  const without = (list?: string[] | null) => (list ?? []).filter((e) => e !== address);
+  const editors = without(gallery.editors);
+  const viewers = without(gallery.viewers);
+  if (role === "editor") editors.push(address);
+  if (role === "viewer") viewers.push(address);
+  return { editors, viewers };
+}
+
+/* -------------------- Item metadata -------------------- */
+// Descriptive fields edited in the inspector
+export type ItemMeta = Pick<GalleryItem, "caption" | "alt" | "title" | "tags" | "credit">;
+
+// Metadata as written to Firestore: empty values are stored as null
+export function pickMeta(m: ItemMeta): Required<ItemMeta> {
+  const text = (v?: string | null) => v?.trim() || null;
+  return {
+    caption: text(m.caption),
+    alt: text(m.alt),
+    title: text(m.title),
+    tags: m.tags?.length ? m.tags : null,
+    credit: text(m.credit),
+  };
+}
+
+// "Beach, sunset ,beach" → ["beach", "sunset"]
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(",")
+    .map((t) => t.trim().toLowerCase())
+    .filter(Boolean);
+  return [...new Set(tags)];
+}
+
+export function altText(it: Pick<GalleryItem, "alt" | "caption" | "fileName">) {
+  return it.alt || it.caption || it.fileName || "";
+}
+
+// Unique per call: uploads started in the same millisecond must not overwrite each other
+export function galleryStorageKey(galleryId: string, fileName: string) {
+  return `galleries/${galleryId}/${Date.now()}_${crypto.randomUUID()}_${fileName}`;
+}
+
+/* -------------------- Item images -------------------- */
+// The image fields of an item, as written once its files are stored
+export type ItemImage = Required<
+  Pick<GalleryItem, "url" | "storagePath" | "thumbUrl" | "thumbStoragePath" | "originalW" | "originalH">
+>;
+
+// Uploads the full-size and thumbnail variants side by side; all or nothing
+export async function uploadItemImage(
+  repo: GalleryRepository,
+  galleryId: string,
+  image: ProcessedImage,
+  { onProgress, signal }: UploadOptions = {}
+): Promise<ItemImage> {
+  const files = image.thumb === image.full ? [image.full] : [image.full, image.thumb];
+  // the storage rules would refuse it, with a less helpful error
+  const tooLarge = files.find((f) => f.size >= MAX_STORED_BYTES);
+  if (tooLarge) {
+    const limit = megabytes(MAX_STORED_BYTES);
+    throw new Error(`Too large to store: ${megabytes(tooLarge.size)} (limit ${limit})`);
+  }
+  const total = files.reduce((n, f) => n + f.size, 0) || 1;
+  const sent = files.map(() => 0);
+
+  const results = await Promise.allSettled(
+    files.map((file, i) =>
+      repo.uploadBlob(galleryId, file, {
+        signal,
+        onProgress: (fraction) => {
+          sent[i] = fraction * file.size;
+          onProgress?.(sent.reduce((a, b) => a + b, 0) / total);
+        },
+      })
+    )
+  );
+  const stored = results.flatMap((r) => (r.status === "fulfilled" ? [r.value] : []));
+  const failed = results.find((r) => r.status === "rejected");
+  if (failed) {
+    await Promise.all(stored.map((b) => repo.deleteBlob(b)));
+    throw failed.reason;
+  }
+
+  const [full, thumb = full] = stored as StoredBlob[];
+  return {
+    url: full.url,
+    storagePath: full.storagePath,
+    thumbUrl: thumb.url,
+    thumbStoragePath: thumb.storagePath,
+    originalW: image.originalW,
+    originalH: image.originalH,
+  };
+}
+
+// A stored image's bytes, `label` naming it in errors. Firebase Storage only answers
+// this when the bucket allows cross-origin reads (see cors.json in the README).
+export async function fetchItemImage(url: string, label: string): Promise<Blob> {
+  try {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return await res.blob();
+  } catch (err) {
+    const reason =
+      err instanceof TypeError
+        ? "the storage bucket doesn't allow cross-origin reads"
+        : err instanceof Error
+          ? err.message
+          : String(err);
+    throw new Error(`Couldn't download ${label}: ${reason}`);
+  }
+}
+
+type ImageFiles = Pick<GalleryItem, "url" | "storagePath" | "thumbUrl" | "thumbStoragePath">;
+
+// Deletes the files behind an item (full size and thumbnail)
+export async function deleteItemImage(repo: GalleryRepository, image: ImageFiles) {
+  await repo.deleteBlob(image);
+  if (image.thumbUrl && image.thumbUrl !== image.url) {
+    await repo.deleteBlob({ url: image.thumbUrl, storagePath: image.thumbStoragePath });
+  }
+}
+
+type FileRef = { url: string; storagePath: string | null };
+
+function filesOf(it: ImageFiles): FileRef[] {
+  const files = [{ url: it.url, storagePath: it.storagePath ?? null }];
+  if (it.thumbUrl && it.thumbUrl !== it.url) {
+    files.push({ url: it.thumbUrl, storagePath: it.thumbStoragePath ?? null });
+  }
+  return files;
+}
+
+const fileKey = (f: FileRef) => f.storagePath || f.url;
+
+// Deletes the files behind `images` that no item and no snapshot points at any more.
+// A snapshot keeps the files of items it can bring back; deleteSnapshots sweeps them up
+// once the last such snapshot is gone.
+export async function deleteUnusedImages(
+  repo: GalleryRepository,
+  galleryId: string,
+  images: ImageFiles[]
+) {
+  if (!images.length) return;
+  const [items, snapshots] = await Promise.all([
+    repo.listItems(galleryId),
+    repo.listSnapshots(galleryId),
+  ]);
+  const inUse = new Set(
+    [...items, ...snapshots.flatMap((s) => Object.values(s.items))].flatMap(filesOf).map(fileKey)
+  );
+  const unused = new Map(
+    images
+      .flatMap(filesOf)
+      .filter((f) => !inUse.has(fileKey(f)))
+      .map((f) => [fileKey(f), f])
+  );
+  await Promise.all([...unused.values()].map((f) => repo.deleteBlob(f)));
+}
+
+/* -------------------- Items -------------------- */
+// Removes the item document, and the files behind it unless a snapshot can bring it back
+export async function deleteItem(
+  repo: GalleryRepository,
+  galleryId: string,
+  item: GalleryItem
+) {
+  if (!item.id) return;
+  await repo.deleteItem(galleryId, item.id);
+  await deleteUnusedImages(repo, galleryId, [item]);
+}
+
+// Adds a copy of an item with files of its own, so deleting either leaves the other whole
+export async function duplicateItem(
+  repo: GalleryRepository,
+  galleryId: string,
+  item: GalleryItem,
+  patch: Partial<NewGalleryItem>
+) {
+  const label = item.fileName || "the image";
+  const name = item.fileName || "image";
+  const asFile = (blob: Blob, fileName: string) => new File([blob], fileName, { type: blob.type });
+  const full = asFile(await fetchItemImage(item.url, label), name);
+  // a name of its own, so the two uploads can't land on the same path
+  const thumb =
+    item.thumbUrl && item.thumbUrl !== item.url
+      ? asFile(await fetchItemImage(item.thumbUrl, label), `thumb_${name}`)
+      : full;
+  // the stored variants are uploaded as they are: no second round of re-encoding
+  const stored = await uploadItemImage(repo, galleryId, {
+    full,
+    thumb,
+    originalW: item.originalW ?? 0,
+    originalH: item.originalH ?? 0,
+  });
+  const copy: NewGalleryItem & Partial<GalleryItem> = { ...item, ...stored, ...patch };
+  delete copy.id;
+  delete copy.createdAt;
+  await repo.addItem(galleryId, copy);
+}
+
+// Swaps the image behind an item, keeping its layout and caption. The old files stay
+// while a snapshot still shows them.
+export async function replaceItemImage(
+  repo: GalleryRepository,
+  galleryId: string,
+  item: GalleryItem,
+  file: File
+) {
+  if (!item.id) return;
+  const [image, contentHash] = await Promise.all([processImage(file), hashFile(file)]);
+  const stored = await uploadItemImage(repo, galleryId, image);
+  try {
+    await repo.updateItem(galleryId, item.id, { ...stored, fileName: file.name, contentHash });
+  } catch (err) {
+    // the item still points at its old files; the new ones would be orphaned
+    await deleteItemImage(repo, stored).catch(() => {});
+    throw err;
+  }
+  await deleteUnusedImages(repo, galleryId, [item]);
+}
@@ -0,0 +1,149 @@
+// lib/guides.ts
+// Smart-guide snapping: pull a dragged/resized rect onto the edges and centers of
+// neighbouring items and the canvas, falling back to the grid.
+import type { Layout } from "@/lib/layout";
+
+// A guide line drawn across the canvas while it is in effect
+export type Guide = { axis: "x" | "y"; pos: number; from: number; to: number };
+
+// Gap between the rect and its nearest neighbour on one side
+export type Distance = { axis: "x" | "y"; from: number; to: number; at: number };
+
+export type SnapResult = { rect: Layout; guides: Guide[]; distances: Distance[] };
+
+export type SnapContext = {
+  neighbours: Layout[];
+  canvas: { w: number; h: number };
+  gridSize: number; // 0 = no grid
+  guides: boolean;
+  threshold?: number;
+};
+
+// Which edges of the rect may move (all of them when dragging)
+export type Edges = { left?: boolean; right?: boolean; top?: boolean; bottom?: boolean };
+
+const DEFAULT_THRESHOLD = 6;
+
+type Line = { pos: number; from: number; to: number };
+
+function linesOf(rect: Layout, axis: "x" | "y"): Line[] {
+  const [pos, size, from, to] =
+    axis === "x"
+      ? [rect.x, rect.w, rect.y, rect.y + rect.h]
+      : [rect.y, rect.h, rect.x, rect.x + rect.w];
+  return [0, size / 2, size].map((d) => ({ pos: pos + d, from, to }));
+}
+
+function targetLines(ctx: SnapContext, axis: "x" | "y"): Line[] {
+  const extent = axis === "x" ? ctx.canvas.h : ctx.canvas.w;
+  const size = axis === "x" ? ctx.canvas.w : ctx.canvas.h;
+  const canvas = [0, size / 2, size].map((pos) => ({ pos, from: 0, to: extent }));
+  return [...canvas, ...ctx.neighbours.flatMap((n) => linesOf(n, axis))];
+}
+
+// Best offset that lines one of `own` up with one of `targets`, within threshold
+function bestOffset(own: number[], targets: Line[], threshold: number) {
+  let best: { offset: number; pos: number } | null = null;
+  for (const p of own) {
+    for (const t of targets) {
+      const offset = t.pos - p;
+      if (Math.abs(offset) <= threshold && (!best || Math.abs(offset) < Math.abs(best.offset))) {
+        best = { offset, pos: t.pos };
+      }
+    }
+  }
+  return best;
+}
+
+// Guide spanning the rect and every target sitting on the snapped line
+function guideAt(axis: "x" | "y", pos: number, rect: Layout, targets: Line[]): Guide {
+  const own = linesOf(rect, axis)[0];
+  const on = targets.filter((t) => Math.abs(t.pos - pos) < 0.5);
+  return {
+    axis,
+    pos,
+    from: Math.min(own.from, ...on.map((t) => t.from)),
+    to: Math.max(own.to, ...on.map((t) => t.to)),
+  };
+}
+
+const roundTo = (v: number, step: number) => Math.round(v / step) * step;
+
+// Gaps to the nearest neighbour on each side that overlaps on the other axis
+export function distancesFor(rect: Layout, neighbours: Layout[]): Distance[] {
+  const out: Distance[] = [];
+  const overlapY = neighbours.filter((n) => n.y < rect.y + rect.h && rect.y < n.y + n.h);
+  const overlapX = neighbours.filter((n) => n.x < rect.x + rect.w && rect.x < n.x + n.w);
+  const midY = rect.y + rect.h / 2;
+  const midX = rect.x + rect.w / 2;
+
+  const left = overlapY.filter((n) => n.x + n.w <= rect.x).sort((a, b) => b.x + b.w - (a.x + a.w))[0];
+  if (left) out.push({ axis: "x", from: left.x + left.w, to: rect.x, at: midY });
+  const right = overlapY.filter((n) => n.x >= rect.x + rect.w).sort((a, b) => a.x - b.x)[0];
+  if (right) out.push({ axis: "x", from: rect.x + rect.w, to: right.x, at: midY });
+  const above = overlapX.filter((n) => n.y + n.h <= rect.y).sort((a, b) => b.y + b.h - (a.y + a.h))[0];
+  if (above) out.push({ axis: "y", from: above.y + above.h, to: rect.y, at: midX });
+  const below = overlapX.filter((n) => n.y >= rect.y + rect.h).sort((a, b) => a.y - b.y)[0];
+  if (below) out.push({ axis: "y", from: rect.y + rect.h, to: below.y, at: midX });
+  return out;
+}
+
+// Snap a rect that is being dragged as a whole
+export function snapMove(raw: Layout, ctx: SnapContext): SnapResult {
+  const threshold = ctx.threshold ?? DEFAULT_THRESHOLD;
+  const rect = { ...raw };
+  const guides: Guide[] = [];
+
+  for (const axis of ["x", "y"] as const) {
+    const targets = ctx.guides ? targetLines(ctx, axis) : [];
+    const hit = bestOffset(linesOf(rect, axis).map((l) => l.pos), targets, threshold);
+    if (hit) {
+      rect[axis] += hit.offset;
+      guides.push(guideAt(axis, hit.pos, rect, targets));
+    } else if (ctx.gridSize > 0) {
+      rect[axis] = roundTo(rect[axis], ctx.gridSize);
+    }
+  }
+
+  return { rect, guides, distances: ctx.guides ? distancesFor(rect, ctx.neighbours) : [] };
+}
+
+// Snap only the edges being resized; the opposite edges stay put
+export function snapResize(raw: Layout, edges: Edges, ctx: SnapContext, min = 80): SnapResult {
+  const threshold = ctx.threshold ?? DEFAULT_THRESHOLD;
+  let { x, y, w, h } = raw;
+  const guides: Guide[] = [];
+
+  const snapEdge = (axis: "x" | "y", pos: number) => {
+    const targets = ctx.guides ? targetLines(ctx, axis) : [];
+    const hit = bestOffset([pos], targets, threshold);
+    if (hit) return { pos: hit.pos, targets, snapped: true };
+    return { pos: ctx.gridSize > 0 ? roundTo(pos, ctx.gridSize) : pos, targets, snapped: false };
+  };
+
+  if (edges.left) {
+    const s = snapEdge("x", x);
+    const right = x + w;
+    x = Math.min(s.pos, right - min);
+    w = right - x;
+    if (s.snapped) guides.push(guideAt("x", x, { x, y, w, h }, s.targets));
+  } else if (edges.right) {
+    const s = snapEdge("x", x + w);
+    w = Math.max(min, s.pos - x);
+    if (s.snapped) guides.push(guideAt("x", x + w, { x, y, w, h }, s.targets));
+  }
+  if (edges.top) {
+    const s = snapEdge("y", y);
+    const bottom = y + h;
+    y = Math.min(s.pos, bottom - min);
+    h = bottom - y;
+    if (s.snapped) guides.push(guideAt("y", y, { x, y, w, h }, s.targets));
+  } else if (edges.bottom) {
+    const s = snapEdge("y", y + h);
+    h = Math.max(min, s.pos - y);
+    if (s.snapped) guides.push(guideAt("y", y + h, { x, y, w, h }, s.targets));
+  }
+
+  const rect = { x, y, w, h };
+  return { rect, guides, distances: ctx.guides ? distancesFor(rect, ctx.neighbours) : [] };
+}
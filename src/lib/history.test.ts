@@ -0,0 +1,107 @@
+// @vitest-environment jsdom
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { type Command, isTextInput, useHistory, useUndoShortcuts } from "@/lib/history";
+
+// A value changed by commands, to see what undo / redo did. Like the page's commands,
+// each one sets the value and its undo puts back the value from before.
+function counter() {
+  let value = 0;
+  const add = (n: number, coalesceKey?: string): Command => {
+    const from = value;
+    return {
+      label: `Add ${n}`,
+      apply: () => (value = from + n),
+      revert: () => (value = from),
+      coalesceKey,
+    };
+  };
+  return { add, value: () => value };
+}
+
+afterEach(() => vi.useRealTimers());
+
+describe("useHistory", () => {
+  it("undoes and redoes in order", () => {
+    const c = counter();
+    const { result } = renderHook(() => useHistory());
+    act(() => result.current.execute(c.add(1)));
+    act(() => result.current.execute(c.add(2)));
+    expect(c.value()).toBe(3);
+    expect(result.current.undoLabel).toBe("Add 2");
+
+    act(() => result.current.undo());
+    expect(c.value()).toBe(1);
+    expect(result.current.redoLabel).toBe("Add 2");
+    act(() => result.current.redo());
+    expect(c.value()).toBe(3);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it("drops the redo stack on a new command", () => {
+    const c = counter();
+    const { result } = renderHook(() => useHistory());
+    act(() => result.current.execute(c.add(1)));
+    act(() => result.current.undo());
+    act(() => result.current.execute(c.add(5)));
+    expect(result.current.canRedo).toBe(false);
+    act(() => result.current.undo());
+    act(() => result.current.undo());
+    expect(c.value()).toBe(0);
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it("folds quick commands with the same key into one step", () => {
+    vi.useFakeTimers();
+    const c = counter();
+    const { result } = renderHook(() => useHistory());
+    act(() => result.current.execute(c.add(1, "nudge")));
+    act(() => result.current.execute(c.add(1, "nudge")));
+    vi.advanceTimersByTime(2000);
+    act(() => result.current.execute(c.add(1, "nudge")));
+    expect(c.value()).toBe(3);
+
+    act(() => result.current.undo());
+    expect(c.value()).toBe(2);
+    act(() => result.current.undo());
+    expect(c.value()).toBe(0);
+  });
+
+  it("forgets everything on clear", () => {
+    const c = counter();
+    const { result } = renderHook(() => useHistory());
+    act(() => result.current.execute(c.add(1)));
+    act(() => result.current.clear());
+    expect(result.current.canUndo).toBe(false);
+    expect(c.value()).toBe(1);
+  });
+});
+
+describe("useUndoShortcuts", () => {
+  const press = (init: KeyboardEventInit, target: EventTarget = window) =>
+    target.dispatchEvent(new KeyboardEvent("keydown", { bubbles: true, ...init }));
+
+  it("maps Ctrl+Z, Ctrl+Shift+Z and Ctrl+Y", () => {
+    const undo = vi.fn();
+    const redo = vi.fn();
+    renderHook(() => useUndoShortcuts(undo, redo));
+    press({ key: "z", ctrlKey: true });
+    press({ key: "Z", ctrlKey: true, shiftKey: true });
+    press({ key: "y", metaKey: true });
+    press({ key: "z" });
+    expect(undo).toHaveBeenCalledTimes(1);
+    expect(redo).toHaveBeenCalledTimes(2);
+  });
+
+  it("leaves text fields their own undo", () => {
+    const undo = vi.fn();
+    renderHook(() => useUndoShortcuts(undo, vi.fn()));
+    const input = document.createElement("input");
+    document.body.append(input);
+    press({ key: "z", ctrlKey: true }, input);
+    expect(undo).not.toHaveBeenCalled();
+    expect(isTextInput(input)).toBe(true);
+    expect(isTextInput(document.body)).toBe(false);
+    input.remove();
+  });
+});
@@ -0,0 +1,103 @@
+// lib/history.ts
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// One undoable edit. `apply` runs when executed or redone, `revert` on undo.
+export type Command = {
+  label: string;
+  apply: () => void;
+  revert: () => void;
+  // consecutive commands with the same key (within COALESCE_MS) undo as one step
+  coalesceKey?: string;
+};
+
+type Entry = Command & { at: number };
+
+// Inertia and quick nudges land as several changes; fold them into one step
+const COALESCE_MS = 800;
+const MAX_ENTRIES = 200;
+
+export function useHistory() {
+  const undoStack = useRef<Entry[]>([]);
+  const redoStack = useRef<Entry[]>([]);
+  // stacks live in refs; bump to re-render when their shape changes
+  const [, setVersion] = useState(0);
+  const bump = () => setVersion((v) => v + 1);
+
+  const execute = useCallback((cmd: Command) => {
+    cmd.apply();
+    const now = Date.now();
+    const top = undoStack.current[undoStack.current.length - 1];
+    if (top && cmd.coalesceKey && top.coalesceKey === cmd.coalesceKey && now - top.at < COALESCE_MS) {
+      undoStack.current[undoStack.current.length - 1] = { ...cmd, revert: top.revert, at: now };
+    } else {
+      undoStack.current.push({ ...cmd, at: now });
+      if (undoStack.current.length > MAX_ENTRIES) undoStack.current.shift();
+    }
+    redoStack.current = [];
+    bump();
+  }, []);
+
+  const undo = useCallback(() => {
+    const entry = undoStack.current.pop();
+    if (!entry) return;
+    entry.revert();
+    // never coalesce into something that was undone and redone
+    redoStack.current.push({ ...entry, at: 0 });
+    bump();
+  }, []);
+
+  const redo = useCallback(() => {
+    const entry = redoStack.current.pop();
+    if (!entry) return;
+    entry.apply();
+    undoStack.current.push({ ...entry, at: 0 });
+    bump();
+  }, []);
+
+  const clear = useCallback(() => {
+    undoStack.current = [];
+    redoStack.current = [];
+    bump();
+  }, []);
+
+  const lastUndo = undoStack.current[undoStack.current.length - 1];
+  const lastRedo = redoStack.current[redoStack.current.length - 1];
+
+  return {
+    execute,
+    undo,
+    redo,
+    clear,
+    canUndo: !!lastUndo,
+    canRedo: !!lastRedo,
+    undoLabel: lastUndo?.label,
+    redoLabel: lastRedo?.label,
+  };
+}
+
+// Keys typed into a field belong to the field, not to canvas shortcuts
+export function isTextInput(target: EventTarget | null) {
+  const el = target as HTMLElement | null;
+  return !!el && (el.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(el.tagName));
+}
+
+// Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes; text fields keep their own undo
+export function useUndoShortcuts(undo: () => void, redo: () => void) {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextInput(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z") {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (key === "y" && !e.shiftKey) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [undo, redo]);
+}
@@ -0,0 +1,154 @@
+// lib/images.ts
+// Client-side processing before upload: decode honouring EXIF orientation, downscale,
+// re-encode (which drops EXIF/GPS metadata) and cut a thumbnail.
+
+export type ImageFormat = "image/avif" | "image/webp" | "image/jpeg";
+
+export type ImageProcessingOptions = {
+  // longest edge of the full-size variant, in px
+  maxDimension: number;
+  // longest edge of the thumbnail, in px
+  thumbDimension: number;
+  // tried in order; JPEG is always the last resort
+  formats: ImageFormat[];
+  quality: number; // 0..1
+};
+
+function envNumber(value: string | undefined, fallback: number) {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+// NEXT_PUBLIC_IMAGE_MAX_DIMENSION / NEXT_PUBLIC_IMAGE_FORMAT=avif tune the defaults
+export const DEFAULT_IMAGE_OPTIONS: ImageProcessingOptions = {
+  maxDimension: envNumber(process.env.NEXT_PUBLIC_IMAGE_MAX_DIMENSION, 2560),
+  thumbDimension: 640,
+  formats:
+    process.env.NEXT_PUBLIC_IMAGE_FORMAT === "avif"
+      ? ["image/avif", "image/webp"]
+      : ["image/webp"],
+  quality: 0.85,
+};
+
+export type ProcessedImage = {
+  full: File;
+  thumb: File;
+  // dimensions of the image as selected (after orientation)
+  originalW: number;
+  originalH: number;
+};
+
+// Animated GIFs and SVGs would lose animation / vector data if re-encoded
+const PASS_THROUGH = new Set(["image/gif", "image/svg+xml"]);
+
+// storage.rules turns away files this large or larger
+export const MAX_STORED_BYTES = 20 * 1024 * 1024;
+
+// Whether processImage uploads a file of this type as it is
+export function keepsOriginal(type: string) {
+  return PASS_THROUGH.has(type);
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/avif": "avif",
+  "image/webp": "webp",
+  "image/jpeg": "jpg",
+};
+
+async function decode(file: File): Promise<ImageBitmap | HTMLImageElement> {
+  if (typeof createImageBitmap === "function") {
+    try {
+      return await createImageBitmap(file, { imageOrientation: "from-image" });
+    } catch {
+      // fall through to <img>, which also applies EXIF orientation
+    }
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function fit(w: number, h: number, max: number) {
+  const scale = Math.min(1, max / Math.max(w, h));
+  return { w: Math.max(1, Math.round(w * scale)), h: Math.max(1, Math.round(h * scale)) };
+}
+
+// Widths of the stored variants of an image, for srcset (GIF/SVG are stored as-is)
+export function storedWidths(
+  originalW: number,
+  originalH: number,
+  opts: ImageProcessingOptions = DEFAULT_IMAGE_OPTIONS
+) {
+  return {
+    full: fit(originalW, originalH, opts.maxDimension).w,
+    thumb: fit(originalW, originalH, opts.thumbDimension).w,
+  };
+}
+
+function toBlob(canvas: HTMLCanvasElement, type: string, quality: number) {
+  return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+}
+
+// Browsers silently fall back to PNG for types they can't encode, so check what came back
+async function encode(
+  source: CanvasImageSource,
+  w: number,
+  h: number,
+  opts: ImageProcessingOptions
+) {
+  const canvas = document.createElement("canvas");
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D is not available");
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(source, 0, 0, w, h);
+
+  for (const type of [...opts.formats, "image/jpeg"]) {
+    const blob = await toBlob(canvas, type, opts.quality);
+    if (blob?.type === type) return blob;
+  }
+  throw new Error("Could not encode image");
+}
+
+function renamed(name: string, type: string, suffix = "") {
+  const base = name.replace(/\.[^.]+$/, "");
+  return `${base}${suffix}.${EXTENSIONS[type] ?? "img"}`;
+}
+
+export async function processImage(
+  file: File,
+  opts: ImageProcessingOptions = DEFAULT_IMAGE_OPTIONS
+): Promise<ProcessedImage> {
+  const source = await decode(file);
+  try {
+    const originalW = source.width;
+    const originalH = source.height;
+
+    if (keepsOriginal(file.type)) {
+      return { full: file, thumb: file, originalW, originalH };
+    }
+
+    const fullSize = fit(originalW, originalH, opts.maxDimension);
+    const thumbSize = fit(originalW, originalH, opts.thumbDimension);
+    const fullBlob = await encode(source, fullSize.w, fullSize.h, opts);
+    const thumbBlob = await encode(source, thumbSize.w, thumbSize.h, opts);
+
+    return {
+      full: new File([fullBlob], renamed(file.name, fullBlob.type), { type: fullBlob.type }),
+      thumb: new File([thumbBlob], renamed(file.name, thumbBlob.type, "_thumb"), {
+        type: thumbBlob.type,
+      }),
+      originalW,
+      originalH,
+    };
+  } finally {
+    if ("close" in source) source.close();
+  }
+}
@@ -0,0 +1,207 @@
+// lib/imports.ts
+// Getting images into the preview canvas: files from the picker, drops (including
+// whole folders), clipboard images and image URLs, checked before they are added.
+import { MAX_STORED_BYTES, keepsOriginal } from "@/lib/images";
+import { readImageDims } from "@/lib/utils";
+
+/* -------------------- Validation -------------------- */
+// Largest original accepted; it is downscaled well under MAX_STORED_BYTES before upload.
+// Types uploaded as they are (GIF, SVG) get MAX_STORED_BYTES instead.
+export const MAX_IMPORT_BYTES = 50 * 1024 * 1024;
+
+// files with no MIME type (common for folder picks) still count as images by extension
+const IMAGE_EXTENSIONS = /\.(avif|bmp|gif|heic|heif|jpe?g|png|svg|tiff?|webp)$/i;
+
+export type ImportRejection = { name: string; reason: string };
+
+export type AcceptedImage = {
+  file: File;
+  w: number;
+  h: number;
+  // SHA-256 of the file's bytes, hex
+  hash: string;
+};
+
+export type ImportResult = { accepted: AcceptedImage[]; rejected: ImportRejection[] };
+
+export function isImageFile(file: File) {
+  return file.type ? file.type.startsWith("image/") : IMAGE_EXTENSIONS.test(file.name);
+}
+
+export function megabytes(bytes: number) {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function unreadable(err: unknown) {
+  return `Couldn't read the file: ${err instanceof Error ? err.message : String(err)}`;
+}
+
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// The verdict on one file: why it is turned away, or what it is
+async function checkImage(
+  file: File,
+  known: Set<string>,
+  seen: Set<string>
+): Promise<string | AcceptedImage> {
+  if (!isImageFile(file)) return `Not an image (${file.type || "unknown type"})`;
+  if (file.size === 0) return "The file is empty";
+  const limit = keepsOriginal(file.type) ? MAX_STORED_BYTES - 1 : MAX_IMPORT_BYTES;
+  if (file.size > limit) {
+    return `Too large: ${megabytes(file.size)} (limit ${megabytes(limit)})`;
+  }
+  const hash = await hashFile(file);
+  if (known.has(hash)) return "Already in this gallery";
+  if (seen.has(hash)) return "Same image as another file in this batch";
+  const dims = await readImageDims(file);
+  if (!dims || !dims.w || !dims.h) {
+    return "This browser can't read the image (unsupported format or damaged file)";
+  }
+  seen.add(hash);
+  return { file, w: dims.w, h: dims.h, hash };
+}
+
+// Checks files in order; `known` holds the hashes already in the gallery or the preview.
+// A file that can't be read (moved, or access revoked) is turned away like any other.
+export async function validateImages(files: File[], known: Set<string>): Promise<ImportResult> {
+  const accepted: AcceptedImage[] = [];
+  const rejected: ImportRejection[] = [];
+  const seen = new Set<string>();
+
+  for (const file of files) {
+    const verdict = await checkImage(file, known, seen).catch(unreadable);
+    if (typeof verdict === "string") rejected.push({ name: file.name, reason: verdict });
+    else accepted.push(verdict);
+  }
+  return { accepted, rejected };
+}
+
+/* -------------------- Drops and pastes -------------------- */
+// What a drop or paste carried, copied out synchronously: a DataTransfer is
+// emptied once its event handler returns
+export type TransferSnapshot = {
+  entries: FileSystemEntry[];
+  files: File[];
+  urls: string[];
+};
+
+function urlsIn(dt: DataTransfer): string[] {
+  const list = dt
+    .getData("text/uri-list")
+    .split(/\r?\n/)
+    .filter((l) => l && !l.startsWith("#"));
+  const text = dt.getData("text/plain").trim();
+  if (!list.length && /^https?:\/\/\S+$/i.test(text)) list.push(text);
+  // images copied from a web page often only come as markup
+  if (!list.length) {
+    const src = /<img[^>]+src="([^"]+)"/i.exec(dt.getData("text/html"))?.[1];
+    if (src && /^(https?:|data:image\/)/i.test(src)) list.push(src);
+  }
+  return list;
+}
+
+export function snapshotTransfer(dt: DataTransfer): TransferSnapshot {
+  const entries = Array.from(dt.items ?? [])
+    .filter((it) => it.kind === "file")
+    .map((it) => it.webkitGetAsEntry?.() ?? null)
+    .filter((e): e is FileSystemEntry => !!e);
+  const files = Array.from(dt.files ?? []);
+  // files win: browsers add the image's URL alongside a dragged or copied file
+  return { entries, files, urls: files.length ? [] : urlsIn(dt) };
+}
+
+// What a drop or paste carried, by name, to report it when it can't be read at all
+export function transferNames(snap: TransferSnapshot): string[] {
+  const names = snap.entries.length
+    ? snap.entries.map((e) => e.name)
+    : snap.files.map((f) => f.name);
+  return [...names, ...snap.urls];
+}
+
+function entryFile(entry: FileSystemFileEntry) {
+  return new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+}
+
+async function directoryEntries(dir: FileSystemDirectoryEntry) {
+  const reader = dir.createReader();
+  const all: FileSystemEntry[] = [];
+  // readEntries hands out batches until it returns an empty one
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject)
+    );
+    if (!batch.length) return all;
+    all.push(...batch);
+  }
+}
+
+// Files under dropped entries, folders included; hidden files (.DS_Store…) are skipped.
+// Entries that can't be read go to `rejected` and the walk carries on.
+async function walk(entries: FileSystemEntry[], rejected: ImportRejection[]): Promise<File[]> {
+  const out: File[] = [];
+  const sorted = [...entries].sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of sorted) {
+    if (entry.name.startsWith(".")) continue;
+    try {
+      if (entry.isFile) out.push(await entryFile(entry as FileSystemFileEntry));
+      else if (entry.isDirectory) {
+        const children = await directoryEntries(entry as FileSystemDirectoryEntry);
+        out.push(...(await walk(children, rejected)));
+      }
+    } catch (err) {
+      rejected.push({ name: entry.fullPath || entry.name, reason: unreadable(err) });
+    }
+  }
+  return out;
+}
+
+function nameFromUrl(url: string, type: string) {
+  const ext = type.split("/")[1]?.replace("jpeg", "jpg").replace(/\+.*$/, "") || "img";
+  if (url.startsWith("data:")) return `pasted-${Date.now()}.${ext}`;
+  const last = decodeURIComponent(new URL(url).pathname.split("/").pop() || "");
+  return last && /\.\w+$/.test(last) ? last : `${last || "image"}.${ext}`;
+}
+
+async function downloadImage(url: string): Promise<File> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Download failed (HTTP ${res.status})`);
+  const blob = await res.blob();
+  return new File([blob], nameFromUrl(url, blob.type), { type: blob.type });
+}
+
+// Files from a drop or paste: folders are walked, image URLs downloaded
+export async function collectFiles(snap: TransferSnapshot): Promise<{
+  files: File[];
+  rejected: ImportRejection[];
+}> {
+  const rejected: ImportRejection[] = [];
+  const hasFolder = snap.entries.some((e) => e.isDirectory);
+  const files = hasFolder ? await walk(snap.entries, rejected) : [...snap.files];
+
+  for (const url of snap.urls) {
+    const name = url.startsWith("data:") ? "Pasted image" : url;
+    try {
+      files.push(await downloadImage(url));
+    } catch (err) {
+      // fetch rejects with a TypeError when the site doesn't allow cross-origin reads
+      const reason =
+        err instanceof TypeError
+          ? "The site doesn't allow downloading it from here"
+          : err instanceof Error
+            ? err.message
+            : String(err);
+      rejected.push({ name, reason });
+    }
+  }
+  return { files, rejected };
+}
+
+// Clipboard images are all called "image.png"; give each paste its own name
+export function renamePasted(file: File) {
+  if (file.name && file.name !== "image.png") return file;
+  const ext = file.type.split("/")[1] || "png";
+  return new File([file], `pasted-${Date.now()}.${ext}`, { type: file.type });
+}
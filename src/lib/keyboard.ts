@@ -0,0 +1,172 @@
+// lib/keyboard.ts
+// Editing canvas items from the keyboard. Each canvas is one tab stop (a roving
+// tabindex): the item that holds it is the last one focused, else the first in reading
+// order. Changes are read out to screen readers through `announcement`.
+import type React from "react";
+import { useEffect, useRef, useState } from "react";
+import { isTextInput } from "@/lib/history";
+import type { RestackCommand } from "@/lib/layers";
+import { type Layout, nudgeLayout, readingOrder, resizeLayout } from "@/lib/layout";
+
+// Arrow directions, and steps per press with Shift
+const ARROW_DIRS: Record<string, { x: number; y: number }> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+};
+const BIG_STEP = 10;
+
+// What the keys act on; `C` names the canvases
+export type ItemKeyboardOps<C extends string> = {
+  layoutsOf: (canvas: C) => Record<string, Layout>;
+  selectedOn: (canvas: C, layouts: Record<string, Layout>) => string[];
+  lockedOn: (canvas: C) => Set<string>;
+  nameOf: (canvas: C, id: string) => string;
+  sizeOf: (canvas: C) => { w: number; h: number };
+  // snapping step, 0 = off
+  gridSize: number;
+  move: (canvas: C, id: string, next: Layout) => void;
+  // `only`: the item alone, else toggled in the selection
+  select: (canvas: C, id: string, only: boolean) => void;
+  // false when nothing was removed (e.g. not confirmed)
+  remove: (canvas: C, ids: string[]) => boolean;
+  // the copies, or null when they only turn up once written
+  duplicate: (canvas: C, ids: string[]) => string[] | null;
+  // false when the item can't be replaced
+  replace: (canvas: C, id: string) => boolean;
+};
+
+// e.g. "photo.jpg, 260 × 180 at 16, 32"
+export function describeItem(name: string, l: Layout, locked = false) {
+  return (
+    `${name}, ${Math.round(l.w)} × ${Math.round(l.h)} at ${Math.round(l.x)}, ` +
+    `${Math.round(l.y)}${locked ? ", locked" : ""}`
+  );
+}
+
+/* -------------------- Hooks -------------------- */
+// Items render with `data-item="<canvas>:<id>"` so focus can follow the keys
+export function useItemKeyboard<C extends string>(ops: ItemKeyboardOps<C>) {
+  const [tabStop, setTabStop] = useState<{ canvas: C; id: string } | null>(null);
+  // an item to focus once it renders (a duplicate may not be on screen yet)
+  const focusRequest = useRef<string | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+
+  useEffect(() => {
+    const key = focusRequest.current;
+    const el = key && document.querySelector<HTMLElement>(`[data-item="${CSS.escape(key)}"]`);
+    if (!el) return;
+    focusRequest.current = null;
+    el.focus();
+  });
+
+  const tabStopOn = (canvas: C) => {
+    const order = readingOrder(ops.layoutsOf(canvas));
+    return tabStop?.canvas === canvas && order.includes(tabStop.id) ? tabStop.id : order[0];
+  };
+
+  const focusItem = (canvas: C, id: string) => {
+    focusRequest.current = `${canvas}:${id}`;
+    setTabStop({ canvas, id });
+  };
+
+  // Arrows nudge the item (with the rest of the selection), Shift for bigger steps, Alt
+  // to resize; steps follow the grid when it is on. Ctrl+arrows / Home / End move between
+  // items, Enter / Space select, Delete removes, Ctrl+D duplicates, R replaces. Tab is
+  // left alone: the canvas is one tab stop, so it moves on to the rest of the page.
+  const onItemKeyDown = (canvas: C, id: string, e: React.KeyboardEvent<HTMLElement>) => {
+    // keys pressed on the item's own buttons are theirs
+    if (e.target !== e.currentTarget) return;
+    const ctrl = e.ctrlKey || e.metaKey;
+    const cur = ops.layoutsOf(canvas);
+    const selected = ops.selectedOn(canvas, cur);
+    const group = selected.includes(id) ? selected : [id];
+    const name = ops.nameOf(canvas, id);
+    const dir = ARROW_DIRS[e.key];
+
+    if (dir && !ctrl) {
+      e.preventDefault();
+      if (ops.lockedOn(canvas).has(id)) {
+        setAnnouncement(`${name} is locked`);
+        return;
+      }
+      const size = ops.sizeOf(canvas);
+      const n = e.shiftKey ? BIG_STEP : 1;
+      const next = e.altKey
+        ? resizeLayout(cur[id], dir, n, ops.gridSize, size)
+        : nudgeLayout(cur[id], dir, n, ops.gridSize, size);
+      ops.move(canvas, id, next);
+      const more = group.length > 1 ? ` (and ${group.length - 1} more)` : "";
+      setAnnouncement(describeItem(name, next) + more);
+      return;
+    }
+
+    const order = readingOrder(cur);
+    const index = order.indexOf(id);
+    // right / down is the next item in reading order, left / up the previous one
+    const target =
+      dir && ctrl && !e.altKey
+        ? order[index + (dir.x + dir.y > 0 ? 1 : -1)]
+        : e.key === "Home"
+          ? order[0]
+          : e.key === "End"
+            ? order[order.length - 1]
+            : undefined;
+    // at either end Ctrl+arrows stay put rather than scroll the page
+    if (target || dir) {
+      e.preventDefault();
+      if (target) focusItem(canvas, target);
+      return;
+    }
+
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      ops.select(canvas, id, e.key === "Enter");
+    } else if (e.key === "Delete" || e.key === "Backspace") {
+      e.preventDefault();
+      const rest = order.filter((x) => !group.includes(x));
+      const after = rest.find((x) => order.indexOf(x) > index) ?? rest[rest.length - 1];
+      if (!ops.remove(canvas, group)) return;
+      if (after) focusItem(canvas, after);
+      setAnnouncement(group.length > 1 ? `${group.length} images removed` : `${name} removed`);
+    } else if (ctrl && !e.altKey && e.key.toLowerCase() === "d") {
+      e.preventDefault();
+      const copies = ops.duplicate(canvas, group);
+      if (copies) {
+        if (copies.length) focusItem(canvas, copies[0]);
+        setAnnouncement(`${name} duplicated`);
+      } else {
+        setAnnouncement(`Duplicating ${group.length > 1 ? `${group.length} images` : name}…`);
+      }
+    } else if (!ctrl && !e.altKey && e.key.toLowerCase() === "r") {
+      if (ops.replace(canvas, id)) e.preventDefault();
+    }
+  };
+
+  return { tabStopOn, setTabStop, focusItem, onItemKeyDown, announcement };
+}
+
+// Esc clears the selection; Ctrl+] / Ctrl+[ restack it (with Shift: to front / back)
+export function useSelectionShortcuts(
+  onEscape: () => void,
+  onRestack: (cmd: RestackCommand) => void
+) {
+  const handlers = useRef({ onEscape, onRestack });
+  useEffect(() => {
+    handlers.current = { onEscape, onRestack };
+  });
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") handlers.current.onEscape();
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextInput(e.target)) return;
+      if (e.code !== "BracketRight" && e.code !== "BracketLeft") return;
+      e.preventDefault();
+      const up = e.code === "BracketRight";
+      const cmd: RestackCommand = e.shiftKey ? (up ? "front" : "back") : up ? "forward" : "backward";
+      handlers.current.onRestack(cmd);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+}
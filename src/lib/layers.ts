@@ -0,0 +1,60 @@
+// lib/layers.ts
+// Stacking order for canvas items. Higher z is drawn on top.
+
+export type RestackCommand = "forward" | "backward" | "front" | "back";
+
+export const RESTACK_LABELS: Record<RestackCommand, string> = {
+  front: "Bring to front",
+  forward: "Bring forward",
+  backward: "Send backward",
+  back: "Send to back",
+};
+
+export type Layer = { id: string; z: number };
+
+// Bottom → top, ties kept in their given order
+export function stackOrder<T extends Layer>(layers: T[]): T[] {
+  return layers
+    .map((l, i) => ({ l, i }))
+    .sort((a, b) => a.l.z - b.l.z || a.i - b.i)
+    .map(({ l }) => l);
+}
+
+// Moves `ids` as a block and renumbers the stack 0..n-1; returns only z values that changed
+export function restack(
+  layers: Layer[],
+  ids: string[],
+  cmd: RestackCommand
+): Record<string, number> {
+  const order = stackOrder(layers).map((l) => l.id);
+  const moving = new Set(ids);
+  let next = order;
+
+  if (cmd === "front") {
+    next = [...order.filter((id) => !moving.has(id)), ...order.filter((id) => moving.has(id))];
+  } else if (cmd === "back") {
+    next = [...order.filter((id) => moving.has(id)), ...order.filter((id) => !moving.has(id))];
+  } else {
+    // step each moving item past its nearest non-moving neighbour
+    next = [...order];
+    const up = cmd === "forward";
+    const idxs = next.map((id, i) => (moving.has(id) ? i : -1)).filter((i) => i >= 0);
+    for (const i of up ? idxs.reverse() : idxs) {
+      const j = up ? i + 1 : i - 1;
+      if (j < 0 || j >= next.length || moving.has(next[j])) continue;
+      [next[i], next[j]] = [next[j], next[i]];
+    }
+  }
+
+  const current = Object.fromEntries(layers.map((l) => [l.id, l.z]));
+  const out: Record<string, number> = {};
+  next.forEach((id, z) => {
+    if (current[id] !== z) out[id] = z;
+  });
+  return out;
+}
+
+// z for an item added on top of `layers`
+export function topZ(layers: Layer[]) {
+  return layers.reduce((m, l) => Math.max(m, l.z + 1), 0);
+}
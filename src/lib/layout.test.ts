@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import {
+  type Layout,
+  arrange,
+  boundsOf,
+  intersects,
+  nudgeLayout,
+  readingOrder,
+  rectFromPoints,
+  resizeLayout,
+  scaleAround,
+  translateAll,
+} from "@/lib/layout";
+
+const canvas = { w: 1000, h: 800 };
+
+const layouts: Record<string, Layout> = {
+  a: { x: 10, y: 20, w: 100, h: 100 },
+  b: { x: 200, y: 50, w: 50, h: 150 },
+  c: { x: 400, y: 0, w: 200, h: 80 },
+};
+
+describe("boundsOf / intersects / rectFromPoints", () => {
+  it("spans every layout", () => {
+    expect(boundsOf(Object.values(layouts))).toEqual({ x: 10, y: 0, w: 590, h: 200 });
+    expect(boundsOf([])).toEqual({ x: 0, y: 0, w: 0, h: 0 });
+  });
+
+  it("treats touching edges as apart", () => {
+    expect(intersects(layouts.a, { x: 50, y: 50, w: 10, h: 10 })).toBe(true);
+    expect(intersects(layouts.a, { x: 110, y: 20, w: 10, h: 10 })).toBe(false);
+  });
+
+  it("takes the corners in any order", () => {
+    expect(rectFromPoints(30, 40, 10, 5)).toEqual({ x: 10, y: 5, w: 20, h: 35 });
+  });
+});
+
+describe("arrange", () => {
+  it("does nothing below the items a mode needs", () => {
+    expect(arrange("left", ["a"], layouts)).toEqual({});
+    expect(arrange("distribute-h", ["a", "b"], layouts)).toEqual({});
+  });
+
+  it("aligns edges and centers to the selection's bounds", () => {
+    const left = arrange("left", ["a", "b", "c"], layouts);
+    expect(Object.values(left).map((l) => l.x)).toEqual([10, 10, 10]);
+    const bottom = arrange("bottom", ["a", "b"], layouts);
+    expect(bottom.a.y + bottom.a.h).toBe(200);
+    expect(bottom.b.y + bottom.b.h).toBe(200);
+    const center = arrange("center", ["a", "c"], layouts);
+    expect(center.a.x).toBe(255);
+    expect(center.c.x).toBe(205);
+  });
+
+  it("matches the size of the first selected item", () => {
+    const out = arrange("match-width", ["c", "a"], layouts);
+    expect(out.a.w).toBe(200);
+    expect(out.a.h).toBe(100);
+  });
+
+  it("spreads items with equal gaps", () => {
+    const out = arrange("distribute-h", ["c", "a", "b"], layouts);
+    // span 10..600, widths 350: gaps of 120
+    expect(out.a.x).toBe(10);
+    expect(out.b.x).toBe(230);
+    expect(out.c.x).toBe(400);
+  });
+});
+
+describe("moving and resizing", () => {
+  it("keeps translated items on the canvas", () => {
+    const out = translateAll(["a", "b"], layouts, -50, 10);
+    expect(out.a).toEqual({ x: 0, y: 30, w: 100, h: 100 });
+    expect(out.b).toEqual({ x: 150, y: 60, w: 50, h: 150 });
+  });
+
+  it("nudges by units, or by grid lines when a grid is set", () => {
+    const l = { x: 15, y: 15, w: 100, h: 100 };
+    expect(nudgeLayout(l, { x: 1, y: 0 }, 1, 0, canvas)).toMatchObject({ x: 16, y: 15 });
+    expect(nudgeLayout(l, { x: 1, y: 0 }, 1, 10, canvas)).toMatchObject({ x: 20 });
+    expect(nudgeLayout(l, { x: -1, y: 0 }, 1, 10, canvas)).toMatchObject({ x: 10 });
+    expect(nudgeLayout(l, { x: 0, y: -1 }, 10, 0, canvas)).toMatchObject({ y: 5 });
+  });
+
+  it("stops nudges at the canvas edges", () => {
+    const l = { x: 895, y: 0, w: 100, h: 100 };
+    expect(nudgeLayout(l, { x: 1, y: -1 }, 10, 0, canvas)).toMatchObject({ x: 900, y: 0 });
+  });
+
+  it("resizes from the right / bottom edge within limits", () => {
+    const l = { x: 0, y: 0, w: 100, h: 100 };
+    expect(resizeLayout(l, { x: 1, y: 0 }, 10, 0, canvas)).toMatchObject({ w: 110, h: 100 });
+    expect(resizeLayout(l, { x: -1, y: 0 }, 50, 0, canvas)).toMatchObject({ w: 80 });
+    const edge = { x: 950, y: 0, w: 50, h: 100 };
+    expect(resizeLayout(edge, { x: 1, y: 0 }, 10, 0, canvas)).toMatchObject({ w: 80 });
+  });
+
+  it("scales a group the way one item was resized", () => {
+    const from = { x: 0, y: 0, w: 100, h: 100 };
+    const to = { x: 0, y: 0, w: 200, h: 100 };
+    const out = scaleAround(["a", "b"], layouts, from, to);
+    expect(out.a).toEqual({ x: 20, y: 20, w: 200, h: 100 });
+    expect(out.b).toEqual({ x: 400, y: 50, w: 100, h: 150 });
+  });
+});
+
+describe("readingOrder", () => {
+  it("reads rows top to bottom, left to right", () => {
+    const order = readingOrder({
+      late: { x: 0, y: 300, w: 100, h: 100 },
+      right: { x: 500, y: 10, w: 100, h: 100 },
+      left: { x: 0, y: 40, w: 100, h: 100 },
+    });
+    expect(order).toEqual(["left", "right", "late"]);
+  });
+
+  it("starts a new row below the row's first bottom edge", () => {
+    const order = readingOrder({
+      tall: { x: 300, y: 0, w: 100, h: 400 },
+      short: { x: 0, y: 10, w: 100, h: 50 },
+      below: { x: 0, y: 100, w: 100, h: 50 },
+    });
+    expect(order).toEqual(["short", "tall", "below"]);
+  });
+});
@@ -0,0 +1,213 @@
+// lib/layout.ts
+// Pure geometry for canvas items: bounds, hit-testing and alignment commands.
+
+export type Layout = { x: number; y: number; w: number; h: number };
+
+export type AlignMode =
+  | "left"
+  | "center"
+  | "right"
+  | "top"
+  | "middle"
+  | "bottom"
+  | "distribute-h"
+  | "distribute-v"
+  | "match-width"
+  | "match-height";
+
+export const ALIGN_LABELS: Record<AlignMode, string> = {
+  left: "Align left",
+  center: "Align center",
+  right: "Align right",
+  top: "Align top",
+  middle: "Align middle",
+  bottom: "Align bottom",
+  "distribute-h": "Distribute horizontally",
+  "distribute-v": "Distribute vertically",
+  "match-width": "Match width",
+  "match-height": "Match height",
+};
+
+// How many items each mode needs before it does anything
+export function minItemsFor(mode: AlignMode) {
+  return mode === "distribute-h" || mode === "distribute-v" ? 3 : 2;
+}
+
+export function pickLayout(l: Layout): Layout {
+  return { x: l.x || 0, y: l.y || 0, w: l.w, h: l.h };
+}
+
+export function boundsOf(layouts: Layout[]): Layout {
+  if (!layouts.length) return { x: 0, y: 0, w: 0, h: 0 };
+  const x = Math.min(...layouts.map((l) => l.x));
+  const y = Math.min(...layouts.map((l) => l.y));
+  const r = Math.max(...layouts.map((l) => l.x + l.w));
+  const b = Math.max(...layouts.map((l) => l.y + l.h));
+  return { x, y, w: r - x, h: b - y };
+}
+
+export function intersects(a: Layout, b: Layout) {
+  return a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
+}
+
+// Rectangle spanned by two corner points, in any drag direction
+export function rectFromPoints(ax: number, ay: number, bx: number, by: number): Layout {
+  return { x: Math.min(ax, bx), y: Math.min(ay, by), w: Math.abs(bx - ax), h: Math.abs(by - ay) };
+}
+
+// Spread items so the gaps between neighbours along one axis are equal
+function distribute(ids: string[], layouts: Record<string, Layout>, axis: "x" | "y") {
+  const size = axis === "x" ? "w" : "h";
+  const sorted = [...ids].sort((a, b) => layouts[a][axis] - layouts[b][axis]);
+  const first = layouts[sorted[0]];
+  const last = layouts[sorted[sorted.length - 1]];
+  const span = last[axis] + last[size] - first[axis];
+  const used = sorted.reduce((n, id) => n + layouts[id][size], 0);
+  const gap = (span - used) / (sorted.length - 1);
+
+  const out: Record<string, Layout> = {};
+  let cursor = first[axis];
+  for (const id of sorted) {
+    out[id] = { ...layouts[id], [axis]: Math.round(cursor) };
+    cursor += layouts[id][size] + gap;
+  }
+  return out;
+}
+
+// New layouts for `ids` (selection order; the first one is the reference for "match")
+export function arrange(
+  mode: AlignMode,
+  ids: string[],
+  layouts: Record<string, Layout>
+): Record<string, Layout> {
+  if (ids.length < minItemsFor(mode)) return {};
+  const box = boundsOf(ids.map((id) => layouts[id]));
+  const ref = layouts[ids[0]];
+
+  if (mode === "distribute-h") return distribute(ids, layouts, "x");
+  if (mode === "distribute-v") return distribute(ids, layouts, "y");
+
+  const out: Record<string, Layout> = {};
+  for (const id of ids) {
+    const l = layouts[id];
+    switch (mode) {
+      case "left":
+        out[id] = { ...l, x: box.x };
+        break;
+      case "center":
+        out[id] = { ...l, x: Math.round(box.x + (box.w - l.w) / 2) };
+        break;
+      case "right":
+        out[id] = { ...l, x: box.x + box.w - l.w };
+        break;
+      case "top":
+        out[id] = { ...l, y: box.y };
+        break;
+      case "middle":
+        out[id] = { ...l, y: Math.round(box.y + (box.h - l.h) / 2) };
+        break;
+      case "bottom":
+        out[id] = { ...l, y: box.y + box.h - l.h };
+        break;
+      case "match-width":
+        out[id] = { ...l, w: ref.w };
+        break;
+      case "match-height":
+        out[id] = { ...l, h: ref.h };
+        break;
+    }
+  }
+  return out;
+}
+
+// Moves every item by the same offset, keeping them on the canvas
+export function translateAll(
+  ids: string[],
+  layouts: Record<string, Layout>,
+  dx: number,
+  dy: number
+): Record<string, Layout> {
+  const out: Record<string, Layout> = {};
+  for (const id of ids) {
+    const l = layouts[id];
+    out[id] = { ...l, x: Math.max(0, l.x + dx), y: Math.max(0, l.y + dy) };
+  }
+  return out;
+}
+
+// One keyboard step along an axis: `n` units, or `n` grid lines when a grid is set
+function stepTo(v: number, dir: number, n: number, grid: number) {
+  if (!dir) return v;
+  if (!grid) return v + dir * n;
+  return (dir > 0 ? Math.floor(v / grid) + n : Math.ceil(v / grid) - n) * grid;
+}
+
+// Moves a layout by keyboard, keeping it on the canvas
+export function nudgeLayout(
+  l: Layout,
+  dir: { x: number; y: number },
+  n: number,
+  grid: number,
+  canvas: { w: number; h: number }
+): Layout {
+  return {
+    ...l,
+    x: Math.min(Math.max(0, stepTo(l.x, dir.x, n, grid)), Math.max(0, canvas.w - l.w)),
+    y: Math.min(Math.max(0, stepTo(l.y, dir.y, n, grid)), Math.max(0, canvas.h - l.h)),
+  };
+}
+
+// Resizes a layout by keyboard from its right / bottom edge, keeping it on the canvas
+export function resizeLayout(
+  l: Layout,
+  dir: { x: number; y: number },
+  n: number,
+  grid: number,
+  canvas: { w: number; h: number },
+  min = 80
+): Layout {
+  const right = Math.min(Math.max(l.x + min, stepTo(l.x + l.w, dir.x, n, grid)), canvas.w);
+  const bottom = Math.min(Math.max(l.y + min, stepTo(l.y + l.h, dir.y, n, grid)), canvas.h);
+  return { ...l, w: Math.max(min, right - l.x), h: Math.max(min, bottom - l.y) };
+}
+
+// Scales items around an anchor the way one of them was just resized
+export function scaleAround(
+  ids: string[],
+  layouts: Record<string, Layout>,
+  from: Layout,
+  to: Layout
+): Record<string, Layout> {
+  const sx = from.w ? to.w / from.w : 1;
+  const sy = from.h ? to.h / from.h : 1;
+  const out: Record<string, Layout> = {};
+  for (const id of ids) {
+    const l = layouts[id];
+    out[id] = {
+      x: Math.max(0, Math.round(to.x + (l.x - from.x) * sx)),
+      y: Math.max(0, Math.round(to.y + (l.y - from.y) * sy)),
+      w: Math.max(80, Math.round(l.w * sx)),
+      h: Math.max(80, Math.round(l.h * sy)),
+    };
+  }
+  return out;
+}
+
+// Ids in reading order: rows top to bottom (an item starting below the row's first
+// bottom edge opens a new row), left to right within a row
+export function readingOrder(layouts: Record<string, Layout>): string[] {
+  const byTop = Object.keys(layouts).sort((a, b) => layouts[a].y - layouts[b].y);
+  const rows: string[][] = [];
+  let rowBottom = -Infinity;
+  for (const id of byTop) {
+    const l = layouts[id];
+    if (!rows.length || l.y >= rowBottom) {
+      rows.push([id]);
+      rowBottom = l.y + l.h;
+    } else {
+      rows[rows.length - 1].push(id);
+      rowBottom = Math.min(rowBottom, l.y + l.h);
+    }
+  }
+  return rows.flatMap((row) => row.sort((a, b) => layouts[a].x - layouts[b].x));
+}
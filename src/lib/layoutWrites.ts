@@ -0,0 +1,104 @@
+// lib/layoutWrites.ts
+// Edits to saved items are written back a moment after they stop, so a burst of drags
+// and nudges becomes one update per item. Until then they are shown from `overrides`.
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { NewGalleryItem } from "@/lib/galleries";
+import type { GalleryRepository } from "@/lib/repository";
+
+// A saved item's edit as stored (normalized layout)
+export type SavedPatch = Partial<NewGalleryItem>;
+
+// Delay before a saved item's layout change is written back
+const LAYOUT_WRITE_DELAY = 400;
+
+/* -------------------- Hook -------------------- */
+// Queued writes are flushed when `active` turns off (leaving edit mode) and on unmount.
+// A refused write is given up, the item falling back to what is stored, and reported
+// through `onError`.
+export function useLayoutWrites(
+  repo: GalleryRepository,
+  galleryId: string,
+  uid: string | null,
+  active: boolean,
+  onError: (message: string) => void
+) {
+  const [overrides, setOverrides] = useState<Record<string, SavedPatch>>({});
+  const timers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const queued = useRef(new Map<string, SavedPatch>());
+  // bumped per edit, so a finished write only drops an override nothing newer touched
+  const seqs = useRef(new Map<string, number>());
+  const onErrorRef = useRef(onError);
+  useEffect(() => {
+    onErrorRef.current = onError;
+  });
+
+  const dropOverride = (id: string) =>
+    setOverrides((prev) => {
+      const copy = { ...prev };
+      delete copy[id];
+      return copy;
+    });
+
+  // Write one saved item's edits, then drop its override once nothing newer is queued
+  const write = useCallback(
+    async (id: string) => {
+      const patch = queued.current.get(id);
+      timers.current.delete(id);
+      if (!patch) return;
+      queued.current.delete(id);
+      const seq = seqs.current.get(id);
+      try {
+        await repo.updateItem(galleryId, id, { ...patch, updatedBy: uid });
+      } catch (err) {
+        const reason = err instanceof Error ? err.message : String(err);
+        onErrorRef.current(`A layout change couldn't be saved: ${reason}`);
+      } finally {
+        if (seqs.current.get(id) === seq) dropOverride(id);
+      }
+    },
+    [repo, galleryId, uid]
+  );
+
+  // Show an edit now and write it once the item has been left alone for a moment
+  const queue = (id: string, patch: SavedPatch) => {
+    setOverrides((prev) => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+    queued.current.set(id, { ...queued.current.get(id), ...patch });
+    seqs.current.set(id, (seqs.current.get(id) ?? 0) + 1);
+    clearTimeout(timers.current.get(id));
+    timers.current.set(id, setTimeout(() => void write(id), LAYOUT_WRITE_DELAY));
+  };
+
+  // Hold back a queued write while the same item is being dragged again
+  const hold = (id: string) => {
+    clearTimeout(timers.current.get(id));
+    timers.current.delete(id);
+  };
+
+  // Give up an item's unwritten edits: a write would fail against a deleted document
+  const forget = (id: string) => {
+    hold(id);
+    queued.current.delete(id);
+    dropOverride(id);
+  };
+
+  // Write everything queued right away
+  const flush = () => Promise.all([...queued.current.keys()].map((id) => write(id)));
+
+  // stable, for effects that only read them
+  const isQueued = useCallback((id: string) => queued.current.has(id), []);
+  const hasQueued = useCallback(() => queued.current.size > 0, []);
+
+  // Flush queued writes when leaving edit mode or the page
+  useEffect(() => {
+    if (!active) return;
+    const pendingTimers = timers.current;
+    const pendingWrites = queued.current;
+    return () => {
+      pendingTimers.forEach((t) => clearTimeout(t));
+      pendingTimers.clear();
+      pendingWrites.forEach((_, id) => void write(id));
+    };
+  }, [active, write]);
+
+  return { overrides, queue, hold, forget, flush, isQueued, hasQueued };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { type PdfPage, PAPER_SIZES, createPdf } from "@/lib/pdf";
+
+const page = (jpeg: number[]): PdfPage => ({
+  ...PAPER_SIZES.a4,
+  image: { jpeg: new Uint8Array(jpeg), pxW: 2, pxH: 1, x: 10, y: 20, w: 300.123, h: 150 },
+});
+
+const read = async (blob: Blob) => new TextDecoder("latin1").decode(await blob.arrayBuffer());
+
+describe("createPdf", () => {
+  it("writes one page per image", async () => {
+    const pdf = createPdf([page([1, 2, 3]), page([4, 5])], "Trip");
+    expect(pdf.type).toBe("application/pdf");
+    const src = await read(pdf);
+    expect(src.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(src.trimEnd().endsWith("%%EOF")).toBe(true);
+    expect(src).toContain("/Type /Pages /Count 2 /Kids [4 0 R 7 0 R]");
+    expect(src).toContain("/MediaBox [0 0 595.28 841.89]");
+    expect(src).toContain("q 300.12 0 0 150 10 20 cm /Im0 Do Q");
+    expect(src).toContain("/Width 2 /Height 1");
+  });
+
+  it("stores the title as UTF-16", async () => {
+    const src = await read(createPdf([page([1])], "Été"));
+    expect(src).toContain("/Title <FEFF00c9007400e9>");
+  });
+
+  it("points the cross-reference table at every object", async () => {
+    const src = await read(createPdf([page([1, 2, 3])]));
+    const xref = Number(/startxref\n(\d+)/.exec(src)?.[1]);
+    expect(src.slice(xref, xref + 4)).toBe("xref");
+    const offsets = [...src.matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => Number(m[1]));
+    expect(offsets).toHaveLength(6);
+    offsets.forEach((at, i) => expect(src.slice(at).startsWith(`${i + 1} 0 obj`)).toBe(true));
+  });
+});
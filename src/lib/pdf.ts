@@ -0,0 +1,112 @@
+// lib/pdf.ts
+// Minimal PDF writer: one JPEG per page, placed at a given position. Enough to hand a
+// flattened layout to print without pulling in a PDF library.
+
+// PDF units are points, 72 per inch
+export const POINTS_PER_INCH = 72;
+
+export type PaperSize = "a4" | "letter" | "a3" | "tabloid";
+
+export const PAPER_LABELS: Record<PaperSize, string> = {
+  a4: "A4",
+  letter: "Letter",
+  a3: "A3",
+  tabloid: "Tabloid",
+};
+
+// portrait width × height, in points
+export const PAPER_SIZES: Record<PaperSize, { w: number; h: number }> = {
+  a4: { w: 595.28, h: 841.89 },
+  letter: { w: 612, h: 792 },
+  a3: { w: 841.89, h: 1190.55 },
+  tabloid: { w: 792, h: 1224 },
+};
+
+export type PdfPage = {
+  // page size, in points
+  w: number;
+  h: number;
+  image: {
+    // baseline JPEG bytes (what canvas.toBlob("image/jpeg") gives)
+    jpeg: Uint8Array<ArrayBuffer>;
+    // pixel size
+    pxW: number;
+    pxH: number;
+    // where it is drawn, in points from the bottom-left corner
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+  };
+};
+
+const num = (v: number) => (Math.round(v * 100) / 100).toString();
+
+// Text strings as UTF-16BE hex, so any title survives
+function pdfText(s: string) {
+  let hex = "FEFF";
+  for (let i = 0; i < s.length; i++) hex += s.charCodeAt(i).toString(16).padStart(4, "0");
+  return `<${hex}>`;
+}
+
+export function createPdf(pages: PdfPage[], title = ""): Blob {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (part: string | Uint8Array<ArrayBuffer>) => {
+    const bytes = typeof part === "string" ? encoder.encode(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  // objects are numbered from 1 in the order they are written
+  const object = (body: string, stream?: Uint8Array<ArrayBuffer>) => {
+    offsets.push(length);
+    write(`${offsets.length} 0 obj\n${body}\n`);
+    if (stream) {
+      write("stream\n");
+      write(stream);
+      write("\nendstream\n");
+    }
+    write("endobj\n");
+  };
+
+  // 1: catalog, 2: page tree, 3: info; then page, contents and image for each page
+  const pageRef = (i: number) => 4 + i * 3;
+  write("%PDF-1.4\n%\xff\xff\xff\xff\n");
+  object("<< /Type /Catalog /Pages 2 0 R >>");
+  object(
+    `<< /Type /Pages /Count ${pages.length} /Kids [${pages
+      .map((_, i) => `${pageRef(i)} 0 R`)
+      .join(" ")}] >>`
+  );
+  object(`<< /Title ${pdfText(title)} /Producer (gallery-web) >>`);
+
+  pages.forEach((page, i) => {
+    const { image } = page;
+    const contents = encoder.encode(
+      `q ${num(image.w)} 0 0 ${num(image.h)} ${num(image.x)} ${num(image.y)} cm /Im0 Do Q`
+    );
+    object(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.w)} ${num(page.h)}] ` +
+        `/Resources << /XObject << /Im0 ${pageRef(i) + 2} 0 R >> >> ` +
+        `/Contents ${pageRef(i) + 1} 0 R >>`
+    );
+    object(`<< /Length ${contents.length} >>`, contents);
+    object(
+      `<< /Type /XObject /Subtype /Image /Width ${image.pxW} /Height ${image.pxH} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode ` +
+        `/Length ${image.jpeg.length} >>`,
+      image.jpeg
+    );
+  });
+
+  const xref = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  for (const o of offsets) write(`${o.toString().padStart(10, "0")} 00000 n \n`);
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R /Info 3 0 R >>\n`);
+  write(`startxref\n${xref}\n%%EOF\n`);
+
+  return new Blob(parts, { type: "application/pdf" });
+}
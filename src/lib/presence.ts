@@ -0,0 +1,130 @@
+// lib/presence.ts
+// Who else has a gallery open in the editor, where their pointer is and what they
+// are holding. One document per user: galleries/{galleryId}/presence/{uid}.
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Timestamp } from "firebase/firestore";
+import type { AuthUser } from "@/lib/auth/types";
+import type { Breakpoint } from "@/lib/canvas";
+import type { GalleryRepository } from "@/lib/repository";
+
+/* -------------------- Types -------------------- */
+export type PresenceState = {
+  name: string;
+  color: string;
+  // pointer over the saved canvas, as fractions of it; null when elsewhere
+  cursor: { x: number; y: number } | null;
+  // the layout they're looking at: cursors and highlights only line up on the same one
+  breakpoint: Breakpoint;
+  // saved items they have selected, and the ones they are dragging or resizing right now
+  selection: string[];
+  dragging: string[];
+};
+
+export type Presence = PresenceState & { uid: string; updatedAt?: Timestamp | null };
+
+// entries that stop updating belong to tabs that closed without cleaning up
+export const PRESENCE_TTL = 45_000;
+const HEARTBEAT = 15_000;
+// pointer moves are coalesced into at most one write per interval
+const WRITE_INTERVAL = 120;
+
+const COLORS = ["#ef4444", "#f97316", "#ca8a04", "#16a34a", "#0d9488", "#2563eb", "#7c3aed", "#db2777"];
+
+// Stable per account, so everyone sees the same color for the same person
+export function colorFor(uid: string) {
+  let h = 0;
+  for (const c of uid) h = (h * 31 + c.charCodeAt(0)) | 0;
+  return COLORS[Math.abs(h) % COLORS.length];
+}
+
+export function presenceName(user: AuthUser) {
+  return user.displayName || user.email?.split("@")[0] || "Anonymous";
+}
+
+export function initials(name: string) {
+  const words = name.split(/[\s._-]+/).filter(Boolean);
+  return words.slice(0, 2).map((w) => w[0].toUpperCase()).join("") || "?";
+}
+
+/* -------------------- Hook -------------------- */
+export type PresenceUpdate = Partial<Omit<PresenceState, "name" | "color">>;
+
+// Publishes the signed-in user's presence while mounted (pass null to stay hidden)
+// and returns everyone else's live entries; says through `onError` if they stop coming
+export function usePresence(
+  repo: GalleryRepository,
+  galleryId: string,
+  user: AuthUser | null,
+  onError: (message: string) => void
+) {
+  const [entries, setEntries] = useState<Presence[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const local = useRef<PresenceState | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastWrite = useRef(0);
+  const uid = user?.uid;
+  const onErrorRef = useRef(onError);
+  useEffect(() => {
+    onErrorRef.current = onError;
+  });
+
+  const flush = useCallback(() => {
+    timer.current = null;
+    lastWrite.current = Date.now();
+    // presence is best effort; a lost write is replaced by the next one
+    if (uid && local.current) void repo.setPresence(galleryId, uid, local.current).catch(() => {});
+  }, [repo, galleryId, uid]);
+
+  const update = useCallback(
+    (patch: PresenceUpdate) => {
+      if (!local.current) return;
+      local.current = { ...local.current, ...patch };
+      if (timer.current) return;
+      const wait = WRITE_INTERVAL - (Date.now() - lastWrite.current);
+      if (wait <= 0) flush();
+      else timer.current = setTimeout(flush, wait);
+    },
+    [flush]
+  );
+
+  const name = user ? presenceName(user) : "";
+  useEffect(() => {
+    if (!uid) return;
+    local.current = {
+      cursor: null,
+      breakpoint: "base",
+      selection: [],
+      dragging: [],
+      ...local.current,
+      name,
+      color: colorFor(uid),
+    };
+    flush();
+    const heartbeat = setInterval(() => {
+      flush();
+      setNow(Date.now());
+    }, HEARTBEAT);
+    const unsub = repo.subscribePresence(
+      galleryId,
+      (list) => setEntries(list.filter((p) => p.uid !== uid)),
+      (err) => onErrorRef.current(`Collaborators stopped updating: ${err.message}`)
+    );
+    const leave = () => void repo.clearPresence(galleryId, uid).catch(() => {});
+    window.addEventListener("pagehide", leave);
+    return () => {
+      clearInterval(heartbeat);
+      if (timer.current) clearTimeout(timer.current);
+      timer.current = null;
+      unsub();
+      window.removeEventListener("pagehide", leave);
+      leave();
+      setEntries([]);
+    };
+  }, [repo, galleryId, uid, name, flush]);
+
+  // pending server timestamps are our own fresh writes; keep them
+  const others = entries.filter(
+    (p) => !p.updatedAt || now - p.updatedAt.toMillis() < PRESENCE_TTL
+  );
+  return { others, update };
+}
@@ -0,0 +1,26 @@
+// lib/repository/context.tsx
+"use client";
+import React, { createContext, useContext } from "react";
+import { getGalleryRepository } from "./index";
+import type { GalleryRepository } from "./types";
+
+const GalleryRepositoryContext = createContext<GalleryRepository | null>(null);
+
+// Overrides the env-selected repository for everything below it (e.g. in tests)
+export function GalleryRepositoryProvider({
+  repository,
+  children,
+}: {
+  repository: GalleryRepository;
+  children: React.ReactNode;
+}) {
+  return (
+    <GalleryRepositoryContext.Provider value={repository}>
+      {children}
+    </GalleryRepositoryContext.Provider>
+  );
+}
+
+export function useGalleryRepository(): GalleryRepository {
+  return useContext(GalleryRepositoryContext) ?? getGalleryRepository();
+}
@@ -0,0 +1,413 @@
+// lib/repository/firebase.ts
+import {
+  type Firestore,
+  type QueryConstraint,
+  Timestamp,
+  arrayRemove,
+  arrayUnion,
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  getDoc,
+  getDocs,
+  setDoc,
+  writeBatch,
+  onSnapshot,
+  query,
+  orderBy,
+  limit,
+  where,
+  serverTimestamp,
+} from "firebase/firestore";
+import {
+  type FirebaseStorage,
+  type StorageReference,
+  ref as storageRef,
+  uploadBytesResumable,
+  getDownloadURL,
+  listAll,
+  deleteObject,
+} from "firebase/storage";
+import {
+  type Gallery,
+  type GalleryItem,
+  galleryStorageKey,
+} from "@/lib/galleries";
+import type { Album } from "@/lib/albums";
+import type { CloudDraft } from "@/lib/drafts";
+import type { Presence } from "@/lib/presence";
+import type { SavedSearch } from "@/lib/search";
+import type { Snapshot } from "@/lib/snapshots";
+import { type GalleryRepository, UploadCanceledError } from "./types";
+
+/* -------------------- Paths -------------------- */
+function galleriesCollection(db: Firestore) {
+  return collection(db, "galleries");
+}
+
+function galleryDoc(db: Firestore, galleryId: string) {
+  return doc(db, "galleries", galleryId);
+}
+
+function itemsCollection(db: Firestore, galleryId: string) {
+  return collection(db, "galleries", galleryId, "items");
+}
+
+function itemDoc(db: Firestore, galleryId: string, itemId: string) {
+  return doc(db, "galleries", galleryId, "items", itemId);
+}
+
+function albumsCollection(db: Firestore, galleryId: string) {
+  return collection(db, "galleries", galleryId, "albums");
+}
+
+function albumDoc(db: Firestore, galleryId: string, albumId: string) {
+  return doc(db, "galleries", galleryId, "albums", albumId);
+}
+
+function presenceCollection(db: Firestore, galleryId: string) {
+  return collection(db, "galleries", galleryId, "presence");
+}
+
+function presenceDoc(db: Firestore, galleryId: string, uid: string) {
+  return doc(db, "galleries", galleryId, "presence", uid);
+}
+
+function draftsCollection(db: Firestore, galleryId: string) {
+  return collection(db, "galleries", galleryId, "drafts");
+}
+
+function draftDoc(db: Firestore, galleryId: string, uid: string) {
+  return doc(db, "galleries", galleryId, "drafts", uid);
+}
+
+function snapshotsCollection(db: Firestore, galleryId: string) {
+  return collection(db, "galleries", galleryId, "snapshots");
+}
+
+function snapshotDoc(db: Firestore, galleryId: string, snapshotId: string) {
+  return doc(db, "galleries", galleryId, "snapshots", snapshotId);
+}
+
+function savedSearchesCollection(db: Firestore, uid: string) {
+  return collection(db, "users", uid, "searches");
+}
+
+function itemsQuery(db: Firestore, galleryId: string) {
+  return query(itemsCollection(db, galleryId), orderBy("createdAt", "desc"));
+}
+
+function snapshotsQuery(db: Firestore, galleryId: string) {
+  return query(snapshotsCollection(db, galleryId), orderBy("createdAt", "desc"));
+}
+
+// newest first; pending server timestamps count as now
+function byCreatedDesc(a: Gallery, b: Gallery) {
+  return (b.createdAt?.toMillis() ?? Date.now()) - (a.createdAt?.toMillis() ?? Date.now());
+}
+
+// Firestore batches are capped at 500 writes
+const BATCH_LIMIT = 500;
+
+async function deleteStorageFolder(folder: StorageReference): Promise<void> {
+  const res = await listAll(folder);
+  await Promise.all(res.items.map((it) => deleteObject(it)));
+  await Promise.all(res.prefixes.map((p) => deleteStorageFolder(p)));
+}
+
+/* -------------------- Repository -------------------- */
+export function createFirebaseRepository(
+  db: Firestore,
+  storage: FirebaseStorage
+): GalleryRepository {
+  return {
+    subscribeGalleries(user, cb, onError) {
+      // the security rules only allow queries that name a way in: ownership or an invite
+      const col = galleriesCollection(db);
+      const queries = [query(col, where("ownerId", "==", user.uid))];
+      if (user.email) {
+        queries.push(
+          query(col, where("editors", "array-contains", user.email)),
+          query(col, where("viewers", "array-contains", user.email))
+        );
+      }
+      const found: (Gallery[] | null)[] = queries.map(() => null);
+      const emit = () => {
+        if (found.some((list) => !list)) return;
+        const byId = new Map(found.flatMap((list) => (list ?? []).map((g) => [g.id, g] as const)));
+        cb([...byId.values()].sort(byCreatedDesc));
+      };
+      const unsubs = queries.map((q, i) =>
+        onSnapshot(
+          q,
+          (snap) => {
+            found[i] = snap.docs.map((d) => ({ id: d.id, ...(d.data() as Omit<Gallery, "id">) }));
+            emit();
+          },
+          (err) => {
+            // invites only count for verified addresses; the rules refuse the others' queries
+            if (i > 0 && err.code === "permission-denied") {
+              found[i] = [];
+              emit();
+            } else onError?.(err);
+          }
+        )
+      );
+      return () => unsubs.forEach((u) => u());
+    },
+
+    subscribeGallery(galleryId, cb, onError) {
+      return onSnapshot(
+        galleryDoc(db, galleryId),
+        (d) => cb(d.exists() ? { id: d.id, ...(d.data() as Omit<Gallery, "id">) } : null),
+        // permission-denied: not shared with the current user
+        (err) => (err.code === "permission-denied" ? cb(null) : onError?.(err))
+      );
+    },
+
+    async getGallery(galleryId) {
+      const d = await getDoc(galleryDoc(db, galleryId));
+      return d.exists() ? { id: d.id, ...(d.data() as Omit<Gallery, "id">) } : null;
+    },
+
+    async createGallery(name, ownerId) {
+      const ref = await addDoc(galleriesCollection(db), {
+        name: name.trim(),
+        ownerId,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      return ref.id;
+    },
+
+    async renameGallery(galleryId, name) {
+      await updateDoc(galleryDoc(db, galleryId), {
+        name: name.trim(),
+        updatedAt: serverTimestamp(),
+      });
+    },
+
+    async updateGallery(galleryId, patch) {
+      await updateDoc(galleryDoc(db, galleryId), { ...patch, updatedAt: serverTimestamp() });
+    },
+
+    async touchGallery(galleryId) {
+      await updateDoc(galleryDoc(db, galleryId), { updatedAt: serverTimestamp() });
+    },
+
+    async deleteGallery(galleryId) {
+      const lists = await Promise.all([
+        getDocs(itemsCollection(db, galleryId)),
+        getDocs(albumsCollection(db, galleryId)),
+        getDocs(presenceCollection(db, galleryId)),
+        getDocs(draftsCollection(db, galleryId)),
+        getDocs(snapshotsCollection(db, galleryId)),
+      ]);
+      const docs = lists.flatMap((snap) => snap.docs);
+      for (let i = 0; i < docs.length; i += BATCH_LIMIT) {
+        const batch = writeBatch(db);
+        docs.slice(i, i + BATCH_LIMIT).forEach((d) => batch.delete(d.ref));
+        await batch.commit();
+      }
+      await deleteStorageFolder(storageRef(storage, `galleries/${galleryId}`));
+      await deleteDoc(galleryDoc(db, galleryId));
+    },
+
+    async listItems(galleryId) {
+      const snap = await getDocs(itemsQuery(db, galleryId));
+      return snap.docs.map((d) => ({ id: d.id, ...(d.data() as Omit<GalleryItem, "id">) }));
+    },
+
+    subscribeItems(galleryId, cb, onError) {
+      return onSnapshot(
+        itemsQuery(db, galleryId),
+        (snap) => {
+          const list: GalleryItem[] = [];
+          snap.forEach((d) =>
+            list.push({ id: d.id, ...(d.data() as Omit<GalleryItem, "id">) })
+          );
+          cb(list);
+        },
+        onError
+      );
+    },
+
+    async searchItems(galleryId, { tag, from, to, limit: max }) {
+      // a tag with the dates needs the composite index in firestore.indexes.json
+      const constraints: QueryConstraint[] = [];
+      if (tag) constraints.push(where("tags", "array-contains", tag));
+      if (from) constraints.push(where("createdAt", ">=", Timestamp.fromDate(from)));
+      if (to) constraints.push(where("createdAt", "<", Timestamp.fromDate(to)));
+      const snap = await getDocs(
+        query(
+          itemsCollection(db, galleryId),
+          ...constraints,
+          orderBy("createdAt", "desc"),
+          limit(max)
+        )
+      );
+      return snap.docs.map((d) => ({ id: d.id, ...(d.data() as Omit<GalleryItem, "id">) }));
+    },
+
+    async addItem(galleryId, item) {
+      const ref = await addDoc(itemsCollection(db, galleryId), {
+        ...item,
+        createdAt: serverTimestamp(),
+      });
+      return ref.id;
+    },
+
+    async setItem(galleryId, itemId, item) {
+      await setDoc(itemDoc(db, galleryId, itemId), { ...item, createdAt: serverTimestamp() });
+    },
+
+    async updateItem(galleryId, itemId, patch) {
+      await updateDoc(itemDoc(db, galleryId, itemId), patch);
+    },
+
+    async deleteItem(galleryId, itemId) {
+      await deleteDoc(itemDoc(db, galleryId, itemId));
+    },
+
+    subscribeAlbums(galleryId, cb, onError) {
+      return onSnapshot(
+        query(albumsCollection(db, galleryId), orderBy("createdAt", "desc")),
+        (snap) => cb(snap.docs.map((d) => ({ id: d.id, ...(d.data() as Omit<Album, "id">) }))),
+        onError
+      );
+    },
+
+    async addAlbum(galleryId, album) {
+      const ref = await addDoc(albumsCollection(db, galleryId), {
+        ...album,
+        createdAt: serverTimestamp(),
+      });
+      return ref.id;
+    },
+
+    // arrayUnion / arrayRemove, so collaborators filing images at once don't undo each other
+    async addToAlbum(galleryId, albumId, itemIds) {
+      await updateDoc(albumDoc(db, galleryId, albumId), { itemIds: arrayUnion(...itemIds) });
+    },
+
+    async removeFromAlbum(galleryId, albumId, itemIds) {
+      await updateDoc(albumDoc(db, galleryId, albumId), { itemIds: arrayRemove(...itemIds) });
+    },
+
+    async deleteAlbum(galleryId, albumId) {
+      await deleteDoc(albumDoc(db, galleryId, albumId));
+    },
+
+    subscribePresence(galleryId, cb, onError) {
+      return onSnapshot(
+        presenceCollection(db, galleryId),
+        (snap) =>
+          cb(snap.docs.map((d) => ({ uid: d.id, ...(d.data() as Omit<Presence, "uid">) }))),
+        onError
+      );
+    },
+
+    async setPresence(galleryId, uid, state) {
+      await setDoc(presenceDoc(db, galleryId, uid), { ...state, updatedAt: serverTimestamp() });
+    },
+
+    async clearPresence(galleryId, uid) {
+      await deleteDoc(presenceDoc(db, galleryId, uid));
+    },
+
+    async getDraft(galleryId, uid) {
+      const snap = await getDoc(draftDoc(db, galleryId, uid));
+      return snap.exists() ? (snap.data() as CloudDraft) : null;
+    },
+
+    async saveDraft(galleryId, uid, draft) {
+      await setDoc(draftDoc(db, galleryId, uid), draft);
+    },
+
+    async deleteDraft(galleryId, uid) {
+      await deleteDoc(draftDoc(db, galleryId, uid));
+    },
+
+    async listSnapshots(galleryId) {
+      const snap = await getDocs(snapshotsQuery(db, galleryId));
+      return snap.docs.map((d) => ({ id: d.id, ...(d.data() as Omit<Snapshot, "id">) }));
+    },
+
+    subscribeSnapshots(galleryId, cb, onError) {
+      return onSnapshot(
+        snapshotsQuery(db, galleryId),
+        (snap) => cb(snap.docs.map((d) => ({ id: d.id, ...(d.data() as Omit<Snapshot, "id">) }))),
+        onError
+      );
+    },
+
+    async addSnapshot(galleryId, snapshot) {
+      const ref = await addDoc(snapshotsCollection(db, galleryId), {
+        ...snapshot,
+        createdAt: serverTimestamp(),
+      });
+      return ref.id;
+    },
+
+    async deleteSnapshot(galleryId, snapshotId) {
+      await deleteDoc(snapshotDoc(db, galleryId, snapshotId));
+    },
+
+    subscribeSavedSearches(uid, cb, onError) {
+      return onSnapshot(
+        query(savedSearchesCollection(db, uid), orderBy("createdAt", "desc")),
+        (snap) =>
+          cb(snap.docs.map((d) => ({ id: d.id, ...(d.data() as Omit<SavedSearch, "id">) }))),
+        onError
+      );
+    },
+
+    async addSavedSearch(uid, search) {
+      const ref = await addDoc(savedSearchesCollection(db, uid), {
+        ...search,
+        createdAt: serverTimestamp(),
+      });
+      return ref.id;
+    },
+
+    async deleteSavedSearch(uid, searchId) {
+      await deleteDoc(doc(savedSearchesCollection(db, uid), searchId));
+    },
+
+    async uploadBlob(galleryId, file, { onProgress, signal } = {}) {
+      if (signal?.aborted) throw new UploadCanceledError();
+      const storagePath = galleryStorageKey(galleryId, file.name);
+      const ref = storageRef(storage, storagePath);
+      // resumable uploads survive flaky connections and can be canceled
+      const task = uploadBytesResumable(ref, file, { contentType: file.type });
+      const onAbort = () => task.cancel();
+      signal?.addEventListener("abort", onAbort, { once: true });
+      try {
+        await new Promise<void>((resolve, reject) =>
+          task.on(
+            "state_changed",
+            (s) => onProgress?.(s.totalBytes ? s.bytesTransferred / s.totalBytes : 0),
+            (err) =>
+              reject(err.code === "storage/canceled" ? new UploadCanceledError() : err),
+            () => resolve()
+          )
+        );
+      } finally {
+        signal?.removeEventListener("abort", onAbort);
+      }
+      const url = await getDownloadURL(ref);
+      return { storagePath, url };
+    },
+
+    async deleteBlob(blob) {
+      // older items only know their download URL, which Storage can resolve too
+      try {
+        await deleteObject(storageRef(storage, blob.storagePath || blob.url));
+      } catch (err) {
+        if ((err as { code?: string }).code !== "storage/object-not-found") throw err;
+      }
+    },
+  };
+}
@@ -0,0 +1,30 @@
+// lib/repository/index.ts
+import { ensureFirebase } from "@/lib/firebase";
+import { createFirebaseRepository } from "./firebase";
+import { createMemoryRepository } from "./memory";
+import type { GalleryRepository } from "./types";
+
+export type {
+  GalleryRepository,
+  StoredBlob,
+  SubscriptionError,
+  Unsubscribe,
+  UploadOptions,
+} from "./types";
+export { UploadCanceledError } from "./types";
+export { createFirebaseRepository, createMemoryRepository };
+
+let defaultRepository: GalleryRepository | null = null;
+
+// NEXT_PUBLIC_GALLERY_REPOSITORY=memory keeps everything in the tab (no Firebase at all)
+export function getGalleryRepository(): GalleryRepository {
+  if (!defaultRepository) {
+    if (process.env.NEXT_PUBLIC_GALLERY_REPOSITORY === "memory") {
+      defaultRepository = createMemoryRepository();
+    } else {
+      const { db, storage } = ensureFirebase();
+      defaultRepository = createFirebaseRepository(db, storage);
+    }
+  }
+  return defaultRepository;
+}
@@ -0,0 +1,256 @@
+import { describe, expect, it, vi } from "vitest";
+import type { AuthUser } from "@/lib/auth/types";
+import { type NewGalleryItem, deleteItem, duplicateItem } from "@/lib/galleries";
+import { EMPTY_FILTER } from "@/lib/search";
+import { deleteSnapshots, takeSnapshot } from "@/lib/snapshots";
+import { createMemoryRepository } from "./memory";
+import { UploadCanceledError } from "./types";
+
+const owner: AuthUser = { uid: "u1", email: "owner@example.com", displayName: "Owner" };
+const editor: AuthUser = { uid: "u2", email: "editor@example.com", displayName: "Editor" };
+
+const newItem = (patch: Partial<NewGalleryItem> = {}): NewGalleryItem => ({
+  url: "https://example.com/a.jpg",
+  x: 0,
+  y: 0,
+  w: 0.25,
+  h: 0.25,
+  units: "normalized",
+  ...patch,
+});
+
+// subscriptions deliver on a microtask, as Firestore snapshots arrive later
+const delivered = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("createMemoryRepository", () => {
+  it("creates, renames and deletes galleries", async () => {
+    const repo = createMemoryRepository();
+    const id = await repo.createGallery("  Trip  ", owner.uid);
+    expect(await repo.getGallery(id)).toMatchObject({ id, name: "Trip", ownerId: "u1" });
+
+    await repo.renameGallery(id, "Holiday");
+    await repo.updateGallery(id, { visibility: "public" });
+    expect(await repo.getGallery(id)).toMatchObject({ name: "Holiday", visibility: "public" });
+
+    await repo.deleteGallery(id);
+    expect(await repo.getGallery(id)).toBeNull();
+    await expect(repo.renameGallery(id, "Gone")).rejects.toThrow(/No gallery/);
+  });
+
+  it("lists only the galleries a user owns or was invited to", async () => {
+    const repo = createMemoryRepository();
+    const mine = await repo.createGallery("Mine", owner.uid);
+    const shared = await repo.createGallery("Shared", "u3");
+    await repo.createGallery("Other", "u3");
+    await repo.updateGallery(shared, { editors: [editor.email ?? ""] });
+
+    const seen = vi.fn();
+    const stop = repo.subscribeGalleries(editor, seen);
+    await delivered();
+    expect(seen).toHaveBeenLastCalledWith([expect.objectContaining({ id: shared })]);
+
+    await repo.updateGallery(mine, { viewers: [editor.email ?? ""] });
+    await delivered();
+    expect(seen.mock.lastCall?.[0].map((g: { id: string }) => g.id).sort()).toEqual(
+      [mine, shared].sort()
+    );
+    stop();
+  });
+
+  it("adds, updates, deletes and puts back items, newest first", async () => {
+    const repo = createMemoryRepository();
+    const g = await repo.createGallery("G", owner.uid);
+    const seen = vi.fn();
+    repo.subscribeItems(g, seen);
+
+    const first = await repo.addItem(g, newItem({ fileName: "first.jpg" }));
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 1000);
+    const second = await repo.addItem(g, newItem({ fileName: "second.jpg" }));
+    vi.useRealTimers();
+    await repo.updateItem(g, first, { caption: "hello", updatedBy: editor.uid });
+    await delivered();
+
+    const list = seen.mock.lastCall?.[0];
+    expect(list.map((it: { id: string }) => it.id)).toEqual([second, first]);
+    expect(list[1]).toMatchObject({ caption: "hello", updatedBy: "u2" });
+
+    await repo.deleteItem(g, second);
+    expect((await repo.listItems(g)).map((it) => it.id)).toEqual([first]);
+    await expect(repo.updateItem(g, second, { caption: "x" })).rejects.toThrow(/No item/);
+    await repo.setItem(g, second, newItem({ fileName: "second.jpg" }));
+    expect((await repo.listItems(g)).map((it) => it.id)).toContain(second);
+  });
+
+  it("hands out copies, never its own state", async () => {
+    const repo = createMemoryRepository();
+    const g = await repo.createGallery("G", owner.uid);
+    await repo.addItem(g, newItem({ caption: "kept" }));
+    const [it] = await repo.listItems(g);
+    it.caption = "changed";
+    expect((await repo.listItems(g))[0].caption).toBe("kept");
+  });
+
+  it("stops delivering once unsubscribed", async () => {
+    const repo = createMemoryRepository();
+    const g = await repo.createGallery("G", owner.uid);
+    const seen = vi.fn();
+    const stop = repo.subscribeItems(g, seen);
+    stop();
+    await repo.addItem(g, newItem());
+    await delivered();
+    expect(seen).not.toHaveBeenCalled();
+  });
+
+  it("narrows items by tag and when they were added", async () => {
+    const repo = createMemoryRepository();
+    const g = await repo.createGallery("G", owner.uid);
+    await repo.addItem(g, newItem({ tags: ["dog"] }));
+    await repo.addItem(g, newItem({ tags: ["cat"] }));
+    await repo.addItem(g, newItem({ tags: ["dog", "cat"] }));
+    const q = { tag: "dog", from: null, to: null, limit: 10 };
+    expect(await repo.searchItems(g, q)).toHaveLength(2);
+    expect(await repo.searchItems(g, { ...q, limit: 1 })).toHaveLength(1);
+    expect(await repo.searchItems(g, { ...q, to: new Date(0) })).toHaveLength(0);
+  });
+
+  it("stores blobs per gallery and deletes them quietly", async () => {
+    const repo = createMemoryRepository();
+    const g = await repo.createGallery("G", owner.uid);
+    const onProgress = vi.fn();
+    const file = new File(["bytes"], "a.jpg", { type: "image/jpeg" });
+    const stored = await repo.uploadBlob(g, file, { onProgress });
+    expect(stored.storagePath.startsWith(`galleries/${g}/`)).toBe(true);
+    expect(repo.blobs.get(stored.storagePath)).toBe(file);
+    expect(onProgress).toHaveBeenCalledWith(1);
+
+    // the same name twice still gets two objects
+    const again = await repo.uploadBlob(g, file);
+    expect(again.storagePath).not.toBe(stored.storagePath);
+
+    // by URL alone, as items saved before storage paths were recorded
+    await repo.deleteBlob({ url: stored.url });
+    expect(repo.blobs.has(stored.storagePath)).toBe(false);
+    await expect(repo.deleteBlob(stored)).resolves.toBeUndefined();
+
+    await repo.deleteGallery(g);
+    expect(repo.blobs.size).toBe(0);
+  });
+
+  it("turns away an upload that was already canceled", async () => {
+    const repo = createMemoryRepository();
+    const controller = new AbortController();
+    controller.abort();
+    const file = new File(["bytes"], "a.jpg");
+    await expect(repo.uploadBlob("g", file, { signal: controller.signal })).rejects.toBeInstanceOf(
+      UploadCanceledError
+    );
+  });
+
+  it("keeps items' files apart when copying and deleting", async () => {
+    const repo = createMemoryRepository();
+    const g = await repo.createGallery("G", owner.uid);
+    const image = await repo.uploadBlob(g, new File(["full"], "a.jpg"));
+    const thumb = await repo.uploadBlob(g, new File(["thumb"], "thumb_a.jpg"));
+    const files = { ...image, thumbUrl: thumb.url, thumbStoragePath: thumb.storagePath };
+    const id = await repo.addItem(g, newItem({ ...files, fileName: "a.jpg" }));
+    const [original] = await repo.listItems(g);
+
+    await duplicateItem(repo, g, original, { x: 0.1 });
+    expect(repo.blobs.size).toBe(4);
+
+    await deleteItem(repo, g, { ...original, id });
+    const [copy] = await repo.listItems(g);
+    expect(copy.x).toBe(0.1);
+    expect(copy.storagePath && repo.blobs.has(copy.storagePath)).toBe(true);
+    expect(copy.thumbStoragePath && repo.blobs.has(copy.thumbStoragePath)).toBe(true);
+    expect(repo.blobs.size).toBe(2);
+  });
+
+  it("keeps a deleted item's files while a snapshot refers to them", async () => {
+    const repo = createMemoryRepository();
+    const g = await repo.createGallery("G", owner.uid);
+    const image = await repo.uploadBlob(g, new File(["full"], "a.jpg"));
+    await repo.addItem(g, newItem({ ...image, fileName: "a.jpg" }));
+    const [item] = await repo.listItems(g);
+    await takeSnapshot(repo, g, {}, [item], { name: "v1", auto: false, createdBy: "u1" });
+
+    await deleteItem(repo, g, item);
+    expect(repo.blobs.size).toBe(1);
+    await deleteSnapshots(repo, g, await repo.listSnapshots(g));
+    expect(repo.blobs.size).toBe(0);
+  });
+
+  it("keeps presence, drafts and snapshots per gallery", async () => {
+    const repo = createMemoryRepository();
+    const g = await repo.createGallery("G", owner.uid);
+
+    const present = vi.fn();
+    repo.subscribePresence(g, present);
+    await repo.setPresence(g, "u1", {
+      name: "Owner",
+      color: "#f00",
+      breakpoint: "base",
+      cursor: null,
+      selection: [],
+      dragging: [],
+    });
+    await delivered();
+    expect(present.mock.lastCall?.[0]).toEqual([expect.objectContaining({ uid: "u1" })]);
+    await repo.clearPresence(g, "u1");
+    await delivered();
+    expect(present).toHaveBeenLastCalledWith([]);
+
+    const draft = { savedAt: 1, items: [] };
+    await repo.saveDraft(g, "u1", draft);
+    expect(await repo.getDraft(g, "u1")).toEqual(draft);
+    expect(await repo.getDraft(g, "u2")).toBeNull();
+    await repo.deleteDraft(g, "u1");
+    expect(await repo.getDraft(g, "u1")).toBeNull();
+
+    const snap = await repo.addSnapshot(g, {
+      name: "v1",
+      auto: false,
+      createdBy: "u1",
+      canvas: null,
+      items: {},
+    });
+    expect((await repo.listSnapshots(g)).map((s) => s.id)).toEqual([snap]);
+    await repo.deleteSnapshot(g, snap);
+    expect(await repo.listSnapshots(g)).toEqual([]);
+  });
+
+  it("keeps albums per gallery", async () => {
+    const repo = createMemoryRepository();
+    const g = await repo.createGallery("G", owner.uid);
+    const other = await repo.createGallery("H", owner.uid);
+    const seen = vi.fn();
+    repo.subscribeAlbums(g, seen);
+    const id = await repo.addAlbum(g, { name: "Dogs", itemIds: ["a"], createdBy: "u1" });
+    await repo.addToAlbum(g, id, ["b", "a"]);
+    await delivered();
+    expect(seen.mock.lastCall?.[0]).toEqual([
+      expect.objectContaining({ id, name: "Dogs", itemIds: ["a", "b"] }),
+    ]);
+    await repo.removeFromAlbum(g, id, ["a"]);
+    await delivered();
+    expect(seen.mock.lastCall?.[0][0].itemIds).toEqual(["b"]);
+    await expect(repo.addToAlbum(other, id, ["c"])).rejects.toThrow();
+    await repo.deleteAlbum(g, id);
+    await delivered();
+    expect(seen).toHaveBeenLastCalledWith([]);
+  });
+
+  it("keeps saved searches per account", async () => {
+    const repo = createMemoryRepository();
+    const seen = vi.fn();
+    repo.subscribeSavedSearches("u1", seen);
+    const filter = { ...EMPTY_FILTER, text: "dog" };
+    const id = await repo.addSavedSearch("u1", { name: "Dogs", filter });
+    await delivered();
+    expect(seen.mock.lastCall?.[0]).toEqual([expect.objectContaining({ id, name: "Dogs" })]);
+    await repo.deleteSavedSearch("u1", id);
+    await delivered();
+    expect(seen).toHaveBeenLastCalledWith([]);
+  });
+});
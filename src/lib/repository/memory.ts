@@ -0,0 +1,384 @@
+// lib/repository/memory.ts
+import { Timestamp } from "firebase/firestore";
+import type { AuthUser } from "@/lib/auth/types";
+import {
+  type Gallery,
+  type GalleryItem,
+  galleryStorageKey,
+  roleOf,
+} from "@/lib/galleries";
+import type { Album } from "@/lib/albums";
+import type { CloudDraft } from "@/lib/drafts";
+import type { Presence } from "@/lib/presence";
+import type { SavedSearch } from "@/lib/search";
+import type { Snapshot } from "@/lib/snapshots";
+import { type GalleryRepository, UploadCanceledError } from "./types";
+
+type GalleryState = {
+  meta: Gallery | null;
+  items: Map<string, GalleryItem>;
+  albums: Map<string, Album>;
+  presence: Map<string, Presence>;
+  drafts: Map<string, CloudDraft>;
+  snapshots: Map<string, Snapshot>;
+};
+
+// newest first, like the Firestore queries
+function byCreatedDesc(a: { createdAt?: Timestamp | null }, b: { createdAt?: Timestamp | null }) {
+  return (b.createdAt?.toMillis() ?? 0) - (a.createdAt?.toMillis() ?? 0);
+}
+
+function blobUrl(storagePath: string, file: Blob) {
+  return typeof URL.createObjectURL === "function"
+    ? URL.createObjectURL(file)
+    : `memory://${storagePath}`;
+}
+
+// In-process repository for tests and offline work; nothing survives a reload
+export function createMemoryRepository(): GalleryRepository & {
+  blobs: ReadonlyMap<string, Blob>;
+} {
+  const galleries = new Map<string, GalleryState>();
+  const blobs = new Map<string, Blob>();
+  const urls = new Map<string, string>(); // url → storagePath
+  const searches = new Map<string, Map<string, SavedSearch>>(); // by uid
+
+  const galleryListeners = new Map<(list: Gallery[]) => void, AuthUser>();
+  const metaListeners = new Map<string, Set<(g: Gallery | null) => void>>();
+  const itemListeners = new Map<string, Set<(list: GalleryItem[]) => void>>();
+  const albumListeners = new Map<string, Set<(list: Album[]) => void>>();
+  const presenceListeners = new Map<string, Set<(list: Presence[]) => void>>();
+  const snapshotListeners = new Map<string, Set<(list: Snapshot[]) => void>>();
+  const searchListeners = new Map<string, Set<(list: SavedSearch[]) => void>>();
+
+  let seq = 0;
+  const nextId = () => `mem-${Date.now().toString(36)}-${(seq++).toString(36)}`;
+
+  const state = (galleryId: string) => {
+    let g = galleries.get(galleryId);
+    if (!g) {
+      g = {
+        meta: null,
+        items: new Map(),
+        albums: new Map(),
+        presence: new Map(),
+        drafts: new Map(),
+        snapshots: new Map(),
+      };
+      galleries.set(galleryId, g);
+    }
+    return g;
+  };
+
+  const galleryList = (user: AuthUser) =>
+    [...galleries.values()]
+      .flatMap((g) => (g.meta && roleOf(g.meta, user) ? [{ ...g.meta }] : []))
+      .sort(byCreatedDesc);
+
+  const itemList = (galleryId: string) =>
+    [...(galleries.get(galleryId)?.items.values() ?? [])]
+      .map((it) => ({ ...it }))
+      .sort(byCreatedDesc);
+
+  const albumList = (galleryId: string) =>
+    [...(galleries.get(galleryId)?.albums.values() ?? [])]
+      .map((a) => ({ ...a, itemIds: [...a.itemIds] }))
+      .sort(byCreatedDesc);
+
+  const presenceList = (galleryId: string) =>
+    [...(galleries.get(galleryId)?.presence.values() ?? [])].map((p) => ({ ...p }));
+
+  const snapshotList = (galleryId: string) =>
+    [...(galleries.get(galleryId)?.snapshots.values() ?? [])]
+      .map((s) => ({ ...s, canvas: structuredClone(s.canvas), items: structuredClone(s.items) }))
+      .sort(byCreatedDesc);
+
+  const searchList = (uid: string) =>
+    [...(searches.get(uid)?.values() ?? [])]
+      .map((s) => ({ ...s, filter: structuredClone(s.filter) }))
+      .sort(byCreatedDesc);
+
+  const listenersFor = <T>(map: Map<string, Set<T>>, key: string) => {
+    let set = map.get(key);
+    if (!set) {
+      set = new Set();
+      map.set(key, set);
+    }
+    return set;
+  };
+
+  // deliver asynchronously, as Firestore snapshots are
+  const emit = (galleryId: string) =>
+    queueMicrotask(() => {
+      galleryListeners.forEach((user, cb) => cb(galleryList(user)));
+      const meta = galleries.get(galleryId)?.meta ?? null;
+      metaListeners.get(galleryId)?.forEach((cb) => cb(meta && { ...meta }));
+      const items = itemList(galleryId);
+      itemListeners.get(galleryId)?.forEach((cb) => cb(items));
+      const albums = albumList(galleryId);
+      albumListeners.get(galleryId)?.forEach((cb) => cb(albums));
+      const presence = presenceList(galleryId);
+      presenceListeners.get(galleryId)?.forEach((cb) => cb(presence));
+      const snapshots = snapshotList(galleryId);
+      snapshotListeners.get(galleryId)?.forEach((cb) => cb(snapshots));
+    });
+
+  const emitSearches = (uid: string) =>
+    queueMicrotask(() => {
+      const list = searchList(uid);
+      searchListeners.get(uid)?.forEach((cb) => cb(list));
+    });
+
+  const requireMeta = (galleryId: string) => {
+    const meta = galleries.get(galleryId)?.meta;
+    if (!meta) throw new Error(`No gallery "${galleryId}"`);
+    return meta;
+  };
+
+  const requireAlbum = (galleryId: string, albumId: string) => {
+    const album = galleries.get(galleryId)?.albums.get(albumId);
+    if (!album) throw new Error(`No album "${albumId}" in gallery "${galleryId}"`);
+    return album;
+  };
+
+  const requireItem = (galleryId: string, itemId: string) => {
+    const item = galleries.get(galleryId)?.items.get(itemId);
+    if (!item) throw new Error(`No item "${itemId}" in gallery "${galleryId}"`);
+    return item;
+  };
+
+  const dropBlob = (storagePath: string) => {
+    blobs.delete(storagePath);
+    urls.forEach((path, url) => {
+      if (path !== storagePath) return;
+      urls.delete(url);
+      if (url.startsWith("blob:")) URL.revokeObjectURL(url);
+    });
+  };
+
+  return {
+    blobs,
+
+    subscribeGalleries(user, cb) {
+      galleryListeners.set(cb, user);
+      queueMicrotask(() => galleryListeners.has(cb) && cb(galleryList(user)));
+      return () => void galleryListeners.delete(cb);
+    },
+
+    subscribeGallery(galleryId, cb) {
+      const set = listenersFor(metaListeners, galleryId);
+      set.add(cb);
+      queueMicrotask(() => {
+        const meta = galleries.get(galleryId)?.meta ?? null;
+        if (set.has(cb)) cb(meta && { ...meta });
+      });
+      return () => void set.delete(cb);
+    },
+
+    async getGallery(galleryId) {
+      const meta = galleries.get(galleryId)?.meta;
+      return meta ? { ...meta } : null;
+    },
+
+    async createGallery(name, ownerId) {
+      const id = nextId();
+      const now = Timestamp.now();
+      state(id).meta = { id, name: name.trim(), ownerId, createdAt: now, updatedAt: now };
+      emit(id);
+      return id;
+    },
+
+    async renameGallery(galleryId, name) {
+      const meta = requireMeta(galleryId);
+      meta.name = name.trim();
+      meta.updatedAt = Timestamp.now();
+      emit(galleryId);
+    },
+
+    async updateGallery(galleryId, patch) {
+      Object.assign(requireMeta(galleryId), patch, { updatedAt: Timestamp.now() });
+      emit(galleryId);
+    },
+
+    async touchGallery(galleryId) {
+      requireMeta(galleryId).updatedAt = Timestamp.now();
+      emit(galleryId);
+    },
+
+    async deleteGallery(galleryId) {
+      const prefix = `galleries/${galleryId}/`;
+      [...blobs.keys()].filter((p) => p.startsWith(prefix)).forEach(dropBlob);
+      galleries.delete(galleryId);
+      emit(galleryId);
+    },
+
+    async listItems(galleryId) {
+      return itemList(galleryId);
+    },
+
+    subscribeItems(galleryId, cb) {
+      const set = listenersFor(itemListeners, galleryId);
+      set.add(cb);
+      queueMicrotask(() => set.has(cb) && cb(itemList(galleryId)));
+      return () => void set.delete(cb);
+    },
+
+    async searchItems(galleryId, { tag, from, to, limit }) {
+      return itemList(galleryId)
+        .filter((it) => {
+          const added = it.createdAt?.toMillis() ?? 0;
+          if (tag && !it.tags?.includes(tag)) return false;
+          if (from && added < from.getTime()) return false;
+          return !to || added < to.getTime();
+        })
+        .slice(0, limit);
+    },
+
+    async addItem(galleryId, item) {
+      const id = nextId();
+      state(galleryId).items.set(id, { ...item, id, createdAt: Timestamp.now() });
+      emit(galleryId);
+      return id;
+    },
+
+    async setItem(galleryId, itemId, item) {
+      state(galleryId).items.set(itemId, { ...item, id: itemId, createdAt: Timestamp.now() });
+      emit(galleryId);
+    },
+
+    async updateItem(galleryId, itemId, patch) {
+      Object.assign(requireItem(galleryId, itemId), patch);
+      emit(galleryId);
+    },
+
+    async deleteItem(galleryId, itemId) {
+      galleries.get(galleryId)?.items.delete(itemId);
+      emit(galleryId);
+    },
+
+    subscribeAlbums(galleryId, cb) {
+      const set = listenersFor(albumListeners, galleryId);
+      set.add(cb);
+      queueMicrotask(() => set.has(cb) && cb(albumList(galleryId)));
+      return () => void set.delete(cb);
+    },
+
+    async addAlbum(galleryId, album) {
+      const id = nextId();
+      const stored = { ...album, itemIds: [...new Set(album.itemIds)], id };
+      state(galleryId).albums.set(id, { ...stored, createdAt: Timestamp.now() });
+      emit(galleryId);
+      return id;
+    },
+
+    async addToAlbum(galleryId, albumId, itemIds) {
+      const album = requireAlbum(galleryId, albumId);
+      album.itemIds = [...new Set([...album.itemIds, ...itemIds])];
+      emit(galleryId);
+    },
+
+    async removeFromAlbum(galleryId, albumId, itemIds) {
+      const album = requireAlbum(galleryId, albumId);
+      album.itemIds = album.itemIds.filter((id) => !itemIds.includes(id));
+      emit(galleryId);
+    },
+
+    async deleteAlbum(galleryId, albumId) {
+      galleries.get(galleryId)?.albums.delete(albumId);
+      emit(galleryId);
+    },
+
+    subscribePresence(galleryId, cb) {
+      const set = listenersFor(presenceListeners, galleryId);
+      set.add(cb);
+      queueMicrotask(() => set.has(cb) && cb(presenceList(galleryId)));
+      return () => void set.delete(cb);
+    },
+
+    async setPresence(galleryId, uid, presence) {
+      state(galleryId).presence.set(uid, { ...presence, uid, updatedAt: Timestamp.now() });
+      emit(galleryId);
+    },
+
+    async clearPresence(galleryId, uid) {
+      galleries.get(galleryId)?.presence.delete(uid);
+      emit(galleryId);
+    },
+
+    async getDraft(galleryId, uid) {
+      const draft = galleries.get(galleryId)?.drafts.get(uid);
+      return draft ? structuredClone(draft) : null;
+    },
+
+    async saveDraft(galleryId, uid, draft) {
+      state(galleryId).drafts.set(uid, structuredClone(draft));
+    },
+
+    async deleteDraft(galleryId, uid) {
+      galleries.get(galleryId)?.drafts.delete(uid);
+    },
+
+    async listSnapshots(galleryId) {
+      return snapshotList(galleryId);
+    },
+
+    subscribeSnapshots(galleryId, cb) {
+      const set = listenersFor(snapshotListeners, galleryId);
+      set.add(cb);
+      queueMicrotask(() => set.has(cb) && cb(snapshotList(galleryId)));
+      return () => void set.delete(cb);
+    },
+
+    async addSnapshot(galleryId, snapshot) {
+      const id = nextId();
+      const stored = { ...structuredClone(snapshot), id, createdAt: Timestamp.now() };
+      state(galleryId).snapshots.set(id, stored);
+      emit(galleryId);
+      return id;
+    },
+
+    async deleteSnapshot(galleryId, snapshotId) {
+      galleries.get(galleryId)?.snapshots.delete(snapshotId);
+      emit(galleryId);
+    },
+
+    subscribeSavedSearches(uid, cb) {
+      const set = listenersFor(searchListeners, uid);
+      set.add(cb);
+      queueMicrotask(() => set.has(cb) && cb(searchList(uid)));
+      return () => void set.delete(cb);
+    },
+
+    async addSavedSearch(uid, search) {
+      const id = nextId();
+      let mine = searches.get(uid);
+      if (!mine) {
+        mine = new Map();
+        searches.set(uid, mine);
+      }
+      mine.set(id, { ...structuredClone(search), id, createdAt: Timestamp.now() });
+      emitSearches(uid);
+      return id;
+    },
+
+    async deleteSavedSearch(uid, searchId) {
+      searches.get(uid)?.delete(searchId);
+      emitSearches(uid);
+    },
+
+    async uploadBlob(galleryId, file, { onProgress, signal } = {}) {
+      if (signal?.aborted) throw new UploadCanceledError();
+      onProgress?.(1);
+      const storagePath = galleryStorageKey(galleryId, file.name);
+      blobs.set(storagePath, file);
+      const url = blobUrl(storagePath, file);
+      urls.set(url, storagePath);
+      return { storagePath, url };
+    },
+
+    async deleteBlob(blob) {
+      const storagePath = blob.storagePath || urls.get(blob.url);
+      if (storagePath) dropBlob(storagePath);
+    },
+  };
+}
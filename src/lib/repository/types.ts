@@ -0,0 +1,122 @@
+// lib/repository/types.ts
+import type { Album, NewAlbum } from "@/lib/albums";
+import type { AuthUser } from "@/lib/auth/types";
+import type { CloudDraft } from "@/lib/drafts";
+import type { Gallery, GalleryItem, GalleryPatch, NewGalleryItem } from "@/lib/galleries";
+import type { Presence, PresenceState } from "@/lib/presence";
+import type { ItemQuery, NewSavedSearch, SavedSearch } from "@/lib/search";
+import type { NewSnapshot, Snapshot } from "@/lib/snapshots";
+
+export type Unsubscribe = () => void;
+
+// Why a subscription stopped (lost access, a missing index, ...); it delivers nothing after
+export type SubscriptionError = (err: Error) => void;
+
+// A stored file: its key in the blob store and the URL it is served from
+export type StoredBlob = { storagePath: string; url: string };
+
+export type UploadOptions = {
+  // fraction of bytes sent so far, 0..1
+  onProgress?: (fraction: number) => void;
+  // aborting rejects the upload with UploadCanceledError
+  signal?: AbortSignal;
+};
+
+export class UploadCanceledError extends Error {
+  constructor() {
+    super("Upload canceled");
+    this.name = "UploadCanceledError";
+  }
+}
+
+// Everything the gallery UI needs from persistence; swap implementations to
+// run against Firebase, the local emulators or plain memory.
+export interface GalleryRepository {
+  /* galleries */
+  // galleries `user` owns or was invited to (newest first)
+  subscribeGalleries(
+    user: AuthUser,
+    cb: (list: Gallery[]) => void,
+    onError?: SubscriptionError
+  ): Unsubscribe;
+  // null when the gallery doesn't exist or isn't shared with the current user
+  subscribeGallery(
+    galleryId: string,
+    cb: (gallery: Gallery | null) => void,
+    onError?: SubscriptionError
+  ): Unsubscribe;
+  getGallery(galleryId: string): Promise<Gallery | null>;
+  createGallery(name: string, ownerId: string): Promise<string>;
+  renameGallery(galleryId: string, name: string): Promise<void>;
+  updateGallery(galleryId: string, patch: GalleryPatch): Promise<void>;
+  touchGallery(galleryId: string): Promise<void>;
+  // removes the gallery document, its items, albums, snapshots and drafts, and all of its blobs
+  deleteGallery(galleryId: string): Promise<void>;
+
+  /* items (newest first) */
+  listItems(galleryId: string): Promise<GalleryItem[]>;
+  subscribeItems(
+    galleryId: string,
+    cb: (list: GalleryItem[]) => void,
+    onError?: SubscriptionError
+  ): Unsubscribe;
+  // items narrowed by a tag and when they were added
+  searchItems(galleryId: string, q: ItemQuery): Promise<GalleryItem[]>;
+  addItem(galleryId: string, item: NewGalleryItem): Promise<string>;
+  // creates or replaces the item under `itemId` (to bring back one that was removed)
+  setItem(galleryId: string, itemId: string, item: NewGalleryItem): Promise<void>;
+  updateItem(galleryId: string, itemId: string, patch: Partial<NewGalleryItem>): Promise<void>;
+  deleteItem(galleryId: string, itemId: string): Promise<void>;
+
+  /* albums (named sets of saved items, newest first) */
+  subscribeAlbums(
+    galleryId: string,
+    cb: (list: Album[]) => void,
+    onError?: SubscriptionError
+  ): Unsubscribe;
+  addAlbum(galleryId: string, album: NewAlbum): Promise<string>;
+  // add or take out items, leaving the rest of the album as it is
+  addToAlbum(galleryId: string, albumId: string, itemIds: string[]): Promise<void>;
+  removeFromAlbum(galleryId: string, albumId: string, itemIds: string[]): Promise<void>;
+  deleteAlbum(galleryId: string, albumId: string): Promise<void>;
+
+  /* presence (collaborators with the editor open) */
+  subscribePresence(
+    galleryId: string,
+    cb: (list: Presence[]) => void,
+    onError?: SubscriptionError
+  ): Unsubscribe;
+  // creates or replaces the entry for `uid`
+  setPresence(galleryId: string, uid: string, state: PresenceState): Promise<void>;
+  clearPresence(galleryId: string, uid: string): Promise<void>;
+
+  /* drafts (a member's unsaved previews, to carry on from another device) */
+  getDraft(galleryId: string, uid: string): Promise<CloudDraft | null>;
+  // creates or replaces the draft of `uid`
+  saveDraft(galleryId: string, uid: string, draft: CloudDraft): Promise<void>;
+  deleteDraft(galleryId: string, uid: string): Promise<void>;
+
+  /* snapshots (versions of the arrangement, newest first) */
+  listSnapshots(galleryId: string): Promise<Snapshot[]>;
+  subscribeSnapshots(
+    galleryId: string,
+    cb: (list: Snapshot[]) => void,
+    onError?: SubscriptionError
+  ): Unsubscribe;
+  addSnapshot(galleryId: string, snapshot: NewSnapshot): Promise<string>;
+  deleteSnapshot(galleryId: string, snapshotId: string): Promise<void>;
+
+  /* saved searches (per account, newest first) */
+  subscribeSavedSearches(
+    uid: string,
+    cb: (list: SavedSearch[]) => void,
+    onError?: SubscriptionError
+  ): Unsubscribe;
+  addSavedSearch(uid: string, search: NewSavedSearch): Promise<string>;
+  deleteSavedSearch(uid: string, searchId: string): Promise<void>;
+
+  /* blobs */
+  uploadBlob(galleryId: string, file: File, opts?: UploadOptions): Promise<StoredBlob>;
+  // resolves quietly when the blob is already gone
+  deleteBlob(blob: { storagePath?: string | null; url: string }): Promise<void>;
+}
@@ -0,0 +1,115 @@
+import { Timestamp } from "firebase/firestore";
+import { describe, expect, it } from "vitest";
+import { noEdits } from "@/lib/edits";
+import type { Gallery, GalleryItem } from "@/lib/galleries";
+import { createMemoryRepository } from "@/lib/repository";
+import {
+  type ItemFilter,
+  EMPTY_FILTER,
+  describeFilter,
+  isEmptyFilter,
+  matchesFilter,
+  orientationOf,
+  queryOf,
+  searchGalleries,
+  tagsOf,
+} from "@/lib/search";
+
+const at = (day: string) => Timestamp.fromDate(new Date(`${day}T12:00:00`));
+
+const item = (patch: Partial<GalleryItem>): GalleryItem => ({
+  url: "https://example.com/a.jpg",
+  x: 0,
+  y: 0,
+  w: 0.2,
+  h: 0.2,
+  ...patch,
+});
+
+const filter = (patch: Partial<ItemFilter>): ItemFilter => ({ ...EMPTY_FILTER, ...patch });
+
+describe("matchesFilter", () => {
+  const beach = item({
+    fileName: "IMG_001.jpg",
+    caption: "Sunset at the beach",
+    tags: ["beach", "sunset"],
+    createdAt: at("2024-06-15"),
+    originalW: 4000,
+    originalH: 3000,
+  });
+
+  it("matches everything with an empty filter", () => {
+    expect(isEmptyFilter(EMPTY_FILTER)).toBe(true);
+    expect(matchesFilter(beach, EMPTY_FILTER)).toBe(true);
+  });
+
+  it("needs every tag", () => {
+    expect(matchesFilter(beach, filter({ tags: ["beach"] }))).toBe(true);
+    expect(matchesFilter(beach, filter({ tags: ["beach", "dog"] }))).toBe(false);
+  });
+
+  it("finds every word in the file name, caption, title or alt text", () => {
+    expect(matchesFilter(beach, filter({ text: "  SUNSET img_001 " }))).toBe(true);
+    expect(matchesFilter(beach, filter({ text: "sunset dog" }))).toBe(false);
+  });
+
+  it("includes both ends of the date range", () => {
+    expect(matchesFilter(beach, filter({ from: "2024-06-15", to: "2024-06-15" }))).toBe(true);
+    expect(matchesFilter(beach, filter({ from: "2024-06-16" }))).toBe(false);
+    expect(matchesFilter(beach, filter({ to: "2024-06-14" }))).toBe(false);
+  });
+
+  it("counts an item still being written as added now", () => {
+    expect(matchesFilter(item({}), filter({ to: "2000-01-01" }))).toBe(false);
+  });
+
+  it("goes by the crop when the image is edited", () => {
+    expect(orientationOf(beach)).toBe("landscape");
+    const square = { ...noEdits(4 / 3), crop: { x: 0, y: 0, w: 0.75, h: 1 } };
+    expect(orientationOf({ ...beach, edits: square })).toBe("square");
+    expect(orientationOf(item({}))).toBeNull();
+    expect(matchesFilter(beach, filter({ orientation: "portrait" }))).toBe(false);
+  });
+});
+
+describe("tagsOf / describeFilter / queryOf", () => {
+  it("lists tags most used first", () => {
+    const list = [item({ tags: ["b", "a"] }), item({ tags: ["a"] }), item({ tags: ["c"] })];
+    expect(tagsOf(list)).toEqual(["a", "b", "c"]);
+  });
+
+  it("names a filter", () => {
+    const f = filter({ tags: ["beach"], text: "dog", from: "2024-01-01", orientation: "square" });
+    expect(describeFilter(f)).toBe("#beach · “dog” · from 2024-01-01 · square");
+  });
+
+  it("narrows a query by the first tag and whole days", () => {
+    const q = queryOf(filter({ tags: ["a", "b"], from: "2024-01-01", to: "2024-01-31" }), 10);
+    expect(q.tag).toBe("a");
+    expect(q.from).toEqual(new Date("2024-01-01T00:00:00"));
+    expect(q.to).toEqual(new Date("2024-02-01T00:00:00"));
+    expect(q.limit).toBe(10);
+  });
+});
+
+describe("searchGalleries", () => {
+  it("finds matching items across galleries", async () => {
+    const repo = createMemoryRepository();
+    const a = await repo.createGallery("A", "u1");
+    const b = await repo.createGallery("B", "u1");
+    await repo.addItem(a, item({ fileName: "dog.jpg", tags: ["pets"] }));
+    await repo.addItem(a, item({ fileName: "cat.jpg", tags: ["pets"] }));
+    await repo.addItem(b, item({ fileName: "dog-2.jpg", tags: ["pets"] }));
+    await repo.addItem(b, item({ fileName: "dog-3.jpg" }));
+    const galleries = (await Promise.all([a, b].map((id) => repo.getGallery(id)))).filter(
+      (g): g is Gallery => !!g
+    );
+
+    const result = await searchGalleries(repo, galleries, filter({ tags: ["pets"], text: "dog" }));
+    expect(result.truncated).toBe(false);
+    expect(result.hits.map((h) => [h.gallery.name, h.item.fileName]).sort()).toEqual([
+      ["A", "dog.jpg"],
+      ["B", "dog-2.jpg"],
+    ]);
+  });
+});
@@ -0,0 +1,164 @@
+// lib/search.ts
+// Finding saved items: a filter by tags, words, dates and shape that the gallery page
+// applies to its items and the search page runs across every gallery the user can open.
+// Firestore narrows a search by one tag and the dates; it has no substring search, so
+// words and the shape are matched here.
+import type { Timestamp } from "firebase/firestore";
+import { cropAspect } from "@/lib/edits";
+import type { Gallery, GalleryItem } from "@/lib/galleries";
+import type { GalleryRepository } from "@/lib/repository";
+
+/* -------------------- Types -------------------- */
+export type Orientation = "landscape" | "portrait" | "square";
+
+export const ORIENTATION_LABELS: Record<Orientation, string> = {
+  landscape: "Landscape",
+  portrait: "Portrait",
+  square: "Square",
+};
+
+export type ItemFilter = {
+  // items carry all of them
+  tags: string[];
+  // words found in the file name, caption, title or alt text
+  text: string;
+  // added on or after / on or before these days ("YYYY-MM-DD", local time)
+  from: string | null;
+  to: string | null;
+  orientation: Orientation | null;
+};
+
+export const EMPTY_FILTER: ItemFilter = {
+  tags: [],
+  text: "",
+  from: null,
+  to: null,
+  orientation: null,
+};
+
+// users/{uid}/searches/{searchId}
+export type SavedSearch = {
+  id: string;
+  name: string;
+  filter: ItemFilter;
+  createdAt?: Timestamp | null;
+};
+
+export type NewSavedSearch = Omit<SavedSearch, "id" | "createdAt">;
+
+// What a repository can narrow a gallery's items by, newest first
+export type ItemQuery = {
+  tag: string | null;
+  // createdAt from (inclusive) / to (exclusive)
+  from: Date | null;
+  to: Date | null;
+  limit: number;
+};
+
+// Items read per gallery by a cross-gallery search
+export const SEARCH_LIMIT = 200;
+
+// Within this much of 1:1 counts as square
+const SQUARE_TOLERANCE = 0.05;
+
+/* -------------------- Matching -------------------- */
+export function isEmptyFilter(f: ItemFilter) {
+  return !f.tags.length && !f.text.trim() && !f.from && !f.to && !f.orientation;
+}
+
+// Start of a "YYYY-MM-DD" day in local time
+function dayStart(day: string) {
+  return new Date(`${day}T00:00:00`);
+}
+
+function nextDayStart(day: string) {
+  const d = dayStart(day);
+  d.setDate(d.getDate() + 1);
+  return d;
+}
+
+// width / height as shown: the crop when the image is edited, otherwise the file
+export function itemAspect(it: Pick<GalleryItem, "edits" | "originalW" | "originalH">) {
+  if (it.edits) return cropAspect(it.edits);
+  return it.originalW && it.originalH ? it.originalW / it.originalH : null;
+}
+
+export function orientationOf(
+  it: Pick<GalleryItem, "edits" | "originalW" | "originalH">
+): Orientation | null {
+  const a = itemAspect(it);
+  if (!a) return null;
+  if (Math.abs(a - 1) <= SQUARE_TOLERANCE) return "square";
+  return a > 1 ? "landscape" : "portrait";
+}
+
+export function matchesFilter(it: GalleryItem, f: ItemFilter) {
+  if (f.tags.some((t) => !it.tags?.includes(t))) return false;
+  const words = f.text.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length) {
+    const haystack = [it.fileName, it.caption, it.title, it.alt].join(" ").toLowerCase();
+    if (words.some((w) => !haystack.includes(w))) return false;
+  }
+  // still being written: added just now
+  const added = it.createdAt?.toMillis() ?? Date.now();
+  if (f.from && added < dayStart(f.from).getTime()) return false;
+  if (f.to && added >= nextDayStart(f.to).getTime()) return false;
+  if (f.orientation && orientationOf(it) !== f.orientation) return false;
+  return true;
+}
+
+// Tags in use, most used first
+export function tagsOf(items: GalleryItem[]): string[] {
+  const counts = new Map<string, number>();
+  items.forEach((it) => it.tags?.forEach((t) => counts.set(t, (counts.get(t) ?? 0) + 1)));
+  return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([t]) => t);
+}
+
+// "#beach #sunset · “dog” · portrait", to name a saved search
+export function describeFilter(f: ItemFilter) {
+  const dates =
+    f.from && f.to ? `${f.from} – ${f.to}` : f.from ? `from ${f.from}` : f.to ? `to ${f.to}` : "";
+  const parts = [
+    f.tags.map((t) => `#${t}`).join(" "),
+    f.text.trim() && `“${f.text.trim()}”`,
+    dates,
+    f.orientation && ORIENTATION_LABELS[f.orientation].toLowerCase(),
+  ];
+  return parts.filter(Boolean).join(" · ");
+}
+
+/* -------------------- Across galleries -------------------- */
+export function queryOf(f: ItemFilter, limit = SEARCH_LIMIT): ItemQuery {
+  return {
+    tag: f.tags[0] ?? null,
+    from: f.from ? dayStart(f.from) : null,
+    to: f.to ? nextDayStart(f.to) : null,
+    limit,
+  };
+}
+
+export type SearchHit = { gallery: Gallery; item: GalleryItem };
+
+export type SearchResult = {
+  hits: SearchHit[];
+  // galleries with more candidates than were read: older matches may be missing
+  truncated: boolean;
+};
+
+// Items matching `filter` in each of `galleries`, newest first
+export async function searchGalleries(
+  repo: GalleryRepository,
+  galleries: Gallery[],
+  filter: ItemFilter
+): Promise<SearchResult> {
+  const q = queryOf(filter);
+  const found = await Promise.all(galleries.map((g) => repo.searchItems(g.id, q)));
+  const hits = found.flatMap((items, i) =>
+    items
+      .filter((it) => matchesFilter(it, filter))
+      .map((item) => ({ gallery: galleries[i], item }))
+  );
+  const time = (h: SearchHit) => h.item.createdAt?.toMillis() ?? Date.now();
+  hits.sort((a, b) => time(b) - time(a));
+  return { hits, truncated: found.some((items) => items.length >= q.limit) };
+}
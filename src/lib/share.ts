@@ -0,0 +1,69 @@
+// lib/share.ts
+// Data for the public, server-rendered gallery page (/g/[galleryId]).
+import { cache } from "react";
+import {
+  type Gallery,
+  type GalleryItem,
+  DEFAULT_VISIBILITY,
+} from "@/lib/galleries";
+import { getGalleryRepository } from "@/lib/repository";
+
+// Plain objects only: these cross from server components into client ones.
+// Who owns, edits or was invited to a gallery isn't anyone else's business, and
+// neither are storage paths or content hashes.
+export type SharedGallery = Omit<
+  Gallery,
+  "createdAt" | "updatedAt" | "ownerId" | "editors" | "viewers"
+>;
+export type SharedItem = Omit<
+  GalleryItem,
+  "createdAt" | "createdBy" | "updatedBy" | "storagePath" | "thumbStoragePath" | "contentHash"
+>;
+
+export function sharePath(galleryId: string) {
+  return `/g/${galleryId}`;
+}
+
+// The server reads signed out, so the rules refuse private galleries rather than
+// returning nothing
+function isUnreadable(err: unknown) {
+  const code = (err as { code?: string }).code;
+  return code === "permission-denied" || code === "not-found";
+}
+
+// A gallery and its items, or null when it doesn't exist or is private.
+// Cached per request, so metadata and page share one read.
+export const loadSharedGallery = cache(
+  async (galleryId: string): Promise<{ gallery: SharedGallery; items: SharedItem[] } | null> => {
+    const repo = getGalleryRepository();
+    let gallery: Gallery | null;
+    let items: GalleryItem[];
+    try {
+      gallery = await repo.getGallery(galleryId);
+      if (!gallery || (gallery.visibility ?? DEFAULT_VISIBILITY) === "private") return null;
+      items = await repo.listItems(galleryId);
+    } catch (err) {
+      if (isUnreadable(err)) return null;
+      throw err;
+    }
+    const meta: SharedGallery & Partial<Gallery> = { ...gallery };
+    delete meta.createdAt;
+    delete meta.updatedAt;
+    delete meta.ownerId;
+    delete meta.editors;
+    delete meta.viewers;
+    return {
+      gallery: meta,
+      items: items.map((item) => {
+        const it: SharedItem & Partial<GalleryItem> = { ...item };
+        delete it.createdAt;
+        delete it.createdBy;
+        delete it.updatedBy;
+        delete it.storagePath;
+        delete it.thumbStoragePath;
+        delete it.contentHash;
+        return it;
+      }),
+    };
+  }
+);
@@ -0,0 +1,329 @@
+// lib/snapshots.ts
+// Versions of a gallery's arrangement. Every Save records one and editors can add named
+// ones; any of them can be compared with the canvas as it is now and restored. A snapshot
+// keeps each item's layout, captions and file references, not its whole document.
+import { useEffect, useRef, useState } from "react";
+import type { Timestamp } from "firebase/firestore";
+import { canvasOf, layoutAt } from "@/lib/canvas";
+import {
+  type Gallery,
+  type GalleryItem,
+  type ItemMeta,
+  type NewGalleryItem,
+  deleteUnusedImages,
+  fetchItemImage,
+  pickMeta,
+} from "@/lib/galleries";
+import type { Layout } from "@/lib/layout";
+import type { GalleryRepository } from "@/lib/repository";
+
+/* -------------------- Types -------------------- */
+// Item fields a snapshot puts back on an item that still exists
+const ARRANGEMENT_KEYS = ["x", "y", "w", "h", "units", "layouts", "z", "locked", "edits"] as const;
+const META_KEYS = ["caption", "alt", "title", "tags", "credit"] as const;
+// the image shown; a replaced image is swapped back (the old files are kept for it)
+const FILE_KEYS = ["url", "storagePath", "thumbUrl", "thumbStoragePath"] as const;
+
+type Arrangement = Pick<NewGalleryItem, (typeof ARRANGEMENT_KEYS)[number]>;
+type FileKey = (typeof FILE_KEYS)[number];
+
+// The files an item pointed at and what is known of them: to draw it, to put it back
+// once removed or replaced, and to keep them in storage while a snapshot may need them
+type SnapshotFiles = Required<
+  Pick<GalleryItem, FileKey | "fileName" | "contentHash" | "originalW" | "originalH">
+>;
+
+// An item as it was: where it sat and how it was shown, not its whole document
+export type SnapshotItem = Arrangement & Required<ItemMeta> & SnapshotFiles;
+
+// galleries/{galleryId}/snapshots/{snapshotId}
+export type Snapshot = {
+  id: string;
+  name: string;
+  // recorded by Save (or before a restore) rather than by hand; the oldest are pruned
+  auto: boolean;
+  createdAt?: Timestamp | null;
+  createdBy: string | null;
+  canvas: Gallery["canvas"];
+  // by item id
+  items: Record<string, SnapshotItem>;
+};
+
+export type NewSnapshot = Omit<Snapshot, "id" | "createdAt">;
+
+// Automatic snapshots kept per gallery; named ones are kept until deleted
+export const AUTO_SNAPSHOT_LIMIT = 30;
+
+// Firestore documents top out at 1 MiB; stay clear of it
+const MAX_SNAPSHOT_CHARS = 900_000;
+
+function arrangementOf(it: Arrangement): Arrangement {
+  return {
+    x: it.x,
+    y: it.y,
+    w: it.w,
+    h: it.h,
+    units: it.units ?? null,
+    layouts: it.layouts ?? null,
+    z: it.z ?? null,
+    locked: it.locked ?? null,
+    edits: it.edits ?? null,
+  };
+}
+
+function sameFields<K extends string>(
+  keys: readonly K[],
+  a: Partial<Record<K, unknown>>,
+  b: Partial<Record<K, unknown>>
+) {
+  return keys.every((k) => JSON.stringify(a[k] ?? null) === JSON.stringify(b[k] ?? null));
+}
+
+// File fields as a snapshot keeps them; ones recorded before contentHash and the
+// original size were lack those
+function fileFieldsOf(it: Partial<SnapshotFiles> & Pick<GalleryItem, "url">): SnapshotFiles {
+  return {
+    url: it.url,
+    storagePath: it.storagePath ?? null,
+    thumbUrl: it.thumbUrl ?? null,
+    thumbStoragePath: it.thumbStoragePath ?? null,
+    fileName: it.fileName ?? "",
+    contentHash: it.contentHash ?? null,
+    originalW: it.originalW ?? null,
+    originalH: it.originalH ?? null,
+  };
+}
+
+// Changed since the snapshot: moved, restacked, (un)locked, edited, re-captioned or
+// given another image
+function sameItem(then: SnapshotItem, now: GalleryItem) {
+  return (
+    sameFields(ARRANGEMENT_KEYS, arrangementOf(then), arrangementOf(now)) &&
+    sameFields(META_KEYS, then, pickMeta(now)) &&
+    sameFields(FILE_KEYS, then, now)
+  );
+}
+
+/* -------------------- Taking -------------------- */
+export function snapshotItemOf(it: GalleryItem | SnapshotItem): SnapshotItem {
+  return { ...arrangementOf(it), ...pickMeta(it), ...fileFieldsOf(it) };
+}
+
+export function snapshotOf(
+  gallery: Pick<Gallery, "canvas">,
+  items: GalleryItem[],
+  meta: Pick<Snapshot, "name" | "auto" | "createdBy">
+): NewSnapshot {
+  const kept = items.flatMap((it) => (it.id ? [[it.id, snapshotItemOf(it)] as const] : []));
+  return { ...meta, canvas: gallery.canvas ?? null, items: Object.fromEntries(kept) };
+}
+
+// Records the arrangement of `items`, then drops automatic snapshots past the limit
+export async function takeSnapshot(
+  repo: GalleryRepository,
+  galleryId: string,
+  gallery: Pick<Gallery, "canvas">,
+  items: GalleryItem[],
+  meta: Pick<Snapshot, "name" | "auto" | "createdBy">
+): Promise<string> {
+  const snapshot = snapshotOf(gallery, items, meta);
+  if (JSON.stringify(snapshot).length > MAX_SNAPSHOT_CHARS) {
+    throw new Error(`The gallery has too many images (${items.length}) to record a version`);
+  }
+  const id = await repo.addSnapshot(galleryId, snapshot);
+  if (meta.auto) {
+    const autos = (await repo.listSnapshots(galleryId)).filter((s) => s.auto);
+    await deleteSnapshots(repo, galleryId, autos.slice(AUTO_SNAPSHOT_LIMIT));
+  }
+  return id;
+}
+
+/* -------------------- Deleting -------------------- */
+// Deletes snapshots, then the files that only they still pointed at: items removed or
+// replaced keep their files for as long as a snapshot can bring them back
+export async function deleteSnapshots(
+  repo: GalleryRepository,
+  galleryId: string,
+  doomed: Snapshot[]
+) {
+  if (!doomed.length) return;
+  await Promise.all(doomed.map((s) => repo.deleteSnapshot(galleryId, s.id)));
+  await deleteUnusedImages(repo, galleryId, doomed.flatMap((s) => Object.values(s.items)));
+}
+
+/* -------------------- Comparing -------------------- */
+// How the gallery changed from a snapshot to `items`, by item id
+export type SnapshotDiff = {
+  // moved, restacked, (un)locked, edited, re-captioned or given another image
+  changed: string[];
+  added: string[];
+  removed: string[];
+  // the canvas was resized, which moves everything on screen
+  canvasChanged: boolean;
+};
+
+export function diffSnapshot(
+  snapshot: Pick<Snapshot, "canvas" | "items">,
+  gallery: Pick<Gallery, "canvas">,
+  items: GalleryItem[]
+): SnapshotDiff {
+  const now = new Map(items.flatMap((it) => (it.id ? [[it.id, it] as const] : [])));
+  const changed: string[] = [];
+  const removed: string[] = [];
+  for (const [id, it] of Object.entries(snapshot.items)) {
+    const cur = now.get(id);
+    if (!cur) removed.push(id);
+    else if (!sameItem(it, cur)) changed.push(id);
+  }
+  const added = [...now.keys()].filter((id) => !(id in snapshot.items));
+  const canvasChanged =
+    JSON.stringify(snapshot.canvas ?? null) !== JSON.stringify(gallery.canvas ?? null);
+  return { changed, added, removed, canvasChanged };
+}
+
+export function isUnchanged(d: SnapshotDiff) {
+  return !d.changed.length && !d.added.length && !d.removed.length && !d.canvasChanged;
+}
+
+// An item's base layout as fractions of its canvas, for drawing at any size
+export function snapshotRect(it: GalleryItem, gallery: Pick<Gallery, "canvas">): Layout {
+  const canvas = canvasOf(gallery, "base");
+  const l = layoutAt(it, "base", gallery);
+  return { x: l.x / canvas.w, y: l.y / canvas.h, w: l.w / canvas.w, h: l.h / canvas.h };
+}
+
+/* -------------------- Restoring -------------------- */
+export type RestoreResult = {
+  // items put back as they were, taken off or returned
+  restored: number;
+  // file names of images whose files are gone, so they couldn't come back
+  missing: string[];
+};
+
+// Whether the files a snapshot item points at are still in storage
+const filesExist = (it: SnapshotItem) =>
+  fetchItemImage(it.thumbUrl || it.url, it.fileName || "an image").then(
+    () => true,
+    () => false
+  );
+
+// Puts the gallery back as it was in `snapshot`, after recording how it is now.
+// Items added since are taken off the canvas but their files are kept, so restoring
+// the "before" snapshot brings them back; once no snapshot has them, deleteSnapshots
+// removes the files. Removed items return under their own id, so later snapshots still
+// know them, and replaced images are swapped back, as long as their files exist.
+export async function restoreSnapshot(
+  repo: GalleryRepository,
+  galleryId: string,
+  gallery: Pick<Gallery, "canvas">,
+  items: GalleryItem[],
+  snapshot: Snapshot,
+  uid: string | null
+): Promise<RestoreResult> {
+  await takeSnapshot(repo, galleryId, gallery, items, {
+    name: `Before restoring “${snapshot.name}”`,
+    auto: true,
+    createdBy: uid,
+  });
+  const diff = diffSnapshot(snapshot, gallery, items);
+  const now = new Map(items.map((it) => [it.id, it]));
+  const missing: string[] = [];
+  let restored = 0;
+
+  if (diff.canvasChanged) {
+    await repo.updateGallery(galleryId, { canvas: snapshot.canvas ?? null });
+  }
+  await Promise.all(
+    diff.changed.map(async (id) => {
+      const it = snapshot.items[id];
+      let image: Partial<SnapshotFiles> = {};
+      if (!sameFields(FILE_KEYS, it, now.get(id) ?? {})) {
+        if (await filesExist(it)) image = fileFieldsOf(it);
+        // a replaced image whose old files are gone keeps the one it has now
+        else missing.push(it.fileName || "an image");
+      }
+      await repo.updateItem(galleryId, id, {
+        ...arrangementOf(it),
+        ...pickMeta(it),
+        ...image,
+        updatedBy: uid,
+      });
+      restored++;
+    })
+  );
+  await Promise.all(diff.added.map((id) => repo.deleteItem(galleryId, id)));
+  await Promise.all(
+    diff.removed.map(async (id) => {
+      const it = snapshot.items[id];
+      if (!(await filesExist(it))) {
+        missing.push(it.fileName || "an image");
+        return;
+      }
+      await repo.setItem(galleryId, id, { ...snapshotItemOf(it), createdBy: uid, updatedBy: uid });
+      restored++;
+    })
+  );
+  return { restored: restored + diff.added.length, missing };
+}
+
+/* -------------------- Hook -------------------- */
+// A gallery's snapshots, live, and recording / restoring them for the signed-in editor
+// (`enabled`). `unwritten` are edits not yet written (by item id), which a snapshot
+// includes; `flush` writes them, so a restore starts from what is stored. `onError` says
+// when the list stops updating.
+export function useSnapshots(
+  repo: GalleryRepository,
+  galleryId: string,
+  {
+    gallery,
+    uid,
+    enabled,
+    unwritten,
+    flush,
+    onError,
+  }: {
+    gallery: Gallery | null;
+    uid: string | null;
+    enabled: boolean;
+    unwritten: Record<string, Partial<NewGalleryItem>>;
+    flush: () => Promise<unknown>;
+    onError: (message: string) => void;
+  }
+) {
+  // newest first
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const onErrorRef = useRef(onError);
+  useEffect(() => {
+    onErrorRef.current = onError;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    return repo.subscribeSnapshots(galleryId, setSnapshots, (err) =>
+      onErrorRef.current(`The version history stopped updating: ${err.message}`)
+    );
+  }, [repo, galleryId, enabled]);
+
+  // Saved items as stored, with edits not yet written
+  const storedItems = (list: GalleryItem[]) =>
+    list.map((it) => ({ ...it, ...(it.id ? unwritten[it.id] : undefined) }));
+
+  const record = async (name: string, auto: boolean) => {
+    if (!gallery) return;
+    // read back: items saved a moment ago may not have reached the subscription yet
+    const list = storedItems(await repo.listItems(galleryId));
+    await takeSnapshot(repo, galleryId, gallery, list, { name, auto, createdBy: uid });
+  };
+
+  const restore = async (snapshot: Snapshot) => {
+    await flush();
+    const list = await repo.listItems(galleryId);
+    const result = await restoreSnapshot(repo, galleryId, gallery ?? {}, list, snapshot, uid);
+    if (gallery) await repo.touchGallery(galleryId);
+    return result;
+  };
+
+  const remove = (snapshot: Snapshot) => deleteSnapshots(repo, galleryId, [snapshot]);
+
+  return { snapshots, storedItems, record, restore, remove };
+}
@@ -0,0 +1,235 @@
+// lib/uploads.ts
+// Previews waiting on the preview canvas and the queue that uploads them on Save.
+import { useEffect, useRef, useState } from "react";
+import type { ImageEdits } from "@/lib/edits";
+import {
+  type ItemImage,
+  type ItemMeta,
+  type NewGalleryItem,
+  deleteItemImage,
+  uploadItemImage,
+} from "@/lib/galleries";
+import { type ProcessedImage, processImage } from "@/lib/images";
+import { type GalleryRepository, UploadCanceledError } from "@/lib/repository";
+
+// How many files upload at once when saving
+export const UPLOAD_CONCURRENCY = 3;
+
+export type UploadStatus =
+  | "queued"
+  | "processing"
+  | "uploading"
+  | "saving"
+  | "error"
+  | "canceled";
+
+export type UploadState = {
+  status: UploadStatus;
+  progress: number; // 0..1
+  error?: string;
+  // set once the files are in storage, so a retry only has to write the item
+  stored?: ItemImage;
+};
+
+// A picked file on the preview canvas, until Save writes it to the gallery. The layout
+// is in base canvas units.
+export type PendingFile = {
+  id: string;
+  file: File;
+  previewUrl: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  // width / height of the image, for auto-layout
+  aspect: number;
+  // SHA-256 of the file, to keep duplicates out
+  hash: string;
+  z: number;
+  locked?: boolean;
+  upload?: UploadState;
+  // files already in storage for a cloud draft, so Save only has to write the item
+  stored?: ItemImage;
+  edits?: ImageEdits | null;
+} & ItemMeta;
+
+export function isUploadActive(u?: UploadState) {
+  return (
+    u?.status === "queued" ||
+    u?.status === "processing" ||
+    u?.status === "uploading" ||
+    u?.status === "saving"
+  );
+}
+
+// Runs at most `limit` tasks at a time, in the order they were enqueued
+export function createTaskQueue(limit: number) {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  const next = () => {
+    if (active >= limit) return;
+    const run = waiting.shift();
+    if (!run) return;
+    active++;
+    run();
+  };
+
+  return function enqueue<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      waiting.push(() =>
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          })
+      );
+      next();
+    });
+  };
+}
+
+/* -------------------- Hook -------------------- */
+// The previews of one gallery: their object URLs, image processing (started as soon as
+// a file is added, so most are ready by the time Save is hit) and uploads, a few at a
+// time. Uploads stop and object URLs are released on unmount.
+export function usePendingFiles(repo: GalleryRepository, galleryId: string) {
+  const [pending, setPending] = useState<PendingFile[]>([]);
+  // the latest list, for tasks that outlive a render
+  const pendingRef = useRef(pending);
+  useEffect(() => {
+    pendingRef.current = pending;
+  });
+  // previews stay alive while history may bring them back; saved ones never return
+  const previewUrls = useRef(new Set<string>());
+  const savedIds = useRef(new Set<string>());
+  // one abort handle per file being uploaded
+  const controllers = useRef(new Map<string, AbortController>());
+  const jobs = useRef(new Map<string, Promise<ProcessedImage>>());
+  const [enqueue] = useState(() => createTaskQueue(UPLOAD_CONCURRENCY));
+
+  useEffect(() => {
+    const running = controllers.current;
+    const urls = previewUrls.current;
+    return () => {
+      running.forEach((c) => c.abort());
+      urls.forEach((u) => URL.revokeObjectURL(u));
+    };
+  }, []);
+
+  // An object URL for a preview, released when the page goes
+  const previewOf = (file: File) => {
+    const url = URL.createObjectURL(file);
+    previewUrls.current.add(url);
+    return url;
+  };
+
+  const patchUpload = (id: string, patch: Partial<UploadState>) =>
+    setPending((prev) =>
+      prev.map((p) =>
+        p.id === id
+          ? { ...p, upload: { status: "queued", progress: 0, ...p.upload, ...patch } }
+          : p
+      )
+    );
+
+  // Downscaled, re-encoded variants of a pending file (computed once per file)
+  const processed = (p: PendingFile) => {
+    let job = jobs.current.get(p.id);
+    if (!job) {
+      job = processImage(p.file);
+      // a failed job is retried on the next attempt
+      job.catch(() => jobs.current.delete(p.id));
+      jobs.current.set(p.id, job);
+    }
+    return job;
+  };
+
+  // (Re)insert previews at their indices; files that were saved meanwhile stay out
+  const insert = (entries: Array<[PendingFile, number]>) =>
+    setPending((prev) => {
+      const copy = [...prev];
+      for (const [p, index] of entries) {
+        if (savedIds.current.has(p.id) || copy.some((x) => x.id === p.id)) continue;
+        copy.splice(Math.min(index, copy.length), 0, p);
+      }
+      return copy;
+    });
+
+  // Drop a preview together with its upload and any already-stored files
+  const removeNow = (id: string) => {
+    const removed = pendingRef.current.find((p) => p.id === id);
+    controllers.current.get(id)?.abort();
+    const stored = removed?.upload?.stored ?? removed?.stored;
+    if (stored) void deleteItemImage(repo, stored);
+    jobs.current.delete(id);
+    setPending((prev) => prev.filter((p) => p.id !== id));
+  };
+
+  // Upload one pending file and write the item `itemOf` makes of it (layout as it is
+  // once the bytes are in); a saved file leaves the preview
+  const save = async (
+    id: string,
+    itemOf: (p: PendingFile, stored: ItemImage) => NewGalleryItem,
+    signal: AbortSignal
+  ) => {
+    const current = () => pendingRef.current.find((p) => p.id === id);
+    try {
+      if (signal.aborted) throw new UploadCanceledError();
+      const start = current();
+      if (!start) throw new UploadCanceledError();
+
+      let stored = start.upload?.stored ?? start.stored;
+      if (!stored) {
+        patchUpload(id, { status: "processing", progress: 0, error: undefined });
+        const image = await processed(start);
+        if (signal.aborted) throw new UploadCanceledError();
+        patchUpload(id, { status: "uploading" });
+        stored = await uploadItemImage(repo, galleryId, image, {
+          signal,
+          onProgress: (progress) => patchUpload(id, { progress }),
+        });
+      }
+      patchUpload(id, { status: "saving", progress: 1, stored });
+      if (signal.aborted) throw new UploadCanceledError();
+
+      // layout may have changed while the bytes were in flight
+      const p = current() ?? start;
+      await repo.addItem(galleryId, itemOf(p, stored));
+
+      savedIds.current.add(id);
+      setPending((prev) => prev.filter((x) => x.id !== id));
+      jobs.current.delete(id);
+      previewUrls.current.delete(p.previewUrl);
+      URL.revokeObjectURL(p.previewUrl);
+      return true;
+    } catch (err) {
+      if (err instanceof UploadCanceledError) {
+        patchUpload(id, { status: "canceled" });
+      } else {
+        patchUpload(id, {
+          status: "error",
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+      return false;
+    } finally {
+      controllers.current.delete(id);
+    }
+  };
+
+  // Queue a file for upload; resolves true once its item is written
+  const queue = (id: string, itemOf: (p: PendingFile, stored: ItemImage) => NewGalleryItem) => {
+    const controller = new AbortController();
+    controllers.current.set(id, controller);
+    patchUpload(id, { status: "queued", progress: 0, error: undefined });
+    return enqueue(() => save(id, itemOf, controller.signal));
+  };
+
+  const cancel = (id: string) => controllers.current.get(id)?.abort();
+
+  return { pending, setPending, pendingRef, previewOf, processed, insert, removeNow, queue, cancel };
+}
+
+export type PendingFiles = ReturnType<typeof usePendingFiles>;
@@ -0,0 +1,64 @@
+import { deflateRawSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { ZipFormatError, createZip, readZip } from "@/lib/zip";
+
+const text = async (blob: Blob) => new TextDecoder().decode(await blob.arrayBuffer());
+
+// A one-entry archive with the contents deflated, as other tools write them
+function deflatedZip(name: string, contents: string) {
+  const nameBytes = new TextEncoder().encode(name);
+  const data = new Uint8Array(deflateRawSync(contents));
+  const local = new DataView(new ArrayBuffer(30));
+  local.setUint32(0, 0x04034b50, true);
+  local.setUint16(8, 8, true);
+  local.setUint32(18, data.length, true);
+  local.setUint32(22, contents.length, true);
+  local.setUint16(26, nameBytes.length, true);
+  const dir = new DataView(new ArrayBuffer(46));
+  dir.setUint32(0, 0x02014b50, true);
+  dir.setUint16(10, 8, true);
+  dir.setUint32(20, data.length, true);
+  dir.setUint32(24, contents.length, true);
+  dir.setUint16(28, nameBytes.length, true);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, 1, true);
+  end.setUint16(10, 1, true);
+  end.setUint32(12, 46 + nameBytes.length, true);
+  end.setUint32(16, 30 + nameBytes.length + data.length, true);
+  return new Blob([local.buffer, nameBytes, data, dir.buffer, nameBytes, end.buffer]);
+}
+
+describe("createZip / readZip", () => {
+  it("reads back what was written", async () => {
+    const image = new Blob([new Uint8Array([0xff, 0xd8, 0xff, 0x00, 0x01])]);
+    const zip = await createZip([
+      { name: "gallery.json", data: '{"name":"Trip"}' },
+      { name: "images/été.jpg", data: image },
+    ]);
+    expect(zip.type).toBe("application/zip");
+
+    const files = await readZip(zip);
+    expect([...files.keys()]).toEqual(["gallery.json", "images/été.jpg"]);
+    const json = files.get("gallery.json");
+    const jpg = files.get("images/été.jpg");
+    expect(json && (await text(await json()))).toBe('{"name":"Trip"}');
+    const bytes = jpg && new Uint8Array(await (await jpg()).arrayBuffer());
+    expect(bytes && [...bytes]).toEqual([0xff, 0xd8, 0xff, 0x00, 0x01]);
+  });
+
+  it("writes an empty archive", async () => {
+    const files = await readZip(await createZip([]));
+    expect(files.size).toBe(0);
+  });
+
+  it("reads deflated entries", async () => {
+    const files = await readZip(deflatedZip("notes.txt", "hello hello hello"));
+    const notes = files.get("notes.txt");
+    expect(notes && (await text(await notes()))).toBe("hello hello hello");
+  });
+
+  it("turns away what isn't a ZIP", async () => {
+    await expect(readZip(new Blob(["just some text"]))).rejects.toBeInstanceOf(ZipFormatError);
+  });
+});
@@ -0,0 +1,168 @@
+// lib/zip.ts
+// Just enough ZIP for gallery bundles: writing stores files as they are (images are
+// compressed already); reading also takes deflated entries, as zipped by other tools.
+
+/* -------------------- CRC-32 -------------------- */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array) {
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+/* -------------------- Writing -------------------- */
+export type ZipEntry = { name: string; data: Blob | string };
+
+// classic ZIP (no ZIP64) tops out at 4 GB
+const MAX_SIZE = 0xffffffff;
+// bit 11: names are UTF-8
+const UTF8_FLAG = 0x0800;
+
+// DOS date and time, as stored in ZIP headers
+function dosDateTime(d: Date) {
+  const time = (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1);
+  const date = ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate();
+  return { time, date };
+}
+
+async function bytesOf(data: ZipEntry["data"]) {
+  if (typeof data === "string") return new TextEncoder().encode(data);
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(new Date());
+  const parts: BlobPart[] = [];
+  const central: BlobPart[] = [];
+  let offset = 0;
+  let dirSize = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = await bytesOf(entry.data);
+    if (offset + data.length > MAX_SIZE) throw new Error("The bundle is too large (over 4 GB)");
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const dir = new DataView(new ArrayBuffer(46));
+    dir.setUint32(0, 0x02014b50, true);
+    dir.setUint16(4, 20, true);
+    dir.setUint16(6, 20, true);
+    dir.setUint16(8, UTF8_FLAG, true);
+    dir.setUint16(10, 0, true);
+    dir.setUint16(12, time, true);
+    dir.setUint16(14, date, true);
+    dir.setUint32(16, crc, true);
+    dir.setUint32(20, data.length, true);
+    dir.setUint32(24, data.length, true);
+    dir.setUint16(28, name.length, true);
+    dir.setUint32(42, offset, true);
+
+    parts.push(local.buffer, name, data);
+    central.push(dir.buffer, name);
+    dirSize += 46 + name.length;
+    offset += 30 + name.length + data.length;
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, dirSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], { type: "application/zip" });
+}
+
+/* -------------------- Reading -------------------- */
+export class ZipFormatError extends Error {
+  constructor(message = "Not a ZIP file, or a damaged one") {
+    super(message);
+    this.name = "ZipFormatError";
+  }
+}
+
+async function view(blob: Blob, start: number, end: number) {
+  return new DataView(await blob.slice(start, end).arrayBuffer());
+}
+
+// The end-of-directory record sits in the last 22 bytes plus an optional comment
+async function findEnd(blob: Blob) {
+  const from = Math.max(0, blob.size - 22 - 0xffff);
+  const tail = await view(blob, from, blob.size);
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === 0x06054b50) {
+      return {
+        count: tail.getUint16(i + 10, true),
+        dirSize: tail.getUint32(i + 12, true),
+        dirOffset: tail.getUint32(i + 16, true),
+      };
+    }
+  }
+  throw new ZipFormatError();
+}
+
+async function inflate(data: Blob) {
+  const stream = data.stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).blob();
+}
+
+// Files in the archive by path; folders are left out. Contents are read lazily.
+export async function readZip(blob: Blob): Promise<Map<string, () => Promise<Blob>>> {
+  const { count, dirSize, dirOffset } = await findEnd(blob);
+  const dir = await view(blob, dirOffset, dirOffset + dirSize);
+  const decoder = new TextDecoder();
+  const files = new Map<string, () => Promise<Blob>>();
+
+  let p = 0;
+  for (let i = 0; i < count; i++) {
+    if (p + 46 > dir.byteLength || dir.getUint32(p, true) !== 0x02014b50) {
+      throw new ZipFormatError();
+    }
+    const method = dir.getUint16(p + 10, true);
+    const size = dir.getUint32(p + 20, true);
+    const nameLength = dir.getUint16(p + 28, true);
+    const extraLength = dir.getUint16(p + 30, true);
+    const commentLength = dir.getUint16(p + 32, true);
+    const offset = dir.getUint32(p + 42, true);
+    const name = decoder.decode(
+      new Uint8Array(dir.buffer, dir.byteOffset + p + 46, nameLength)
+    );
+    p += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith("/")) continue;
+
+    files.set(name, async () => {
+      // the local header's name and extra field can differ in length from the directory's
+      const local = await view(blob, offset, offset + 30);
+      if (local.getUint32(0, true) !== 0x04034b50) throw new ZipFormatError();
+      const start = offset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+      const data = blob.slice(start, start + size);
+      if (method === 0) return data;
+      if (method === 8) return inflate(data);
+      throw new ZipFormatError(`${name}: unsupported compression`);
+    });
+  }
+  return files;
+}
@@ -0,0 +1,95 @@
+// storage.rules.test.ts
+// Storage rules, checked against the Storage and Firestore emulators: `npm run test:rules`.
+// The rules read the gallery document, so the galleries are seeded in Firestore.
+import { readFileSync } from "fs";
+import {
+  type RulesTestContext,
+  type RulesTestEnvironment,
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import { doc, setDoc } from "firebase/firestore";
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+
+let env: RulesTestEnvironment;
+
+// Accounts by role in the seeded galleries; invites only count for verified addresses
+const account = (uid: string, verified = true) =>
+  env.authenticatedContext(uid, { email: `${uid}@example.com`, email_verified: verified });
+const files = (ctx: RulesTestContext) => ctx.storage();
+const owner = () => files(account("owner"));
+const editor = () => files(account("editor"));
+const viewer = () => files(account("viewer"));
+const stranger = () => files(account("stranger"));
+const anonymous = () => files(env.unauthenticatedContext());
+
+type Storage = ReturnType<typeof files>;
+
+const gallery = (visibility: string) => ({
+  name: `A ${visibility} gallery`,
+  ownerId: "owner",
+  editors: ["editor@example.com"],
+  viewers: ["viewer@example.com"],
+  visibility,
+});
+
+const image = (bytes = 16) => new Uint8Array(bytes);
+// an upload task is only promise-like; assertSucceeds / assertFails want a promise
+const upload = async (fs: Storage, path: string, data = image(), contentType = "image/jpeg") =>
+  fs.ref(path).put(data, { contentType });
+
+beforeAll(async () => {
+  // hosts and ports come from the *_EMULATOR_HOST variables set by `firebase emulators:exec`
+  env = await initializeTestEnvironment({
+    projectId: "demo-gallery-rules",
+    firestore: { rules: readFileSync("firestore.rules", "utf8") },
+    storage: { rules: readFileSync("storage.rules", "utf8") },
+  });
+});
+
+afterAll(() => env?.cleanup());
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await env.clearStorage();
+  await env.withSecurityRulesDisabled(async (ctx) => {
+    for (const visibility of ["private", "public"]) {
+      await setDoc(doc(ctx.firestore(), `galleries/${visibility}`), gallery(visibility));
+      await upload(ctx.storage(), `galleries/${visibility}/a.jpg`);
+    }
+  });
+});
+
+describe("gallery files", () => {
+  it("are read wherever the gallery can be", async () => {
+    for (const member of [owner, editor, viewer]) {
+      await assertSucceeds(member().ref("galleries/private/a.jpg").getMetadata());
+    }
+    await assertFails(stranger().ref("galleries/private/a.jpg").getMetadata());
+    await assertFails(anonymous().ref("galleries/private/a.jpg").getMetadata());
+    await assertSucceeds(anonymous().ref("galleries/public/a.jpg").getMetadata());
+  });
+
+  it("are uploaded by editors", async () => {
+    await assertSucceeds(upload(owner(), "galleries/private/b.jpg"));
+    await assertSucceeds(upload(editor(), "galleries/private/c.jpg"));
+    await assertFails(upload(viewer(), "galleries/private/d.jpg"));
+    await assertFails(upload(stranger(), "galleries/public/d.jpg"));
+    await assertFails(upload(anonymous(), "galleries/public/d.jpg"));
+  });
+
+  it("ignores invites to addresses that aren't verified", async () => {
+    await assertFails(upload(files(account("editor", false)), "galleries/private/b.jpg"));
+  });
+
+  it("are images under 20 MB", async () => {
+    await assertFails(upload(editor(), "galleries/private/b.txt", image(), "text/plain"));
+    await assertFails(upload(editor(), "galleries/private/big.jpg", image(20 * 1024 * 1024)));
+  });
+
+  it("are deleted by editors", async () => {
+    await assertFails(viewer().ref("galleries/private/a.jpg").delete());
+    await assertSucceeds(editor().ref("galleries/private/a.jpg").delete());
+  });
+});
@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+
+// Security rules tests; they need the Firestore and Storage emulators (`npm run test:rules`)
+export default defineConfig({
+  test: {
+    include: ["firestore.rules.test.ts", "storage.rules.test.ts"],
+    // every test shares one emulator
+    fileParallelism: false,
+    testTimeout: 20_000,
+  },
+});